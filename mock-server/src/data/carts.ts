@@ -0,0 +1,89 @@
+import { findProduct, products } from './products';
+import { users } from './users';
+
+export interface CartLineRecord {
+  id: number;
+  title: string;
+  price: number;
+  quantity: number;
+  total: number;
+  discountPercentage: number;
+  discountedTotal: number;
+  thumbnail: string;
+}
+
+export interface CartRecord {
+  id: number;
+  products: CartLineRecord[];
+  total: number;
+  discountedTotal: number;
+  userId: number;
+  totalProducts: number;
+  totalQuantity: number;
+}
+
+export interface CartLineInput {
+  id: number;
+  quantity: number;
+}
+
+const CART_COUNT = 40;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Price a cart line from the product catalog
+ * @returns Priced line, or undefined when the product does not exist
+ */
+export function priceLine(input: CartLineInput): CartLineRecord | undefined {
+  const product = findProduct(input.id);
+  if (!product) {
+    return undefined;
+  }
+
+  const total = round(product.price * input.quantity);
+  return {
+    id: product.id,
+    title: product.title,
+    price: product.price,
+    quantity: input.quantity,
+    total,
+    discountPercentage: product.discountPercentage,
+    discountedTotal: round(total * (1 - product.discountPercentage / 100)),
+    thumbnail: product.thumbnail,
+  };
+}
+
+/**
+ * Assemble a cart and its aggregate totals from priced lines
+ */
+export function buildCart(id: number, userId: number, lines: CartLineRecord[]): CartRecord {
+  return {
+    id,
+    products: lines,
+    total: round(lines.reduce((sum, line) => sum + line.total, 0)),
+    discountedTotal: round(lines.reduce((sum, line) => sum + line.discountedTotal, 0)),
+    userId,
+    totalProducts: lines.length,
+    totalQuantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+  };
+}
+
+export const carts: CartRecord[] = Array.from({ length: CART_COUNT }, (_, index) => {
+  const id = index + 1;
+  const lineCount = (id % 4) + 1;
+  const lines = Array.from({ length: lineCount }, (_, line) => ({
+    id: products[(id * 3 + line * 7) % products.length].id,
+    quantity: ((id + line) % 4) + 1,
+  }))
+    .map(priceLine)
+    .filter((line): line is CartLineRecord => line !== undefined);
+
+  return buildCart(id, users[(id * 7) % users.length].id, lines);
+});
+
+export function findCart(id: number): CartRecord | undefined {
+  return carts.find(cart => cart.id === id);
+}
@@ -0,0 +1,148 @@
+/**
+ * Seeded product catalog.
+ * Shapes mirror DummyJSON closely enough to satisfy `productSchema`.
+ */
+export interface ProductRecord {
+  id: number;
+  title: string;
+  description: string;
+  category: string;
+  price: number;
+  discountPercentage: number;
+  rating: number;
+  stock: number;
+  tags: string[];
+  brand?: string;
+  sku: string;
+  weight: number;
+  availabilityStatus: string;
+  minimumOrderQuantity: number;
+  thumbnail: string;
+  images: string[];
+}
+
+export interface CategoryRecord {
+  slug: string;
+  name: string;
+  url: string;
+}
+
+const CDN = 'https://cdn.dummyjson.com/products/images';
+const BASE_URL = 'https://dummyjson.com/products/category';
+
+/**
+ * [title, brand, description, price] per category
+ */
+const catalog: Record<string, Array<[string, string | undefined, string, number]>> = {
+  beauty: [
+    ['Essence Mascara Lash Princess', 'Essence', 'A popular mascara known for its volumizing and lengthening effects.', 9.99],
+    ['Eyeshadow Palette with Mirror', 'Glamour Beauty', 'A versatile palette with a built-in mirror for on-the-go looks.', 19.99],
+    ['Powder Canister', 'Velvet Touch', 'A finely milled setting powder for a matte finish.', 14.99],
+    ['Red Lipstick', 'Chic Cosmetics', 'A classic red lipstick with a long-lasting satin finish.', 12.99],
+    ['Red Nail Polish', 'Nail Couture', 'A glossy nail polish that dries quickly and resists chipping.', 8.99],
+  ],
+  fragrances: [
+    ['Calvin Klein CK One', 'Calvin Klein', 'A clean, contemporary unisex fragrance.', 49.99],
+    ['Chanel Coco Noir Eau De', 'Chanel', 'An elegant and mysterious fragrance with notes of grapefruit and rose.', 129.99],
+    ["Dior J'adore", 'Dior', 'A luxurious floral bouquet fragrance.', 89.99],
+    ['Dolce Shine Eau de', 'Dolce & Gabbana', 'A youthful fragrance with mango, jasmine and blonde woods.', 69.99],
+    ['Gucci Bloom Eau de', 'Gucci', 'A rich white floral scent with tuberose and jasmine.', 79.99],
+  ],
+  furniture: [
+    ['Annibale Colombo Bed', 'Annibale Colombo', 'A luxurious bed with a timeless design and velvet headboard.', 1899.99],
+    ['Annibale Colombo Sofa', 'Annibale Colombo', 'A sophisticated sofa crafted with fine upholstery.', 2499.99],
+    ['Bedside Table African Cherry', 'Furniture Co.', 'A stylish bedside table made from African cherry wood.', 299.99],
+    ['Knoll Saarinen Executive Conference Chair', 'Knoll', 'A modern conference chair with a sleek design.', 499.99],
+    ['Wooden Bathroom Sink With Mirror', 'Bath Trends', 'A wooden sink with an integrated mirror.', 799.99],
+  ],
+  groceries: [
+    ['Apple', undefined, 'Fresh and crisp apples, perfect for snacking.', 1.99],
+    ['Beef Steak', undefined, 'High-quality beef steak, great for grilling.', 12.99],
+    ['Cat Food', undefined, 'Nutritious cat food formulated to meet feline needs.', 8.99],
+    ['Chicken Meat', undefined, 'Fresh and tender chicken meat.', 9.99],
+    ['Cooking Oil', undefined, 'Versatile cooking oil suitable for frying and baking.', 4.99],
+  ],
+  laptops: [
+    ['Apple MacBook Pro 14 Inch Space Grey', 'Apple', 'A powerful laptop with an M-series chip and a Liquid Retina display.', 1999.99],
+    ['Asus Zenbook Pro Dual Screen Laptop', 'Asus', 'A high-performance laptop with a secondary touch screen.', 1799.99],
+    ['Huawei Matebook X Pro', 'Huawei', 'A slim laptop with a 3K touch display.', 1399.99],
+    ['Lenovo Yoga 920', 'Lenovo', 'A 2-in-1 convertible laptop with a 360-degree hinge.', 1099.99],
+    ['New DELL XPS 13 9300 Laptop', 'Dell', 'A compact laptop with an InfinityEdge display.', 1499.99],
+  ],
+  smartphones: [
+    ['iPhone 5s', 'Apple', 'A classic iPhone with Touch ID and a 4-inch display.', 199.99],
+    ['iPhone 6', 'Apple', 'A stylish iPhone with a larger display and improved performance.', 299.99],
+    ['iPhone 13 Pro', 'Apple', 'A flagship phone with a triple camera system and ProMotion display.', 1099.99],
+    ['iPhone X', 'Apple', 'An all-screen phone with Face ID and an OLED display.', 899.99],
+    ['Oppo A57', 'Oppo', 'A mid-range smartphone with a large battery.', 249.99],
+    ['Samsung Galaxy S10', 'Samsung', 'A flagship Samsung phone with an Infinity-O display.', 699.99],
+    ['Vivo X21', 'Vivo', 'A phone with an in-display fingerprint sensor.', 499.99],
+  ],
+  'mobile-accessories': [
+    ['Amazon Echo Plus', 'Amazon', 'A smart speaker with a built-in Zigbee hub.', 99.99],
+    ['Apple AirPods Max Silver', 'Apple', 'Over-ear headphones with active noise cancellation.', 549.99],
+    ['Apple MagSafe Battery Pack', 'Apple', 'A portable battery pack that attaches magnetically to your phone.', 99.99],
+    ['Beats Flex Wireless Earphones', 'Beats', 'Wireless earphones for all-day listening.', 49.99],
+    ['iPhone 12 Silicone Case with MagSafe Plum Toast', 'Apple', 'A silicone phone case with MagSafe support.', 29.99],
+  ],
+  'sports-accessories': [
+    ['American Football', undefined, 'A regulation-size American football.', 19.99],
+    ['Baseball Ball', undefined, 'A durable baseball for practice and games.', 8.99],
+    ['Basketball', undefined, 'An indoor and outdoor basketball with great grip.', 14.99],
+    ['Cricket Bat', undefined, 'A willow cricket bat for players of all levels.', 29.99],
+    ['Tennis Racket', undefined, 'A lightweight racket for powerful shots.', 49.99],
+  ],
+  tablets: [
+    ['iPad Mini 2021 Starlight', 'Apple', 'A compact tablet with an 8.3-inch display.', 499.99],
+    ['Samsung Galaxy Tab S8 Plus Grey', 'Samsung', 'A powerful Android tablet with an S Pen.', 599.99],
+    ['Samsung Galaxy Tab White', 'Samsung', 'A versatile tablet for work and play.', 349.99],
+  ],
+};
+
+function titleCase(slug: string): string {
+  return slug
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function imageSlug(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export const categories: CategoryRecord[] = Object.keys(catalog).map(slug => ({
+  slug,
+  name: titleCase(slug),
+  url: `${BASE_URL}/${slug}`,
+}));
+
+export const products: ProductRecord[] = Object.entries(catalog).flatMap(([category, items]) =>
+  items.map(([title, brand, description, price]) => ({ category, title, brand, description, price }))
+).map((item, index) => {
+  const id = index + 1;
+  const slug = imageSlug(item.title);
+  const stock = (id * 37) % 100;
+
+  return {
+    id,
+    title: item.title,
+    description: item.description,
+    category: item.category,
+    price: item.price,
+    discountPercentage: Number((((id * 7) % 19) + 0.5).toFixed(2)),
+    rating: Number((2.5 + ((id * 13) % 25) / 10).toFixed(2)),
+    stock,
+    tags: [item.category],
+    ...(item.brand ? { brand: item.brand } : {}),
+    sku: `SKU-${String(id).padStart(4, '0')}`,
+    weight: (id % 9) + 1,
+    availabilityStatus: stock > 5 ? 'In Stock' : 'Low Stock',
+    minimumOrderQuantity: (id % 5) + 1,
+    thumbnail: `${CDN}/${item.category}/${slug}/thumbnail.png`,
+    images: [1, 2, 3].map(n => `${CDN}/${item.category}/${slug}/${n}.png`),
+  };
+});
+
+export function findProduct(id: number): ProductRecord | undefined {
+  return products.find(product => product.id === id);
+}
@@ -0,0 +1,89 @@
+/**
+ * Seeded users.
+ * The first entries match the DummyJSON personas used across both suites.
+ */
+export interface UserRecord {
+  id: number;
+  firstName: string;
+  lastName: string;
+  maidenName: string;
+  age: number;
+  gender: string;
+  email: string;
+  phone: string;
+  username: string;
+  password: string;
+  birthDate: string;
+  image: string;
+  bloodGroup: string;
+  height: number;
+  weight: number;
+  eyeColor: string;
+  hair: {
+    color: string;
+    type: string;
+  };
+  role: string;
+}
+
+/**
+ * [firstName, lastName, username, gender, age, hairColor, hairType, eyeColor, bloodGroup, role]
+ */
+const seed: Array<[string, string, string, string, number, string, string, string, string, string]> = [
+  ['Emily', 'Johnson', 'emilys', 'female', 28, 'Brown', 'Curly', 'Green', 'O-', 'admin'],
+  ['Michael', 'Williams', 'michaelw', 'male', 35, 'Green', 'Straight', 'Red', 'B+', 'admin'],
+  ['Sophia', 'Brown', 'sophiab', 'female', 42, 'White', 'Wavy', 'Hazel', 'O-', 'admin'],
+  ['James', 'Davis', 'jamesd', 'male', 45, 'Brown', 'Straight', 'Amber', 'AB+', 'admin'],
+  ['Emma', 'Miller', 'emmaj', 'female', 30, 'White', 'Straight', 'Grey', 'AB-', 'admin'],
+  ['Olivia', 'Wilson', 'oliviaw', 'female', 22, 'Blonde', 'Straight', 'Brown', 'B+', 'moderator'],
+  ['Alexander', 'Jones', 'alexanderj', 'male', 55, 'Black', 'Curly', 'Amber', 'A-', 'moderator'],
+  ['Ava', 'Taylor', 'avat', 'female', 27, 'Gray', 'Wavy', 'Hazel', 'O+', 'moderator'],
+  ['Ethan', 'Martinez', 'ethanm', 'male', 33, 'Purple', 'Curly', 'Hazel', 'AB-', 'moderator'],
+  ['Isabella', 'Anderson', 'isabellad', 'female', 38, 'Brown', 'Curly', 'Amber', 'O+', 'moderator'],
+  ['Liam', 'Garcia', 'liamg', 'male', 29, 'Blue', 'Straight', 'Amber', 'O-', 'user'],
+  ['Mia', 'Rodriguez', 'miar', 'female', 24, 'Brown', 'Wavy', 'Green', 'B-', 'user'],
+  ['Noah', 'Hernandez', 'noahh', 'male', 40, 'Black', 'Straight', 'Brown', 'A+', 'user'],
+  ['Charlotte', 'Lopez', 'charlottem', 'female', 36, 'Blonde', 'Curly', 'Blue', 'A-', 'user'],
+  ['William', 'Gonzalez', 'williamg', 'male', 31, 'Brown', 'Wavy', 'Grey', 'AB+', 'user'],
+  ['Avery', 'Perez', 'averyp', 'female', 26, 'Red', 'Straight', 'Green', 'O+', 'user'],
+  ['Evelyn', 'Sanchez', 'evelyns', 'female', 44, 'Black', 'Wavy', 'Brown', 'B+', 'user'],
+  ['Logan', 'Torres', 'logant', 'male', 34, 'Gray', 'Curly', 'Blue', 'A+', 'user'],
+  ['Abigail', 'Rivera', 'abigailr', 'female', 21, 'Brown', 'Straight', 'Hazel', 'O-', 'user'],
+  ['Jackson', 'Evans', 'jacksone', 'male', 50, 'Blonde', 'Wavy', 'Amber', 'AB-', 'user'],
+];
+
+export const users: UserRecord[] = seed.map(
+  ([firstName, lastName, username, gender, age, color, type, eyeColor, bloodGroup, role], index) => {
+    const id = index + 1;
+    const birthYear = 2024 - age;
+
+    return {
+      id,
+      firstName,
+      lastName,
+      maidenName: id % 3 === 0 ? 'Smith' : '',
+      age,
+      gender,
+      email: `${firstName.toLowerCase()}.${lastName.toLowerCase()}@x.dummyjson.com`,
+      phone: `+1 555-${String(100 + id).padStart(3, '0')}-${String(1000 + id * 37).slice(-4)}`,
+      username,
+      password: `${username}pass`,
+      birthDate: `${birthYear}-${(id % 12) + 1}-${(id % 28) + 1}`,
+      image: `https://dummyjson.com/icon/${username}/128`,
+      bloodGroup,
+      height: 150 + ((id * 7) % 45) + 0.5,
+      weight: 50 + ((id * 11) % 40) + 0.25,
+      eyeColor,
+      hair: { color, type },
+      role,
+    };
+  }
+);
+
+export function findUser(id: number): UserRecord | undefined {
+  return users.find(user => user.id === id);
+}
+
+export function findUserByUsername(username: string): UserRecord | undefined {
+  return users.find(user => user.username === username);
+}
@@ -0,0 +1,84 @@
+import { HttpError } from './router';
+
+const DEFAULT_LIMIT = 30;
+
+/**
+ * Numbers compare numerically and strings lexically; mixed or other values by their string form
+ */
+function compareValues(left: unknown, right: unknown): number {
+  const [a, b] =
+    (typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string')
+      ? [left, right]
+      : [String(left), String(right)];
+  return a === b ? 0 : a > b ? 1 : -1;
+}
+
+function parseCount(value: string | null, fallback: number, name: string): number {
+  if (value === null || value === '') {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new HttpError(400, `Invalid '${name}' - must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Apply DummyJSON list semantics (`sortBy`/`order`, `skip`/`limit`, `select`)
+ * and wrap the page in `{ [key]: items, total, skip, limit }`.
+ *
+ * As upstream does, `limit=0` returns every item and the echoed `limit`
+ * is the number of items actually returned.
+ */
+export function listResponse<T extends { id: number }>(
+  key: string,
+  items: T[],
+  query: URLSearchParams
+): Record<string, unknown> {
+  const skip = parseCount(query.get('skip'), 0, 'skip');
+  const limit = parseCount(query.get('limit'), DEFAULT_LIMIT, 'limit');
+  const sortBy = query.get('sortBy');
+  const order = query.get('order') === 'desc' ? -1 : 1;
+
+  let sorted = items;
+  if (sortBy) {
+    sorted = [...items].sort((a, b) => {
+      const compared = compareValues((a as Record<string, unknown>)[sortBy], (b as Record<string, unknown>)[sortBy]);
+      return compared === 0 ? a.id - b.id : compared * order;
+    });
+  }
+
+  const page = sorted.slice(skip, limit === 0 ? undefined : skip + limit);
+  const select = query.get('select');
+  const fields = select ? ['id', ...select.split(',').map(field => field.trim()).filter(Boolean)] : undefined;
+
+  return {
+    [key]: fields ? page.map(item => pick(item, fields)) : page,
+    total: items.length,
+    skip,
+    limit: page.length,
+  };
+}
+
+function pick<T extends object>(item: T, fields: string[]): Partial<T> {
+  const picked: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field in item) {
+      picked[field] = (item as Record<string, unknown>)[field];
+    }
+  }
+  return picked as Partial<T>;
+}
+
+/**
+ * Parse a numeric path parameter
+ */
+export function parseId(value: string, resource: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id)) {
+    throw new HttpError(400, `Invalid ${resource} id '${value}'`);
+  }
+  return id;
+}
@@ -0,0 +1,17 @@
+import { startMockServer } from './server';
+
+/**
+ * CLI entry point: `npm start` (PORT defaults to 3000)
+ */
+const server = await startMockServer({
+  port: Number(process.env.PORT ?? 3000),
+  host: process.env.HOST ?? '127.0.0.1',
+});
+
+console.log(`DummyJSON mock server listening on ${server.url}`);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    void server.close().then(() => process.exit(0));
+  });
+}
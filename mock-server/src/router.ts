@@ -0,0 +1,120 @@
+import type { IncomingHttpHeaders } from 'node:http';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Parsed request handed to every route handler
+ */
+export interface RouteRequest {
+  method: HttpMethod;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  /** Parsed JSON body, untrusted until a handler checks it */
+  body: unknown;
+}
+
+/**
+ * Status code and JSON body returned by a route handler
+ */
+export interface RouteResponse {
+  status: number;
+  body: unknown;
+}
+
+export type RouteHandler = (req: RouteRequest) => RouteResponse;
+
+/**
+ * Field of a parsed JSON object, or undefined for any other value
+ */
+export function readField(value: unknown, name: string): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  return (value as Record<string, unknown>)[name];
+}
+
+interface Route {
+  method: HttpMethod;
+  pattern: string;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Error thrown by handlers to produce a DummyJSON-style `{ message }` response
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Minimal path router supporting `:param` segments.
+ * Routes are matched in registration order, so static paths such as
+ * `/products/search` must be registered before `/products/:id`.
+ */
+export class Router {
+  private readonly routes: Route[] = [];
+
+  add(method: HttpMethod, pattern: string, handler: RouteHandler): this {
+    this.routes.push({ method, pattern, segments: split(pattern), handler });
+    return this;
+  }
+
+  get(pattern: string, handler: RouteHandler): this {
+    return this.add('GET', pattern, handler);
+  }
+
+  post(pattern: string, handler: RouteHandler): this {
+    return this.add('POST', pattern, handler);
+  }
+
+  put(pattern: string, handler: RouteHandler): this {
+    return this.add('PUT', pattern, handler);
+  }
+
+  patch(pattern: string, handler: RouteHandler): this {
+    return this.add('PATCH', pattern, handler);
+  }
+
+  delete(pattern: string, handler: RouteHandler): this {
+    return this.add('DELETE', pattern, handler);
+  }
+
+  /**
+   * Find the handler and path params for a request
+   * @returns Matching route, or undefined when nothing matches
+   */
+  match(method: string, path: string): { handler: RouteHandler; params: Record<string, string> } | undefined {
+    const segments = split(path);
+
+    for (const route of this.routes) {
+      if (route.method !== method || route.segments.length !== segments.length) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      const matched = route.segments.every((segment, index) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = decodeURIComponent(segments[index]);
+          return true;
+        }
+        return segment === segments[index];
+      });
+
+      if (matched) {
+        return { handler: route.handler, params };
+      }
+    }
+
+    return undefined;
+  }
+}
+
+function split(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
@@ -0,0 +1,94 @@
+import { findUser, findUserByUsername, UserRecord } from '../data/users';
+import { HttpError, readField, RouteRequest, Router } from '../router';
+import { createToken, verifyToken } from '../tokens';
+
+const DEFAULT_EXPIRES_IN_MINS = 60;
+const REFRESH_EXPIRES_IN_MINS = 60 * 24 * 30;
+
+function issueTokens(user: UserRecord, expiresInMins: number) {
+  const claims = {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    gender: user.gender,
+    image: user.image,
+  };
+
+  return {
+    accessToken: createToken(claims, expiresInMins),
+    refreshToken: createToken(claims, REFRESH_EXPIRES_IN_MINS),
+  };
+}
+
+function readExpiry(body: unknown): number {
+  const expiresInMins = readField(body, 'expiresInMins') ?? DEFAULT_EXPIRES_IN_MINS;
+  if (typeof expiresInMins !== 'number' || expiresInMins <= 0) {
+    throw new HttpError(400, 'expiresInMins must be a positive number');
+  }
+  return expiresInMins;
+}
+
+/**
+ * Resolve the user behind the bearer token of a request
+ */
+export function requireUser(req: RouteRequest): UserRecord {
+  const header = req.headers.authorization;
+  if (!header) {
+    throw new HttpError(401, 'Access Token is required');
+  }
+
+  const payload = verifyToken(header.replace(/^Bearer\s+/i, ''));
+  const user = payload && findUser(payload.id);
+  if (!user) {
+    throw new HttpError(401, 'Invalid/Expired Token!');
+  }
+  return user;
+}
+
+export function registerAuthRoutes(router: Router): void {
+  router.post('/auth/login', req => {
+    const username = readField(req.body, 'username');
+    const password = readField(req.body, 'password');
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      throw new HttpError(400, 'Username and password required');
+    }
+
+    const user = findUserByUsername(username);
+    if (!user || user.password !== password) {
+      throw new HttpError(400, 'Invalid credentials');
+    }
+
+    return {
+      status: 200,
+      body: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        gender: user.gender,
+        image: user.image,
+        ...issueTokens(user, readExpiry(req.body)),
+      },
+    };
+  });
+
+  router.get('/auth/me', req => ({ status: 200, body: requireUser(req) }));
+
+  router.post('/auth/refresh', req => {
+    const refreshToken = readField(req.body, 'refreshToken');
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      throw new HttpError(401, 'Refresh token required');
+    }
+
+    const payload = verifyToken(refreshToken);
+    const user = payload && findUser(payload.id);
+    if (!user) {
+      throw new HttpError(403, 'Invalid refresh token');
+    }
+
+    return { status: 200, body: issueTokens(user, readExpiry(req.body)) };
+  });
+}
@@ -0,0 +1,95 @@
+import { buildCart, CartLineInput, CartLineRecord, carts, findCart, priceLine } from '../data/carts';
+import { findUser } from '../data/users';
+import { listResponse, parseId } from '../list';
+import { HttpError, readField, RouteHandler, Router } from '../router';
+
+function isLine(line: unknown): line is CartLineInput {
+  const id = readField(line, 'id');
+  const quantity = readField(line, 'quantity');
+  return Number.isInteger(id) && typeof quantity === 'number' && Number.isInteger(quantity) && quantity >= 1;
+}
+
+function readLines(body: unknown): CartLineInput[] {
+  const lines: unknown = readField(body, 'products');
+  if (!Array.isArray(lines)) {
+    throw new HttpError(400, 'Products must be an array');
+  }
+  if (!lines.every(isLine)) {
+    throw new HttpError(400, 'Each product requires an integer id and a positive quantity');
+  }
+  return lines;
+}
+
+function priceLines(lines: CartLineInput[]): CartLineRecord[] {
+  return lines.map(line => {
+    const priced = priceLine(line);
+    if (!priced) {
+      throw new HttpError(404, `Product with id '${line.id}' not found`);
+    }
+    return priced;
+  });
+}
+
+function requireCart(value: string) {
+  const id = parseId(value, 'cart');
+  const cart = findCart(id);
+  if (!cart) {
+    throw new HttpError(404, `Cart with id '${id}' not found`);
+  }
+  return cart;
+}
+
+/**
+ * Cart routes. Like DummyJSON, writes are simulated: responses reflect the
+ * change but the seeded carts are never mutated, keeping tests independent.
+ */
+export function registerCartRoutes(router: Router): void {
+  router.get('/carts', req => ({ status: 200, body: listResponse('carts', carts, req.query) }));
+
+  router.get('/carts/user/:userId', req => {
+    const userId = parseId(req.params.userId, 'user');
+    if (!findUser(userId)) {
+      throw new HttpError(404, `User with id '${userId}' not found`);
+    }
+    return { status: 200, body: listResponse('carts', carts.filter(cart => cart.userId === userId), req.query) };
+  });
+
+  router.post('/carts/add', req => {
+    const userId = readField(req.body, 'userId');
+    if (userId === undefined) {
+      throw new HttpError(400, 'User id is required');
+    }
+    if (typeof userId !== 'number' || !findUser(userId)) {
+      throw new HttpError(404, `User with id '${userId}' not found`);
+    }
+
+    const cart = buildCart(carts.length + 1, userId, priceLines(readLines(req.body)));
+    return {
+      status: 201,
+      body: {
+        ...cart,
+        products: cart.products.map(({ discountedTotal, ...line }) => ({ ...line, discountedPrice: discountedTotal })),
+      },
+    };
+  });
+
+  router.get('/carts/:id', req => ({ status: 200, body: requireCart(req.params.id) }));
+
+  // `merge: true` keeps existing lines and replaces those with matching ids
+  const update: RouteHandler = req => {
+    const cart = requireCart(req.params.id);
+    const incoming = priceLines(readLines(req.body));
+    const lines = readField(req.body, 'merge')
+      ? [...cart.products.filter(line => !incoming.some(next => next.id === line.id)), ...incoming]
+      : incoming;
+    return { status: 200, body: buildCart(cart.id, cart.userId, lines) };
+  };
+
+  router.put('/carts/:id', update);
+  router.patch('/carts/:id', update);
+
+  router.delete('/carts/:id', req => ({
+    status: 200,
+    body: { ...requireCart(req.params.id), isDeleted: true, deletedOn: new Date().toISOString() },
+  }));
+}
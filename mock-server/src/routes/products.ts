@@ -0,0 +1,31 @@
+import { categories, findProduct, products } from '../data/products';
+import { listResponse, parseId } from '../list';
+import { HttpError, Router } from '../router';
+
+export function registerProductRoutes(router: Router): void {
+  router.get('/products', req => ({ status: 200, body: listResponse('products', products, req.query) }));
+
+  router.get('/products/search', req => {
+    const term = (req.query.get('q') ?? '').toLowerCase();
+    const matches = products.filter(product =>
+      product.title.toLowerCase().includes(term) || product.description.toLowerCase().includes(term)
+    );
+    return { status: 200, body: listResponse('products', matches, req.query) };
+  });
+
+  router.get('/products/categories', () => ({ status: 200, body: categories }));
+
+  router.get('/products/category/:category', req => {
+    const matches = products.filter(product => product.category === req.params.category);
+    return { status: 200, body: listResponse('products', matches, req.query) };
+  });
+
+  router.get('/products/:id', req => {
+    const id = parseId(req.params.id, 'product');
+    const product = findProduct(id);
+    if (!product) {
+      throw new HttpError(404, `Product with id '${id}' not found`);
+    }
+    return { status: 200, body: product };
+  });
+}
@@ -0,0 +1,86 @@
+import { findUser, UserRecord, users } from '../data/users';
+import { listResponse, parseId } from '../list';
+import { HttpError, RouteHandler, Router } from '../router';
+
+/**
+ * Resolve a dotted key such as `hair.color` against a user
+ */
+function readPath(user: UserRecord, key: string): unknown {
+  return key.split('.').reduce<unknown>(
+    (value, segment) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined),
+    user
+  );
+}
+
+function requireUser(value: string): UserRecord {
+  const id = parseId(value, 'user');
+  const user = findUser(id);
+  if (!user) {
+    throw new HttpError(404, `User with id '${id}' not found`);
+  }
+  return user;
+}
+
+/**
+ * Drop fields a client may not set; the id always comes from the server
+ */
+function readChanges(body: unknown): Partial<UserRecord> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  const { id, ...changes } = body as Partial<UserRecord>;
+  return changes;
+}
+
+/**
+ * User routes. Writes are simulated like the cart routes: responses
+ * reflect the change but the seeded users are never mutated.
+ */
+export function registerUserRoutes(router: Router): void {
+  router.get('/users', req => ({ status: 200, body: listResponse('users', users, req.query) }));
+
+  router.get('/users/search', req => {
+    const term = (req.query.get('q') ?? '').toLowerCase();
+    const matches = users.filter(user =>
+      [user.firstName, user.lastName, user.maidenName, user.username, user.email].some(field =>
+        field.toLowerCase().includes(term)
+      )
+    );
+    return { status: 200, body: listResponse('users', matches, req.query) };
+  });
+
+  router.get('/users/filter', req => {
+    const key = req.query.get('key');
+    const value = req.query.get('value');
+    if (!key || value === null) {
+      throw new HttpError(400, 'Both key and value query parameters are required');
+    }
+
+    const matches = users.filter(user => String(readPath(user, key)) === value);
+    return { status: 200, body: listResponse('users', matches, req.query) };
+  });
+
+  // Like DummyJSON, the new user echoes the request body with the next id
+  router.post('/users/add', req => {
+    const changes = readChanges(req.body);
+    if (!changes.firstName || !changes.lastName) {
+      throw new HttpError(400, 'First name and last name are required');
+    }
+    return { status: 201, body: { id: users.length + 1, ...changes } };
+  });
+
+  router.get('/users/:id', req => ({ status: 200, body: requireUser(req.params.id) }));
+
+  const update: RouteHandler = req => {
+    const user = requireUser(req.params.id);
+    return { status: 200, body: { ...user, ...readChanges(req.body), id: user.id } };
+  };
+
+  router.put('/users/:id', update);
+  router.patch('/users/:id', update);
+
+  router.delete('/users/:id', req => ({
+    status: 200,
+    body: { ...requireUser(req.params.id), isDeleted: true, deletedOn: new Date().toISOString() },
+  }));
+}
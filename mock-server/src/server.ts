@@ -0,0 +1,114 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { registerAuthRoutes } from './routes/auth';
+import { registerCartRoutes } from './routes/carts';
+import { registerProductRoutes } from './routes/products';
+import { registerUserRoutes } from './routes/users';
+import { HttpError, HttpMethod, Router } from './router';
+
+/**
+ * Handle to a running mock server
+ */
+export interface RunningMockServer {
+  url: string;
+  port: number;
+  close: () => Promise<void>;
+}
+
+export interface MockServerOptions {
+  port?: number;
+  host?: string;
+}
+
+/**
+ * Build the router with every DummyJSON route the suites use
+ */
+export function createRouter(): Router {
+  const router = new Router();
+  registerAuthRoutes(router);
+  registerProductRoutes(router);
+  registerCartRoutes(router);
+  registerUserRoutes(router);
+  return router;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Create (but do not start) an HTTP server that stands in for https://dummyjson.com
+ */
+export function createMockServer(router: Router = createRouter()): Server {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      const match = router.match(req.method ?? 'GET', url.pathname);
+      if (!match) {
+        throw new HttpError(404, `Route ${req.method} ${url.pathname} not found`);
+      }
+
+      const result = match.handler({
+        method: req.method as HttpMethod,
+        path: url.pathname,
+        params: match.params,
+        query: url.searchParams,
+        headers: req.headers,
+        body: await readBody(req),
+      });
+      send(res, result.status, result.body);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(res, error.status, { message: error.message });
+      } else {
+        send(res, 500, { message: error instanceof Error ? error.message : 'Internal server error' });
+      }
+    }
+  });
+}
+
+/**
+ * Start the mock server
+ * @param options - Port (0 picks a free port) and host to bind
+ * @returns Base URL and a close function
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<RunningMockServer> {
+  const host = options.host ?? '127.0.0.1';
+  const server = createMockServer();
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${port}`,
+    port,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+}
@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const SECRET = process.env.MOCK_JWT_SECRET || 'dummyjson-mock-secret';
+
+/**
+ * Claims carried by access and refresh tokens
+ */
+export interface TokenPayload {
+  id: number;
+  username: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  gender: string;
+  image: string;
+  iat: number;
+  exp: number;
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', SECRET).update(data).digest('base64url');
+}
+
+/**
+ * Create an HS256 JWT that expires after the given number of minutes
+ */
+export function createToken(claims: Omit<TokenPayload, 'iat' | 'exp'>, expiresInMins: number): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ ...claims, iat, exp: iat + Math.round(expiresInMins * 60) }));
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+/**
+ * Verify signature and expiry of a token
+ * @returns Decoded payload, or undefined if the token is malformed, tampered or expired
+ */
+export function verifyToken(token: string): TokenPayload | undefined {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    return undefined;
+  }
+
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as TokenPayload;
+    return decoded.exp * 1000 > Date.now() ? decoded : undefined;
+  } catch {
+    return undefined;
+  }
+}
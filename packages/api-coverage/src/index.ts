@@ -0,0 +1,7 @@
+/**
+ * Endpoint × method × status coverage of both suites, recorded per request
+ * and merged into a JSON and HTML matrix over the operation catalog
+ */
+export * from './matrix';
+export * from './recorder';
+export * from './report';
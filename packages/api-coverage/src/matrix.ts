@@ -0,0 +1,150 @@
+import { endpoints, operations, ApiOperation } from '@saucedemo/contracts';
+import type { CoverageHit } from './recorder';
+
+type Endpoint = string | ((...args: never[]) => string);
+
+/**
+ * Requests per suite for one status of an operation
+ */
+export interface CoverageCell {
+  status: number;
+  /** Listed in the operation's `responses` */
+  documented: boolean;
+  hits: Record<string, number>;
+  total: number;
+}
+
+/**
+ * One operation: its `endpoints` entry, method and every status documented or seen
+ */
+export interface CoverageRow {
+  /** `endpoints` entry, e.g. `auth.me` */
+  endpoint: string;
+  operation: string;
+  method: string;
+  path: string;
+  cells: CoverageCell[];
+  total: number;
+}
+
+/**
+ * Requests that match no documented operation
+ */
+export interface UndocumentedRoute {
+  method: string;
+  path: string;
+  statuses: Record<number, number>;
+  total: number;
+}
+
+export interface CoverageMatrix {
+  generatedAt: string;
+  /** Suites with recorded hits */
+  suites: string[];
+  requests: number;
+  rows: CoverageRow[];
+  undocumented: UndocumentedRoute[];
+  summary: {
+    operations: { covered: number; total: number };
+    statuses: { covered: number; total: number };
+  };
+}
+
+/**
+ * Path templates of `endpoints` entries, keyed by `group.key`.
+ * Query-string helpers (`products.limit`) are not routes of their own.
+ */
+function endpointTemplates(): [string, string][] {
+  return Object.entries(endpoints).flatMap(([group, entries]) =>
+    Object.entries(entries as Record<string, Endpoint>)
+      .map(([key, endpoint]): [string, string] => [
+        `${group}.${key}`,
+        typeof endpoint === 'string' ? endpoint : (endpoint as (...args: string[]) => string)('{}', '{}'),
+      ])
+      .filter(([, path]) => !path.includes('?'))
+  );
+}
+
+/**
+ * `endpoints` entry behind an operation; `update`/`delete` entries share
+ * their path with `single`, so the method picks between them
+ */
+export function endpointNameOf(operation: Pick<ApiOperation, 'method' | 'path'>): string {
+  const template = operation.path.replace(/\{\w+\}/g, '{}');
+  const names = endpointTemplates()
+    .filter(([, path]) => path === template)
+    .map(([name]) => name);
+  const key = operation.method === 'DELETE' ? 'delete' : ['PUT', 'PATCH'].includes(operation.method) ? 'update' : undefined;
+  return (
+    names.find(name => key && name.endsWith(`.${key}`)) ??
+    names.find(name => !name.endsWith('.update') && !name.endsWith('.delete')) ??
+    names[0] ??
+    operation.path
+  );
+}
+
+function increment<K extends string | number>(counts: Record<K, number>, key: K): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Count hits per operation, status and suite. Every documented status gets
+ * a cell (zero when untested); undocumented statuses that were seen are added.
+ */
+export function buildCoverageMatrix(hits: CoverageHit[]): CoverageMatrix {
+  const counts = new Map<string, Record<string, number>>();
+  const undocumented = new Map<string, UndocumentedRoute>();
+  for (const hit of hits) {
+    if (hit.operation) {
+      const key = `${hit.operation} ${hit.status}`;
+      const suites = counts.get(key) ?? {};
+      increment(suites, hit.suite);
+      counts.set(key, suites);
+      continue;
+    }
+    const key = `${hit.method} ${hit.path}`;
+    const route = undocumented.get(key) ?? { method: hit.method, path: hit.path, statuses: {}, total: 0 };
+    increment(route.statuses, hit.status);
+    route.total += 1;
+    undocumented.set(key, route);
+  }
+
+  const rows = operations.map((operation): CoverageRow => {
+    const seen = [...counts.keys()]
+      .filter(key => key.startsWith(`${operation.id} `))
+      .map(key => Number(key.split(' ')[1]));
+    const documented = Object.keys(operation.responses).map(Number);
+    const cells = [...new Set([...documented, ...seen])]
+      .sort((a, b) => a - b)
+      .map((status): CoverageCell => {
+        const suites = counts.get(`${operation.id} ${status}`) ?? {};
+        return {
+          status,
+          documented: documented.includes(status),
+          hits: suites,
+          total: Object.values(suites).reduce((sum, count) => sum + count, 0),
+        };
+      });
+    return {
+      endpoint: endpointNameOf(operation),
+      operation: operation.id,
+      method: operation.method,
+      path: operation.path,
+      cells,
+      total: cells.reduce((sum, cell) => sum + cell.total, 0),
+    };
+  });
+
+  const documentedCells = rows.flatMap(row => row.cells.filter(cell => cell.documented));
+  return {
+    generatedAt: new Date().toISOString(),
+    suites: [...new Set(hits.map(hit => hit.suite))].sort(),
+    requests: hits.length,
+    rows,
+    undocumented: [...undocumented.values()].sort((a, b) => b.total - a.total),
+    summary: {
+      operations: { covered: rows.filter(row => row.total > 0).length, total: rows.length },
+      statuses: { covered: documentedCells.filter(cell => cell.total > 0).length, total: documentedCells.length },
+    },
+  };
+}
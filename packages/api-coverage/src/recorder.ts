@@ -0,0 +1,94 @@
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { threadId } from 'node:worker_threads';
+import { findOperation } from '@saucedemo/contracts';
+
+/**
+ * One request with a response, as appended to the raw coverage log
+ */
+export interface CoverageHit {
+  /** Suite that sent it, e.g. `playwright-api` */
+  suite: string;
+  method: string;
+  /** Operation path template (`/products/{id}`), or the raw path when no operation matches */
+  path: string;
+  /** Operation id, when the request matches a documented operation */
+  operation?: string;
+  status: number;
+  /** Title path of the test that sent it (`auth.spec.ts > Authentication API Tests > ...`), if any */
+  test?: string;
+}
+
+export interface RecordCoverageOptions {
+  method: string;
+  url: string;
+  /** Requests that got no response are not counted */
+  status?: number;
+}
+
+/** Shared by both suites (run from their own directories) so their hits merge */
+export const DEFAULT_API_COVERAGE_DIR = '../api-coverage';
+
+export function coverageDirectory(): string {
+  return process.env.API_COVERAGE_DIR ?? DEFAULT_API_COVERAGE_DIR;
+}
+
+/**
+ * Suite label set by `startCoverageSession`
+ */
+export function coverageSuite(): string {
+  return process.env.API_COVERAGE_SUITE ?? 'unknown';
+}
+
+let currentTest: string | undefined;
+
+/**
+ * Attribute this worker's following requests to a test; called with no
+ * argument when the test ends, so hook traffic stays unattributed
+ */
+export function setCoverageTest(titlePath?: string[]): void {
+  currentTest = titlePath?.join(' > ');
+}
+
+/**
+ * Label a request with its documented operation, so `/carts/1` and `/carts/2`
+ * count towards `GET /carts/{id}`
+ * @returns undefined for requests that got no response
+ */
+export function coverageHit(
+  { method, url, status }: RecordCoverageOptions,
+  suite = coverageSuite(),
+  test?: string
+): CoverageHit | undefined {
+  if (status === undefined) {
+    return undefined;
+  }
+
+  const verb = method.toUpperCase();
+  const path = new URL(url, 'http://localhost').pathname;
+  const operation = findOperation(verb, path);
+  return {
+    suite,
+    method: verb,
+    path: operation?.path ?? path,
+    ...(operation ? { operation: operation.id } : {}),
+    status,
+    ...(test ? { test } : {}),
+  };
+}
+
+/**
+ * Append a request to this worker's coverage log
+ */
+export function recordCoverage(options: RecordCoverageOptions): void {
+  const hit = coverageHit(options, coverageSuite(), currentTest);
+  if (!hit) {
+    return;
+  }
+
+  const dir = join(coverageDirectory(), 'raw', hit.suite);
+
+  // One file per process and thread keeps concurrent workers from interleaving lines
+  mkdirSync(dir, { recursive: true });
+  appendFileSync(join(dir, `coverage-${process.pid}-${threadId}.jsonl`), `${JSON.stringify(hit)}\n`);
+}
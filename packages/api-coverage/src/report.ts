@@ -0,0 +1,158 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { buildCoverageMatrix, CoverageMatrix, CoverageRow } from './matrix';
+import { coverageDirectory, CoverageHit } from './recorder';
+
+/**
+ * Hits of every suite under `<dir>/raw/<suite>/`
+ */
+export function readCoverageHits(dir = coverageDirectory()): CoverageHit[] {
+  const rawDir = join(dir, 'raw');
+  if (!existsSync(rawDir)) {
+    return [];
+  }
+  return readdirSync(rawDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .flatMap(entry => readdirSync(join(rawDir, entry.name)).map(file => join(rawDir, entry.name, file)))
+    .filter(file => file.endsWith('.jsonl'))
+    .flatMap(file => readFileSync(file, 'utf8').split('\n').filter(Boolean))
+    .map(line => JSON.parse(line) as CoverageHit);
+}
+
+function label(row: CoverageRow): string {
+  return `${row.method} ${row.path} (${row.endpoint})`;
+}
+
+/**
+ * One-line totals plus the operations no suite exercised
+ */
+export function formatCoverageSummary(matrix: CoverageMatrix): string {
+  const { operations, statuses } = matrix.summary;
+  const suites = matrix.suites.length > 0 ? matrix.suites.join(', ') : 'no suites';
+  const lines = [
+    `API coverage: ${operations.covered}/${operations.total} operations, ` +
+      `${statuses.covered}/${statuses.total} documented statuses (${suites}).`,
+  ];
+  const untested = matrix.rows.filter(row => row.total === 0);
+  if (untested.length > 0) {
+    lines.push(`Untested: ${untested.map(label).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function escape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Self-contained HTML page: operations × status codes, untested routes in red
+ */
+export function formatCoverageHtml(matrix: CoverageMatrix): string {
+  const statuses = [...new Set(matrix.rows.flatMap(row => row.cells.map(cell => cell.status)))].sort((a, b) => a - b);
+
+  const rows = matrix.rows.map(row => {
+    const cells = statuses.map(status => {
+      const cell = row.cells.find(candidate => candidate.status === status);
+      if (!cell) {
+        return '<td class="na"></td>';
+      }
+      const title = Object.entries(cell.hits)
+        .map(([suite, count]) => `${suite}: ${count}`)
+        .join('\n');
+      const kind = cell.total === 0 ? 'untested' : cell.documented ? 'covered' : 'undocumented';
+      return `<td class="${kind}" title="${escape(title || 'not exercised')}">${cell.total === 0 ? '–' : cell.total}</td>`;
+    });
+    return [
+      row.total === 0 ? '<tr class="untested-route">' : '<tr>',
+      `<td><code>${escape(row.endpoint)}</code></td>`,
+      `<td>${row.method}</td>`,
+      `<td><code>${escape(row.path)}</code></td>`,
+      ...cells,
+      `<td>${row.total}</td>`,
+      '</tr>',
+    ].join('');
+  });
+
+  const undocumented =
+    matrix.undocumented.length === 0
+      ? ''
+      : [
+          '<h2>Requests outside the operation catalog</h2>',
+          '<table><tr><th>Method</th><th>Path</th><th>Statuses</th><th>Requests</th></tr>',
+          ...matrix.undocumented.map(route => {
+            const counts = Object.entries(route.statuses)
+              .map(([status, count]) => `${status}×${count}`)
+              .join(', ');
+            return `<tr><td>${route.method}</td><td><code>${escape(route.path)}</code></td><td>${counts}</td><td>${route.total}</td></tr>`;
+          }),
+          '</table>',
+        ].join('\n');
+
+  const { operations, statuses: documented } = matrix.summary;
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>API Coverage</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; margin-bottom: 2rem; }
+  th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: center; }
+  td:nth-child(-n+3) { text-align: left; }
+  .covered { background: #d4f7d4; }
+  .untested { background: #ffe8b3; }
+  .undocumented { background: #d6e4ff; }
+  .na { background: #f4f4f4; }
+  .untested-route td { background: #ffd1d1; }
+</style>
+</head>
+<body>
+<h1>API Coverage</h1>
+<p>Generated ${matrix.generatedAt} from ${matrix.requests} requests (${escape(matrix.suites.join(', ') || 'no suites')}).
+${operations.covered}/${operations.total} operations and ${documented.covered}/${documented.total} documented statuses exercised.</p>
+<p>Cells count requests per status (hover for the per-suite split):
+<span class="covered">documented, exercised</span>
+<span class="untested">documented, not exercised</span>
+<span class="undocumented">seen, not documented</span>;
+red rows were not exercised at all.</p>
+<table>
+<tr><th>Endpoint</th><th>Method</th><th>Path</th>${statuses.map(status => `<th>${status}</th>`).join('')}<th>Total</th></tr>
+${rows.join('\n')}
+</table>
+${undocumented}
+</body>
+</html>
+`;
+}
+
+/**
+ * Merge the hits of every suite in `dir` into `coverage.json` and `coverage.html`
+ */
+export function writeCoverageReport(dir = coverageDirectory()): CoverageMatrix {
+  const matrix = buildCoverageMatrix(readCoverageHits(dir));
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'coverage.json'), `${JSON.stringify(matrix, null, 2)}\n`);
+  writeFileSync(join(dir, 'coverage.html'), formatCoverageHtml(matrix));
+  return matrix;
+}
+
+/**
+ * Called from global setup: pins the coverage directory and suite label for
+ * all workers and clears this suite's hits from a previous run (other suites'
+ * hits stay, so the report merges the latest run of each)
+ */
+export function startCoverageSession(suite: string): void {
+  const dir = resolve(coverageDirectory());
+  process.env.API_COVERAGE_DIR = dir;
+  process.env.API_COVERAGE_SUITE = suite;
+  rmSync(join(dir, 'raw', suite), { recursive: true, force: true });
+}
+
+/**
+ * Called from global teardown: rewrites the merged report and prints its summary
+ */
+export function finishCoverageSession(): CoverageMatrix {
+  const matrix = writeCoverageReport();
+  console.log(`\n${formatCoverageSummary(matrix)}\nCoverage matrix: ${join(coverageDirectory(), 'coverage.html')}`);
+  return matrix;
+}
@@ -0,0 +1,7 @@
+/**
+ * Per-persona auth sessions with cached tokens, refresh-before-expiry and 401 recovery
+ */
+export * from './personas';
+export * from './session';
+export * from './token';
+export * from './transport';
@@ -0,0 +1,11 @@
+import type { LoginRequest } from '@saucedemo/contracts';
+
+/**
+ * Known DummyJSON accounts used by the suites
+ */
+export const personas = {
+  emilys: { username: 'emilys', password: 'emilyspass' },
+  michaelw: { username: 'michaelw', password: 'michaelwpass' },
+} as const satisfies Record<string, LoginRequest>;
+
+export type PersonaName = keyof typeof personas;
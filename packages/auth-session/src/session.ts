@@ -0,0 +1,212 @@
+import {
+  endpoints,
+  loginResponseSchema,
+  refreshResponseSchema,
+  userSchema,
+  LoginRequest,
+  LoginResponse,
+  User,
+} from '@saucedemo/contracts';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { personas, PersonaName } from './personas';
+import { decodeTokenExpiry } from './token';
+import { AuthTransport, AuthTransportRequest } from './transport';
+
+export interface AuthSessionOptions {
+  /** Lifetime requested for access tokens (DummyJSON default: 60) */
+  expiresInMins?: number;
+  /** Refresh this long before the access token expires (default: 30s) */
+  refreshSkewMs?: number;
+}
+
+/**
+ * Thrown when login, refresh or /auth/me cannot be completed
+ */
+export class AuthSessionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: unknown
+  ) {
+    super(message);
+    this.name = 'AuthSessionError';
+  }
+}
+
+const DEFAULT_REFRESH_SKEW_MS = 30_000;
+
+/**
+ * Authenticated session for one set of credentials.
+ * Logs in lazily, caches both tokens and refreshes the access token
+ * shortly before it expires or after the API rejects it with 401.
+ */
+export class AuthSession {
+  private login?: LoginResponse;
+  private accessToken?: string;
+  private refreshToken?: string;
+  private expiresAt?: number;
+  private pending?: Promise<string>;
+
+  constructor(
+    private readonly transport: AuthTransport,
+    readonly credentials: LoginRequest,
+    private readonly options: AuthSessionOptions = {}
+  ) {}
+
+  /**
+   * Login response of the current session, if logged in
+   */
+  get profile(): LoginResponse | undefined {
+    return this.login;
+  }
+
+  /**
+   * A usable access token, logging in or refreshing as needed
+   */
+  async getAccessToken(): Promise<string> {
+    if (this.pending) {
+      return this.pending;
+    }
+    if (!this.accessToken) {
+      return this.track(this.doLogin());
+    }
+    if (this.isExpiring()) {
+      return this.track(this.doRefresh());
+    }
+    return this.accessToken;
+  }
+
+  /**
+   * Force a token refresh (falls back to a fresh login if the refresh token is rejected)
+   * @param rejectedToken - Token that just got a 401; skips the refresh if it was already replaced
+   */
+  async refresh(rejectedToken?: string): Promise<string> {
+    if (this.pending) {
+      return this.pending;
+    }
+    if (rejectedToken && this.accessToken && rejectedToken !== this.accessToken) {
+      return this.accessToken;
+    }
+    return this.track(this.refreshToken ? this.doRefresh() : this.doLogin());
+  }
+
+  /**
+   * GET /auth/me for the session user, retrying once after a 401
+   */
+  async me(): Promise<User> {
+    let token = await this.getAccessToken();
+    let response = await this.transport.send({ method: 'GET', path: endpoints.auth.me, token });
+
+    if (response.status === 401) {
+      token = await this.refresh(token);
+      response = await this.transport.send({ method: 'GET', path: endpoints.auth.me, token });
+    }
+
+    return this.validate(response, userSchema, 'GET /auth/me');
+  }
+
+  /**
+   * Forget all cached tokens; the next call logs in again
+   */
+  reset(): void {
+    this.login = undefined;
+    this.accessToken = undefined;
+    this.refreshToken = undefined;
+    this.expiresAt = undefined;
+  }
+
+  private isExpiring(): boolean {
+    const skew = this.options.refreshSkewMs ?? DEFAULT_REFRESH_SKEW_MS;
+    return this.expiresAt !== undefined && Date.now() + skew >= this.expiresAt;
+  }
+
+  private async track(operation: Promise<string>): Promise<string> {
+    this.pending = operation;
+    try {
+      return await operation;
+    } finally {
+      this.pending = undefined;
+    }
+  }
+
+  private store(accessToken: string, refreshToken: string): string {
+    this.accessToken = accessToken;
+    this.refreshToken = refreshToken;
+    this.expiresAt = decodeTokenExpiry(accessToken);
+    return accessToken;
+  }
+
+  private async doLogin(): Promise<string> {
+    const response = await this.transport.send({
+      method: 'POST',
+      path: endpoints.auth.login,
+      body: { ...this.credentials, expiresInMins: this.options.expiresInMins ?? this.credentials.expiresInMins },
+    });
+
+    this.login = this.validate(response, loginResponseSchema, `POST /auth/login as ${this.credentials.username}`);
+    return this.store(this.login.accessToken, this.login.refreshToken);
+  }
+
+  private async doRefresh(): Promise<string> {
+    const request: AuthTransportRequest = {
+      method: 'POST',
+      path: endpoints.auth.refresh,
+      body: { refreshToken: this.refreshToken, expiresInMins: this.options.expiresInMins },
+    };
+    const response = await this.transport.send(request);
+
+    if (response.status === 401 || response.status === 403) {
+      this.reset();
+      return this.doLogin();
+    }
+
+    const tokens = this.validate(response, refreshResponseSchema, 'POST /auth/refresh');
+    return this.store(tokens.accessToken, tokens.refreshToken);
+  }
+
+  private validate<T>(
+    response: { status: number; body: unknown },
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    label: string
+  ): T {
+    if (response.status < 200 || response.status >= 300) {
+      throw new AuthSessionError(`${label} failed with ${response.status}`, response.status, response.body);
+    }
+    return schema.parse(response.body);
+  }
+}
+
+/**
+ * Caches one AuthSession per persona so each worker logs in only once per identity
+ */
+export class SessionManager {
+  private readonly sessions = new Map<PersonaName, AuthSession>();
+
+  constructor(
+    private readonly transport: AuthTransport,
+    private readonly options: AuthSessionOptions = {}
+  ) {}
+
+  session(persona: PersonaName): AuthSession {
+    let session = this.sessions.get(persona);
+    if (!session) {
+      session = new AuthSession(this.transport, personas[persona], this.options);
+      this.sessions.set(persona, session);
+    }
+    return session;
+  }
+
+  /**
+   * Forget the tokens of every cached session; each logs in again on next use
+   */
+  reset(): void {
+    this.sessions.forEach(session => session.reset());
+  }
+
+  /**
+   * Drop all cached sessions
+   */
+  clear(): void {
+    this.sessions.clear();
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Read the `exp` claim of a JWT without verifying it
+ * @returns Expiry as epoch milliseconds, or undefined when absent/unreadable
+ */
+export function decodeTokenExpiry(token: string): number | undefined {
+  const payload = token.split('.')[1];
+  if (!payload) {
+    return undefined;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
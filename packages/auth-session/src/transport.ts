@@ -0,0 +1,22 @@
+/**
+ * Minimal request shape the session needs from an HTTP client
+ */
+export interface AuthTransportRequest {
+  method: 'GET' | 'POST';
+  path: string;
+  body?: unknown;
+  token?: string;
+}
+
+export interface AuthTransportResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Adapter over a suite's HTTP client (APIRequestContext or Axios).
+ * Must resolve for every status code rather than throwing on 4xx/5xx.
+ */
+export interface AuthTransport {
+  send(request: AuthTransportRequest): Promise<AuthTransportResponse>;
+}
@@ -0,0 +1,97 @@
+import { z, ZodTypeAny } from 'zod';
+
+export type DriftKind = 'unknown-field' | 'missing-optional';
+
+/**
+ * A field the schema does not describe, or an optional field the response omitted.
+ * Array items share one path (`products[].brand`) so findings aggregate across items.
+ */
+export interface DriftFinding {
+  kind: DriftKind;
+  path: string;
+  /** Distinct values seen for unknown fields (at most MAX_SAMPLES) */
+  samples: unknown[];
+}
+
+const MAX_SAMPLES = 3;
+const MAX_SAMPLE_LENGTH = 80;
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Values are kept as-is unless their JSON is long, then they become a truncated string
+ */
+function sampleOf(value: unknown): unknown {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_SAMPLE_LENGTH ? `${text.slice(0, MAX_SAMPLE_LENGTH - 3)}...` : value;
+}
+
+function walk(schema: ZodTypeAny, value: unknown, path: string, report: (kind: DriftKind, path: string, value?: unknown) => void): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable || schema instanceof z.ZodDefault) {
+    return walk(schema._def.innerType, value, path, report);
+  }
+  if (schema instanceof z.ZodEffects) {
+    return walk(schema.innerType(), value, path, report);
+  }
+  if (schema instanceof z.ZodArray) {
+    if (Array.isArray(value)) {
+      value.forEach(item => walk(schema.element, item, `${path}[]`, report));
+    }
+    return;
+  }
+  if (schema instanceof z.ZodUnion) {
+    const match = (schema.options as ZodTypeAny[]).find(option => option.safeParse(value).success);
+    return match ? walk(match, value, path, report) : undefined;
+  }
+  if (!(schema instanceof z.ZodObject) || typeof value !== 'object' || Array.isArray(value)) {
+    return;
+  }
+
+  const shape: Record<string, ZodTypeAny> = schema.shape;
+  const record = value as Record<string, unknown>;
+
+  for (const key of Object.keys(record)) {
+    if (!(key in shape)) {
+      report('unknown-field', join(path, key), record[key]);
+    }
+  }
+  for (const [key, field] of Object.entries(shape)) {
+    if (record[key] === undefined) {
+      if (field.isOptional()) {
+        report('missing-optional', join(path, key));
+      }
+    } else {
+      walk(field, record[key], join(path, key), report);
+    }
+  }
+}
+
+/**
+ * Compare a response body with the (non-strict) schema it already passed and
+ * list the fields the schema would silently accept or tolerate missing
+ */
+export function detectDrift(schema: ZodTypeAny, body: unknown): DriftFinding[] {
+  const findings = new Map<string, DriftFinding>();
+
+  walk(schema, body, '', (kind, path, value) => {
+    const key = `${kind} ${path}`;
+    let finding = findings.get(key);
+    if (!finding) {
+      finding = { kind, path, samples: [] };
+      findings.set(key, finding);
+    }
+    if (kind === 'unknown-field' && finding.samples.length < MAX_SAMPLES) {
+      const sample = sampleOf(value);
+      if (!finding.samples.some(existing => JSON.stringify(existing) === JSON.stringify(sample))) {
+        finding.samples.push(sample);
+      }
+    }
+  });
+
+  return [...findings.values()];
+}
@@ -0,0 +1,7 @@
+/**
+ * Opt-in contract drift detection (CONTRACT_DRIFT=1): flags unknown and
+ * missing-optional response fields and aggregates them into a run report
+ */
+export * from './detect';
+export * from './recorder';
+export * from './report';
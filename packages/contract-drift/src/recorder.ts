@@ -0,0 +1,63 @@
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { threadId } from 'node:worker_threads';
+import type { ZodTypeAny } from 'zod';
+import { findOperation } from '@saucedemo/contracts';
+import { detectDrift, DriftFinding } from './detect';
+
+/**
+ * One validated response, as appended to the raw drift log
+ */
+export interface DriftRecord {
+  /** `GET /products/{id}`, or the raw path when no operation matches */
+  endpoint: string;
+  findings: DriftFinding[];
+}
+
+export interface RecordDriftOptions {
+  method?: string;
+  url: string;
+  schema: ZodTypeAny;
+  body: unknown;
+}
+
+export const DEFAULT_DRIFT_DIR = 'drift-report';
+
+/**
+ * Drift mode is opt-in: CONTRACT_DRIFT=1 (or true)
+ */
+export function isDriftModeEnabled(): boolean {
+  return ['1', 'true'].includes((process.env.CONTRACT_DRIFT ?? '').toLowerCase());
+}
+
+export function driftDirectory(): string {
+  return process.env.CONTRACT_DRIFT_DIR ?? DEFAULT_DRIFT_DIR;
+}
+
+/**
+ * Label a request by its documented operation so `/products/1` and
+ * `/products/2` aggregate under `GET /products/{id}`
+ */
+export function endpointLabel(method: string | undefined, url: string): string {
+  const path = new URL(url, 'http://localhost').pathname;
+  const verb = (method ?? 'GET').toUpperCase();
+  const operation = findOperation(verb, path);
+  return `${verb} ${operation?.path ?? path}`;
+}
+
+/**
+ * Check a response body that passed its schema for drift and append the
+ * result to this worker's log. A no-op unless drift mode is enabled.
+ */
+export function recordDrift({ method, url, schema, body }: RecordDriftOptions): void {
+  if (!isDriftModeEnabled()) {
+    return;
+  }
+
+  const record: DriftRecord = { endpoint: endpointLabel(method, url), findings: detectDrift(schema, body) };
+  const dir = join(driftDirectory(), 'raw');
+
+  // One file per process and thread keeps concurrent workers from interleaving lines
+  mkdirSync(dir, { recursive: true });
+  appendFileSync(join(dir, `drift-${process.pid}-${threadId}.jsonl`), `${JSON.stringify(record)}\n`);
+}
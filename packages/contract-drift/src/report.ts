@@ -0,0 +1,131 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { DriftKind } from './detect';
+import { driftDirectory, isDriftModeEnabled, DriftRecord } from './recorder';
+
+/**
+ * One field that drifted on one endpoint, across the whole run
+ */
+export interface DriftReportEntry {
+  endpoint: string;
+  kind: DriftKind;
+  path: string;
+  /** Responses in which the drift was seen */
+  occurrences: number;
+  /** Responses checked for this endpoint */
+  responses: number;
+  samples: unknown[];
+}
+
+export interface DriftReport {
+  generatedAt: string;
+  responsesChecked: number;
+  entries: DriftReportEntry[];
+}
+
+const MAX_SAMPLES = 3;
+
+function readRecords(rawDir: string): DriftRecord[] {
+  if (!existsSync(rawDir)) {
+    return [];
+  }
+  return readdirSync(rawDir)
+    .filter(file => file.endsWith('.jsonl'))
+    .flatMap(file => readFileSync(join(rawDir, file), 'utf8').split('\n').filter(Boolean))
+    .map(line => JSON.parse(line) as DriftRecord);
+}
+
+/**
+ * Merge per-response records into one entry per endpoint, kind and field path
+ */
+export function aggregateDrift(records: DriftRecord[]): DriftReport {
+  const responses = new Map<string, number>();
+  const entries = new Map<string, DriftReportEntry>();
+
+  for (const record of records) {
+    responses.set(record.endpoint, (responses.get(record.endpoint) ?? 0) + 1);
+
+    for (const finding of record.findings) {
+      const key = `${record.endpoint} ${finding.kind} ${finding.path}`;
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { endpoint: record.endpoint, kind: finding.kind, path: finding.path, occurrences: 0, responses: 0, samples: [] };
+        entries.set(key, entry);
+      }
+      entry.occurrences += 1;
+      for (const sample of finding.samples) {
+        if (entry.samples.length < MAX_SAMPLES && !entry.samples.some(seen => JSON.stringify(seen) === JSON.stringify(sample))) {
+          entry.samples.push(sample);
+        }
+      }
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    responsesChecked: records.length,
+    entries: [...entries.values()]
+      .map(entry => ({ ...entry, responses: responses.get(entry.endpoint) ?? 0 }))
+      .sort((a, b) => a.endpoint.localeCompare(b.endpoint) || a.kind.localeCompare(b.kind) || a.path.localeCompare(b.path)),
+  };
+}
+
+/**
+ * Markdown table of a drift report
+ */
+export function formatDriftReport(report: DriftReport): string {
+  const lines = [
+    '# Contract Drift Report',
+    '',
+    `Generated ${report.generatedAt} from ${report.responsesChecked} validated responses.`,
+    '',
+  ];
+
+  if (report.entries.length === 0) {
+    return [...lines, 'No drift detected.', ''].join('\n');
+  }
+
+  lines.push('| Endpoint | Drift | Field | Seen | Samples |', '|----------|-------|-------|------|---------|');
+  for (const entry of report.entries) {
+    const samples = entry.samples.map(sample => `\`${JSON.stringify(sample).replace(/\|/g, '\\|')}\``).join(', ');
+    lines.push(`| \`${entry.endpoint}\` | ${entry.kind} | \`${entry.path}\` | ${entry.occurrences}/${entry.responses} | ${samples} |`);
+  }
+  return [...lines, ''].join('\n');
+}
+
+/**
+ * Called from global setup: pins the drift directory for all workers
+ * and clears records left by a previous run
+ */
+export function startDriftSession(): void {
+  if (!isDriftModeEnabled()) {
+    return;
+  }
+  const dir = resolve(driftDirectory());
+  process.env.CONTRACT_DRIFT_DIR = dir;
+  rmSync(join(dir, 'raw'), { recursive: true, force: true });
+}
+
+/**
+ * Called from global teardown: writes `report.json` and `report.md` into the
+ * drift directory. Drift never fails the run.
+ */
+export function finishDriftSession(): DriftReport | undefined {
+  if (!isDriftModeEnabled()) {
+    return undefined;
+  }
+
+  const dir = driftDirectory();
+  const report = aggregateDrift(readRecords(join(dir, 'raw')));
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+  writeFileSync(join(dir, 'report.md'), formatDriftReport(report));
+
+  const endpoints = new Set(report.entries.map(entry => entry.endpoint)).size;
+  console.log(
+    `Contract drift: ${report.entries.length} finding(s) on ${endpoints} endpoint(s) ` +
+      `from ${report.responsesChecked} responses - see ${join(dir, 'report.md')}`
+  );
+  return report;
+}
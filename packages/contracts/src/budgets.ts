@@ -0,0 +1,44 @@
+/**
+ * Latency budget of one operation, in milliseconds. A run breaches it when
+ * the measured percentile (or slowest request) exceeds the value.
+ */
+export interface LatencyBudget {
+  p50?: number;
+  p95?: number;
+  max?: number;
+}
+
+/**
+ * Budgets per operation id (see `operations`), sized for dummyjson.com from CI.
+ * Every documented operation has one; routes outside the catalog have none.
+ */
+export const latencyBudgets: Record<string, LatencyBudget> = {
+  // Authentication (login and refresh sign tokens, so they get more headroom)
+  login: { p95: 1500 },
+  getCurrentUser: { p95: 800 },
+  refreshSession: { p95: 1500 },
+
+  // Products
+  listProducts: { p95: 800 },
+  searchProducts: { p95: 800 },
+  listCategories: { p95: 600 },
+  listProductsByCategory: { p95: 800 },
+  getProduct: { p50: 300, p95: 600 },
+
+  // Carts
+  listCarts: { p95: 800 },
+  listUserCarts: { p95: 800 },
+  addCart: { p95: 1000 },
+  getCart: { p95: 600 },
+  updateCart: { p95: 1000 },
+  deleteCart: { p95: 1000 },
+
+  // Users
+  listUsers: { p95: 800 },
+  searchUsers: { p95: 800 },
+  filterUsers: { p95: 800 },
+  addUser: { p95: 1000 },
+  getUser: { p95: 600 },
+  updateUser: { p95: 1000 },
+  deleteUser: { p95: 1000 },
+};
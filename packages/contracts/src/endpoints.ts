@@ -36,5 +36,8 @@ export const endpoints = {
     single: (id: number) => `/users/${id}`,
     search: '/users/search',
     filter: '/users/filter',
+    add: '/users/add',
+    update: (id: number) => `/users/${id}`,
+    delete: (id: number) => `/users/${id}`,
   },
 } as const;
@@ -0,0 +1,11 @@
+/**
+ * Shared API contract for both suites: endpoint catalog, Zod schemas and inferred types,
+ * plus the operation catalog, per-operation latency budgets and the OpenAPI document generated from them
+ */
+export * from './budgets';
+export * from './endpoints';
+export * from './json-schema';
+export * from './openapi';
+export * from './operations';
+export * from './query';
+export * from './schemas';
@@ -0,0 +1,76 @@
+import { z, ZodTypeAny } from 'zod';
+
+/**
+ * JSON Schema (2020-12 dialect, as used by OpenAPI 3.1)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Convert a Zod schema to JSON Schema.
+ * Schemas found in `refs` are emitted as `$ref`s to `#/components/schemas/<name>`
+ * instead of being inlined, except at the top level.
+ * Covers the Zod types used by the contract; anything else throws so a new
+ * construct cannot silently produce an empty schema.
+ */
+export function toJsonSchema(schema: ZodTypeAny, refs: Map<ZodTypeAny, string> = new Map()): JsonSchema {
+  return convert(schema, refs, true);
+}
+
+function convert(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>, root = false): JsonSchema {
+  const ref = refs.get(schema);
+  if (ref && !root) {
+    return { $ref: `#/components/schemas/${ref}` };
+  }
+
+  const description = schema.description ? { description: schema.description } : {};
+
+  if (schema instanceof z.ZodObject) {
+    const shape: Record<string, ZodTypeAny> = schema.shape;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    return {
+      type: 'object',
+      ...description,
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, convert(value, refs)])),
+      ...(required.length > 0 ? { required } : {}),
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', ...description, items: convert(schema.element, refs) };
+  }
+  if (schema instanceof z.ZodString) {
+    const format = schema.isEmail ? 'email' : schema.isURL ? 'uri' : schema.isDatetime ? 'date-time' : undefined;
+    return { type: 'string', ...description, ...(format ? { format } : {}) };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number', ...description };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean', ...description };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value, ...description };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options, ...description };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as ZodTypeAny[]).map(option => convert(option, refs)), ...description };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: convert(schema.valueSchema, refs), ...description };
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return { ...convert(schema._def.innerType, refs), ...description };
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [convert(schema.unwrap(), refs), { type: 'null' }], ...description };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return { ...convert(schema.innerType(), refs), ...description };
+  }
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    return { ...description };
+  }
+
+  throw new Error(`Cannot convert ${schema._def.typeName} to JSON Schema`);
+}
@@ -0,0 +1,116 @@
+import type { ZodTypeAny } from 'zod';
+import { toJsonSchema, JsonSchema } from './json-schema';
+import { operations as defaultOperations, ApiOperation } from './operations';
+import * as schemas from './schemas';
+
+export interface OpenApiOptions {
+  /** Server the document points at (default: https://dummyjson.com) */
+  serverUrl?: string;
+  /** `info.version` of the document */
+  version?: string;
+  /** Operations to document (default: every operation in the catalog) */
+  operations?: ApiOperation[];
+}
+
+export type OpenApiDocument = Record<string, unknown> & {
+  openapi: string;
+  paths: Record<string, Record<string, Record<string, unknown>>>;
+  components: { schemas: Record<string, JsonSchema> } & Record<string, unknown>;
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+};
+
+/**
+ * Every exported `xxxSchema` becomes component `Xxx` (`cartListSchema` -> `CartList`)
+ */
+function namedSchemas(): Map<ZodTypeAny, string> {
+  const named = new Map<ZodTypeAny, string>();
+  for (const [exportName, value] of Object.entries(schemas)) {
+    if (exportName.endsWith('Schema')) {
+      const name = exportName.slice(0, -'Schema'.length);
+      named.set(value as ZodTypeAny, name[0].toUpperCase() + name.slice(1));
+    }
+  }
+  return named;
+}
+
+function jsonContent(schema: ZodTypeAny, refs: Map<ZodTypeAny, string>) {
+  const ref = refs.get(schema);
+  return {
+    'application/json': { schema: ref ? { $ref: `#/components/schemas/${ref}` } : toJsonSchema(schema, refs) },
+  };
+}
+
+function parameters(operation: ApiOperation, refs: Map<ZodTypeAny, string>): Record<string, unknown>[] {
+  const pathParams = [...operation.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: /id$/i.test(name) ? 'integer' : 'string' },
+  }));
+
+  const shape: Record<string, ZodTypeAny> = operation.query?.shape ?? {};
+  const queryParams = Object.entries(shape).map(([name, field]) => {
+    const { description, ...schema } = toJsonSchema(field, refs);
+    return { name, in: 'query', required: !field.isOptional(), ...(description ? { description } : {}), schema };
+  });
+
+  return [...pathParams, ...queryParams];
+}
+
+function toOperationObject(operation: ApiOperation, refs: Map<ZodTypeAny, string>): Record<string, unknown> {
+  const params = parameters(operation, refs);
+  return {
+    operationId: operation.id,
+    summary: operation.summary,
+    tags: [operation.tag],
+    ...(operation.authenticated ? { security: [{ bearerAuth: [] }] } : {}),
+    ...(params.length > 0 ? { parameters: params } : {}),
+    ...(operation.body ? { requestBody: { required: true, content: jsonContent(operation.body, refs) } } : {}),
+    responses: Object.fromEntries(
+      Object.entries(operation.responses).map(([status, schema]) => [
+        status,
+        { description: STATUS_TEXT[Number(status)] ?? `Status ${status}`, content: jsonContent(schema, refs) },
+      ])
+    ),
+  };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from the operation catalog and Zod schemas
+ */
+export function buildOpenApiDocument(options: OpenApiOptions = {}): OpenApiDocument {
+  const refs = namedSchemas();
+  const catalog = options.operations ?? defaultOperations;
+
+  const paths: OpenApiDocument['paths'] = {};
+  for (const operation of catalog) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method.toLowerCase()] = toOperationObject(operation, refs);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'DummyJSON API',
+      version: options.version ?? '1.0.0',
+      description: 'Generated from @saucedemo/contracts - do not edit by hand.',
+    },
+    servers: [{ url: options.serverUrl ?? 'https://dummyjson.com' }],
+    tags: [...new Set(catalog.map(operation => operation.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries([...refs].map(([schema, name]) => [name, toJsonSchema(schema, refs)])),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+}
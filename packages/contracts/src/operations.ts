@@ -0,0 +1,286 @@
+import { z, ZodTypeAny } from 'zod';
+import { endpoints } from './endpoints';
+import {
+  addedUserSchema,
+  addToCartRequestSchema,
+  addUserRequestSchema,
+  cartListSchema,
+  cartSchema,
+  categoryListSchema,
+  deletedCartSchema,
+  deletedUserSchema,
+  errorResponseSchema,
+  loginRequestSchema,
+  loginResponseSchema,
+  productListSchema,
+  productSchema,
+  refreshRequestSchema,
+  refreshResponseSchema,
+  updateCartRequestSchema,
+  updateUserRequestSchema,
+  userListSchema,
+  userSchema,
+} from './schemas';
+
+export type OperationMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * One documented API operation: where it lives and what it accepts and returns
+ */
+export interface ApiOperation {
+  /** Stable identifier, e.g. `getProduct` */
+  id: string;
+  method: OperationMethod;
+  /** Path template with `{param}` placeholders, e.g. `/products/{id}` */
+  path: string;
+  tag: 'auth' | 'products' | 'carts' | 'users';
+  summary: string;
+  /** Requires `Authorization: Bearer <accessToken>` */
+  authenticated?: boolean;
+  /** Query string parameters */
+  query?: z.AnyZodObject;
+  /** JSON request body */
+  body?: ZodTypeAny;
+  /** Response body schema per status code */
+  responses: Record<number, ZodTypeAny>;
+}
+
+/**
+ * Render a parameterized endpoint from `endpoints` as a path template
+ */
+function template<P extends unknown[]>(endpoint: (...args: P) => string, ...params: string[]): string {
+  return endpoint(...(params.map(param => `{${param}}`) as P));
+}
+
+const listParams = z.object({
+  limit: z.number().int().optional().describe('Page size (default 30, 0 returns every item)'),
+  skip: z.number().int().optional().describe('Number of items to skip'),
+  select: z.string().optional().describe('Comma-separated fields to return'),
+  sortBy: z.string().optional().describe('Field to sort by'),
+  order: z.enum(['asc', 'desc']).optional(),
+});
+
+const searchParams = listParams.extend({
+  q: z.string().describe('Search term'),
+});
+
+const filterParams = listParams.extend({
+  key: z.string().describe('Field to match; nested fields use dot notation (hair.color)'),
+  value: z.string().describe('Value to match'),
+});
+
+/**
+ * Every operation of the DummyJSON API covered by the suites.
+ * Paths come from `endpoints`, bodies from the Zod schemas.
+ */
+export const operations: ApiOperation[] = [
+  // Authentication
+  {
+    id: 'login',
+    method: 'POST',
+    path: endpoints.auth.login,
+    tag: 'auth',
+    summary: 'Log in and receive access and refresh tokens',
+    body: loginRequestSchema,
+    responses: { 200: loginResponseSchema, 400: errorResponseSchema },
+  },
+  {
+    id: 'getCurrentUser',
+    method: 'GET',
+    path: endpoints.auth.me,
+    tag: 'auth',
+    summary: 'Get the user behind the access token',
+    authenticated: true,
+    responses: { 200: userSchema, 401: errorResponseSchema },
+  },
+  {
+    id: 'refreshSession',
+    method: 'POST',
+    path: endpoints.auth.refresh,
+    tag: 'auth',
+    summary: 'Exchange a refresh token for new tokens',
+    body: refreshRequestSchema,
+    responses: { 200: refreshResponseSchema, 401: errorResponseSchema, 403: errorResponseSchema },
+  },
+
+  // Products
+  {
+    id: 'listProducts',
+    method: 'GET',
+    path: endpoints.products.base,
+    tag: 'products',
+    summary: 'List products',
+    query: listParams,
+    responses: { 200: productListSchema, 400: errorResponseSchema },
+  },
+  {
+    id: 'searchProducts',
+    method: 'GET',
+    path: endpoints.products.search,
+    tag: 'products',
+    summary: 'Search products by title and description',
+    query: searchParams,
+    responses: { 200: productListSchema },
+  },
+  {
+    id: 'listCategories',
+    method: 'GET',
+    path: endpoints.products.categories,
+    tag: 'products',
+    summary: 'List product categories',
+    responses: { 200: categoryListSchema },
+  },
+  {
+    id: 'listProductsByCategory',
+    method: 'GET',
+    path: template(endpoints.products.category, 'category'),
+    tag: 'products',
+    summary: 'List products in a category',
+    query: listParams,
+    responses: { 200: productListSchema },
+  },
+  {
+    id: 'getProduct',
+    method: 'GET',
+    path: template(endpoints.products.single, 'id'),
+    tag: 'products',
+    summary: 'Get a product',
+    responses: { 200: productSchema, 404: errorResponseSchema },
+  },
+
+  // Carts
+  {
+    id: 'listCarts',
+    method: 'GET',
+    path: endpoints.carts.base,
+    tag: 'carts',
+    summary: 'List carts',
+    query: listParams,
+    responses: { 200: cartListSchema },
+  },
+  {
+    id: 'listUserCarts',
+    method: 'GET',
+    path: template(endpoints.carts.user, 'userId'),
+    tag: 'carts',
+    summary: 'List the carts of a user',
+    responses: { 200: cartListSchema, 404: errorResponseSchema },
+  },
+  {
+    id: 'addCart',
+    method: 'POST',
+    path: endpoints.carts.add,
+    tag: 'carts',
+    summary: 'Create a cart (simulated)',
+    body: addToCartRequestSchema,
+    responses: { 201: cartSchema, 400: errorResponseSchema, 404: errorResponseSchema },
+  },
+  {
+    id: 'getCart',
+    method: 'GET',
+    path: template(endpoints.carts.single, 'id'),
+    tag: 'carts',
+    summary: 'Get a cart',
+    responses: { 200: cartSchema, 404: errorResponseSchema },
+  },
+  {
+    id: 'updateCart',
+    method: 'PUT',
+    path: template(endpoints.carts.update, 'id'),
+    tag: 'carts',
+    summary: 'Replace or merge the products of a cart (simulated)',
+    body: updateCartRequestSchema,
+    responses: { 200: cartSchema, 400: errorResponseSchema, 404: errorResponseSchema },
+  },
+  {
+    id: 'deleteCart',
+    method: 'DELETE',
+    path: template(endpoints.carts.delete, 'id'),
+    tag: 'carts',
+    summary: 'Delete a cart (simulated)',
+    responses: { 200: deletedCartSchema, 404: errorResponseSchema },
+  },
+
+  // Users
+  {
+    id: 'listUsers',
+    method: 'GET',
+    path: endpoints.users.base,
+    tag: 'users',
+    summary: 'List users',
+    query: listParams,
+    responses: { 200: userListSchema, 400: errorResponseSchema },
+  },
+  {
+    id: 'searchUsers',
+    method: 'GET',
+    path: endpoints.users.search,
+    tag: 'users',
+    summary: 'Search users by name, username and email',
+    query: searchParams,
+    responses: { 200: userListSchema },
+  },
+  {
+    id: 'filterUsers',
+    method: 'GET',
+    path: endpoints.users.filter,
+    tag: 'users',
+    summary: 'Filter users by a key/value pair',
+    query: filterParams,
+    responses: { 200: userListSchema, 400: errorResponseSchema },
+  },
+  {
+    id: 'addUser',
+    method: 'POST',
+    path: endpoints.users.add,
+    tag: 'users',
+    summary: 'Create a user (simulated)',
+    body: addUserRequestSchema,
+    responses: { 201: addedUserSchema, 400: errorResponseSchema },
+  },
+  {
+    id: 'getUser',
+    method: 'GET',
+    path: template(endpoints.users.single, 'id'),
+    tag: 'users',
+    summary: 'Get a user',
+    responses: { 200: userSchema, 404: errorResponseSchema },
+  },
+  {
+    id: 'updateUser',
+    method: 'PUT',
+    path: template(endpoints.users.update, 'id'),
+    tag: 'users',
+    summary: 'Update a user (simulated)',
+    body: updateUserRequestSchema,
+    responses: { 200: userSchema, 404: errorResponseSchema },
+  },
+  {
+    id: 'deleteUser',
+    method: 'DELETE',
+    path: template(endpoints.users.delete, 'id'),
+    tag: 'users',
+    summary: 'Delete a user (simulated)',
+    responses: { 200: deletedUserSchema, 404: errorResponseSchema },
+  },
+];
+
+function pathPattern(template: string): RegExp {
+  const source = template
+    .split(/\{\w+\}/)
+    .map(part => part.replace(/[.*+?^$()|[\]\\]/g, '\\$&'))
+    .join('[^/]+');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Operation serving a concrete request, e.g. `GET /products/1` -> `getProduct`.
+ * Literal paths win over templates, so `/products/search` is not `/products/{id}`.
+ */
+export function findOperation(method: string, path: string): ApiOperation | undefined {
+  const pathname = path.split('?')[0];
+  const candidates = operations.filter(
+    operation => operation.method === method.toUpperCase() && pathPattern(operation.path).test(pathname)
+  );
+  return candidates.sort((a, b) => a.path.split('{').length - b.path.split('{').length)[0];
+}
@@ -0,0 +1,61 @@
+/**
+ * Query parameters shared by every DummyJSON list endpoint
+ */
+export interface ListQuery {
+  limit?: number;
+  skip?: number;
+  select?: string[];
+  sortBy?: string;
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Convert a ListQuery (plus any extra params) into a flat params object,
+ * dropping undefined values so both HTTP clients serialize it the same way
+ */
+export function toQueryParams(
+  query: ListQuery = {},
+  extra: Record<string, string | number | undefined> = {}
+): Record<string, string | number> {
+  const params: Record<string, string | number | undefined> = {
+    ...extra,
+    limit: query.limit,
+    skip: query.skip,
+    select: query.select?.join(','),
+    sortBy: query.sortBy,
+    order: query.order,
+  };
+
+  return Object.fromEntries(
+    Object.entries(params).filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+  );
+}
+
+/**
+ * Dotted paths to the scalar fields of T, e.g. `age` or `hair.color`
+ */
+export type FieldPath<T> = {
+  [K in keyof T & string]: NonNullable<T[K]> extends unknown[]
+    ? never
+    : NonNullable<T[K]> extends object
+      ? `${K}.${FieldPath<NonNullable<T[K]>>}`
+      : K;
+}[keyof T & string];
+
+/**
+ * Params for a `/search?q=` endpoint
+ */
+export function searchQuery(term: string, query?: ListQuery): Record<string, string | number> {
+  return toQueryParams(query, { q: term });
+}
+
+/**
+ * Params for a `/filter?key=&value=` endpoint; nested keys use dot notation (`hair.color`)
+ */
+export function filterQuery<T>(
+  key: FieldPath<T>,
+  value: string | number | boolean,
+  query?: ListQuery
+): Record<string, string | number> {
+  return toQueryParams(query, { key, value: String(value) });
+}
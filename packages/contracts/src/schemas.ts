@@ -24,6 +24,22 @@ export const loginResponseSchema = z.object({
   refreshToken: z.string(),
 });
 
+/**
+ * Refresh Token Request Schema
+ */
+export const refreshRequestSchema = z.object({
+  refreshToken: z.string(),
+  expiresInMins: z.number().optional(),
+});
+
+/**
+ * Refresh Token Response Schema
+ */
+export const refreshResponseSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string(),
+});
+
 /**
  * Product Schema
  */
@@ -51,6 +67,20 @@ export const productListSchema = z.object({
   limit: z.number(),
 });
 
+/**
+ * Product Category Schema
+ */
+export const categorySchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  url: z.string().url(),
+});
+
+/**
+ * Product Category List Response Schema
+ */
+export const categoryListSchema = z.array(categorySchema);
+
 /**
  * Cart Product Schema
  */
@@ -102,6 +132,21 @@ export const addToCartRequestSchema = z.object({
   ),
 });
 
+/**
+ * Update Cart Request Schema
+ */
+export const updateCartRequestSchema = addToCartRequestSchema.omit({ userId: true }).extend({
+  merge: z.boolean().optional(),
+});
+
+/**
+ * Deleted Cart Response Schema
+ */
+export const deletedCartSchema = cartSchema.extend({
+  isDeleted: z.literal(true),
+  deletedOn: z.string(),
+});
+
 /**
  * User Schema
  */
@@ -127,6 +172,44 @@ export const userSchema = z.object({
   }).optional(),
 });
 
+/**
+ * User List Response Schema
+ */
+export const userListSchema = z.object({
+  users: z.array(userSchema),
+  total: z.number(),
+  skip: z.number(),
+  limit: z.number(),
+});
+
+/**
+ * Add User Request Schema
+ */
+export const addUserRequestSchema = userSchema.omit({ id: true }).partial().required({
+  firstName: true,
+  lastName: true,
+});
+
+/**
+ * Update User Request Schema
+ */
+export const updateUserRequestSchema = userSchema.omit({ id: true }).partial();
+
+/**
+ * Added User Response Schema (DummyJSON echoes the request with a new id)
+ */
+export const addedUserSchema = addUserRequestSchema.extend({
+  id: z.number(),
+});
+
+/**
+ * Deleted User Response Schema
+ */
+export const deletedUserSchema = userSchema.extend({
+  isDeleted: z.literal(true),
+  deletedOn: z.string(),
+});
+
 /**
  * Error Response Schema
  */
@@ -137,10 +220,20 @@ export const errorResponseSchema = z.object({
 // Type exports
 export type LoginRequest = z.infer<typeof loginRequestSchema>;
 export type LoginResponse = z.infer<typeof loginResponseSchema>;
+export type RefreshRequest = z.infer<typeof refreshRequestSchema>;
+export type RefreshResponse = z.infer<typeof refreshResponseSchema>;
 export type Product = z.infer<typeof productSchema>;
 export type ProductList = z.infer<typeof productListSchema>;
+export type Category = z.infer<typeof categorySchema>;
 export type Cart = z.infer<typeof cartSchema>;
 export type CartList = z.infer<typeof cartListSchema>;
 export type AddToCartRequest = z.infer<typeof addToCartRequestSchema>;
+export type UpdateCartRequest = z.infer<typeof updateCartRequestSchema>;
+export type DeletedCart = z.infer<typeof deletedCartSchema>;
 export type User = z.infer<typeof userSchema>;
+export type UserList = z.infer<typeof userListSchema>;
+export type AddUserRequest = z.infer<typeof addUserRequestSchema>;
+export type UpdateUserRequest = z.infer<typeof updateUserRequestSchema>;
+export type AddedUser = z.infer<typeof addedUserSchema>;
+export type DeletedUser = z.infer<typeof deletedUserSchema>;
 export type ErrorResponse = z.infer<typeof errorResponseSchema>;
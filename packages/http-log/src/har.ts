@@ -0,0 +1,201 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { STATUS_CODES } from 'node:http';
+import { dirname, join, resolve } from 'node:path';
+import type { HttpExchange, HttpMessage } from './log';
+
+/**
+ * Subset of HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/) written by HarBuilder
+ */
+export interface Har {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+export interface HarPage {
+  startedDateTime: string;
+  id: string;
+  title: string;
+  pageTimings: { onContentLoad: number; onLoad: number };
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+  /** Network or client error of a request that got no response (status 0) */
+  _error?: string;
+}
+
+/**
+ * HAR_MODE: `failed` (default) writes one HAR per failed test, `file` one per
+ * test file with a page per test, `off` none
+ */
+export type HarMode = 'failed' | 'file' | 'off';
+
+export const DEFAULT_HAR_DIR = 'har';
+
+export function harMode(): HarMode {
+  const mode = process.env.HAR_MODE;
+  return mode === 'file' || mode === 'off' ? mode : 'failed';
+}
+
+/**
+ * HAR output directory: HAR_DIR resolved against the working directory
+ */
+export function harDirectory(): string {
+  return resolve(process.env.HAR_DIR || DEFAULT_HAR_DIR);
+}
+
+/**
+ * `<dir>/<file>.har` for a whole spec file, `<dir>/<file>/<describe...>/<test>.har` for one test
+ * @param titlePath - Spec file followed by describe and test titles
+ */
+export function harPath(titlePath: string[], dir = harDirectory()): string {
+  const [file, ...titles] = titlePath.map(part => part.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, ''));
+  const name = titles.pop();
+  return name ? join(dir, file, ...titles, `${name}.har`) : join(dir, `${file}.har`);
+}
+
+function nameValues(record: Record<string, string>): HarNameValue[] {
+  return Object.entries(record).map(([name, value]) => ({ name, value }));
+}
+
+function textOf(body: unknown): string | undefined {
+  return body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+function mimeTypeOf(message: HttpMessage | undefined): string {
+  return message?.headers['content-type'] ?? (typeof message?.body === 'object' ? 'application/json' : 'text/plain');
+}
+
+function toEntry(exchange: HttpExchange, pageref?: string): HarEntry {
+  const requestText = textOf(exchange.request.body);
+  const responseText = textOf(exchange.response?.body);
+  const responseSize = responseText === undefined ? 0 : Buffer.byteLength(responseText);
+  const status = exchange.status ?? 0;
+
+  return {
+    ...(pageref ? { pageref } : {}),
+    startedDateTime: exchange.startedAt,
+    time: exchange.durationMs,
+    request: {
+      method: exchange.method,
+      url: exchange.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: nameValues(exchange.request.headers),
+      queryString: [...new URL(exchange.url).searchParams].map(([name, value]) => ({ name, value })),
+      ...(requestText === undefined ? {} : { postData: { mimeType: mimeTypeOf(exchange.request), text: requestText } }),
+      headersSize: -1,
+      bodySize: requestText === undefined ? 0 : Buffer.byteLength(requestText),
+    },
+    response: {
+      status,
+      statusText: STATUS_CODES[status] ?? '',
+      httpVersion: exchange.response ? 'HTTP/1.1' : '',
+      cookies: [],
+      headers: nameValues(exchange.response?.headers ?? {}),
+      content: { size: responseSize, mimeType: mimeTypeOf(exchange.response), ...(responseText === undefined ? {} : { text: responseText }) },
+      redirectURL: exchange.response?.headers.location ?? '',
+      headersSize: -1,
+      bodySize: exchange.response ? responseSize : -1,
+    },
+    cache: {},
+    // Without per-phase timings (Axios reports only the total) it is all attributed to waiting
+    timings: exchange.timings
+      ? { ...exchange.timings, ssl: -1 }
+      : { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: exchange.durationMs, receive: 0 },
+    ...(exchange.error ? { _error: exchange.error } : {}),
+  };
+}
+
+/**
+ * Collects logged exchanges into a HAR 1.2 document, one page per test.
+ * Bodies and headers are the redacted ones from the HTTP log.
+ */
+export class HarBuilder {
+  private readonly pages: HarPage[] = [];
+  private readonly entries: HarEntry[] = [];
+
+  constructor(private readonly creator = { name: '@saucedemo/http-log', version: '1.0.0' }) {}
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Add a test as a page, with its exchanges as the page's entries
+   */
+  page(title: string, exchanges: readonly HttpExchange[]): this {
+    const id = `page_${this.pages.length + 1}`;
+    this.pages.push({
+      startedDateTime: exchanges[0]?.startedAt ?? new Date().toISOString(),
+      id,
+      title,
+      pageTimings: { onContentLoad: -1, onLoad: -1 },
+    });
+    this.entries.push(...exchanges.map(exchange => toEntry(exchange, id)));
+    return this;
+  }
+
+  /**
+   * Add exchanges that belong to no test (e.g. made in beforeAll)
+   */
+  add(exchanges: readonly HttpExchange[]): this {
+    this.entries.push(...exchanges.map(exchange => toEntry(exchange)));
+    return this;
+  }
+
+  build(): Har {
+    return {
+      log: {
+        version: '1.2',
+        creator: this.creator,
+        pages: [...this.pages],
+        entries: [...this.entries].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime)),
+      },
+    };
+  }
+
+  /**
+   * Write the HAR to `path`, creating its directory
+   */
+  write(path: string): string {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, `${JSON.stringify(this.build(), null, 2)}\n`);
+    return path;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Structured per-test HTTP log with secret redaction, cURL/HTTPie
+ * reproductions and HAR export for the Playwright and Axios clients
+ */
+export * from './har';
+export * from './log';
+export * from './redaction';
+export * from './reproduce';
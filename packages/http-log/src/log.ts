@@ -0,0 +1,204 @@
+import { Redactor } from './redaction';
+import { reproductionScript, ReproductionFormat } from './reproduce';
+
+export interface HttpMessage {
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Phase durations in ms, -1 for a phase that did not happen (e.g. DNS on a reused connection)
+ */
+export interface HttpTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+}
+
+/**
+ * One request/response pair as it appears in the log (already redacted)
+ */
+export interface HttpExchange {
+  method: string;
+  url: string;
+  /** Missing when the request failed without a response */
+  status?: number;
+  durationMs: number;
+  /** ISO timestamp of when the request was sent */
+  startedAt: string;
+  request: HttpMessage;
+  response?: HttpMessage;
+  /** Network or client error, if no response arrived */
+  error?: string;
+  /** Per-phase timings, when the client exposes its socket */
+  timings?: HttpTimings;
+}
+
+export interface LoggedRequest {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface LoggedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  timings?: HttpTimings;
+}
+
+/**
+ * Completes an exchange started with HttpLog.begin()
+ */
+export interface PendingExchange {
+  response(response: LoggedResponse): void;
+  error(error: unknown): void;
+}
+
+/**
+ * Notified of every exchange as it is recorded
+ */
+export type ExchangeListener = (exchange: HttpExchange) => void;
+
+/** Bodies longer than this are cut in the text format (the JSON keeps them whole) */
+const MAX_FORMATTED_BODY = 2_000;
+
+/**
+ * JSON text is stored parsed so it can be redacted field by field
+ */
+export function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string') {
+    return body;
+  }
+  if (body === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * HTTP_LOG=always prints/attaches the log of every test; by default only failed tests get it
+ */
+export function httpLogAlways(): boolean {
+  return process.env.HTTP_LOG === 'always';
+}
+
+function formatBody(body: unknown): string {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return text.length > MAX_FORMATTED_BODY ? `${text.slice(0, MAX_FORMATTED_BODY)}... (${text.length} chars)` : text;
+}
+
+function formatMessage(prefix: string, { headers, body }: HttpMessage): string[] {
+  const lines = Object.entries(headers).map(([name, value]) => `  ${prefix} ${name}: ${value}`);
+  return body === undefined ? lines : [...lines, `  ${prefix}`, `  ${prefix} ${formatBody(body)}`];
+}
+
+/**
+ * `GET https://... -> 200 (12ms)` followed by `>` request and `<` response lines
+ */
+export function formatExchange(exchange: HttpExchange): string {
+  const outcome = exchange.status ?? `failed: ${exchange.error}`;
+  return [
+    `${exchange.method} ${exchange.url} -> ${outcome} (${exchange.durationMs}ms)`,
+    ...formatMessage('>', exchange.request),
+    ...(exchange.response ? formatMessage('<', exchange.response) : []),
+  ].join('\n');
+}
+
+/**
+ * Exchanges of the current test, redacted as they are recorded
+ */
+export class HttpLog {
+  private readonly exchanges: HttpExchange[] = [];
+  private readonly listeners = new Set<ExchangeListener>();
+
+  constructor(private readonly redactor: Redactor = new Redactor()) {}
+
+  get entries(): readonly HttpExchange[] {
+    return this.exchanges;
+  }
+
+  /**
+   * Start timing a request; the exchange is recorded once it settles
+   */
+  begin(request: LoggedRequest): PendingExchange {
+    const startedAt = new Date();
+    const start = performance.now();
+    const base = () => ({
+      method: request.method.toUpperCase(),
+      url: this.redactor.url(request.url),
+      durationMs: Math.round(performance.now() - start),
+      startedAt: startedAt.toISOString(),
+      request: this.message(request),
+    });
+
+    return {
+      response: response => {
+        this.record({
+          ...base(),
+          status: response.status,
+          response: this.message(response),
+          ...(response.timings ? { timings: response.timings } : {}),
+        });
+      },
+      error: error => {
+        this.record({ ...base(), error: error instanceof Error ? error.message : String(error) });
+      },
+    };
+  }
+
+  /**
+   * Receive every exchange recorded from now on, across tests (clear() does not unsubscribe)
+   * @returns Unsubscribe
+   */
+  subscribe(listener: ExchangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  clear(): void {
+    this.exchanges.length = 0;
+  }
+
+  format(): string {
+    const count = this.exchanges.length;
+    return [`HTTP log (${count} request${count === 1 ? '' : 's'}):`, ...this.exchanges.map(formatExchange)].join('\n\n');
+  }
+
+  /**
+   * cURL or HTTPie script for the last `last` exchanges, secrets as `$API_*` variables
+   */
+  reproduction(format: ReproductionFormat, last?: number): string {
+    return reproductionScript(this.exchanges, format, { last, placeholder: this.redactor.options.placeholder });
+  }
+
+  toJSON(): HttpExchange[] {
+    return [...this.exchanges];
+  }
+
+  private record(exchange: HttpExchange): void {
+    this.exchanges.push(exchange);
+    this.listeners.forEach(listener => listener(exchange));
+  }
+
+  private message({ headers, body }: { headers?: Record<string, string>; body?: unknown }): HttpMessage {
+    const parsed = parseBody(body);
+    return {
+      headers: this.redactor.headers(headers),
+      ...(parsed === undefined ? {} : { body: this.redactor.body(parsed) }),
+    };
+  }
+}
+
+/**
+ * Worker-wide log, cleared at the start of every test
+ */
+export const httpLog = new HttpLog();
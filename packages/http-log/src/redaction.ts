@@ -0,0 +1,88 @@
+export interface RedactionOptions {
+  /** Header names whose values are hidden (case-insensitive) */
+  headers: string[];
+  /** Body and query field names whose values are hidden at any depth (case-insensitive) */
+  fields: string[];
+  /** Replacement for a hidden value; an auth scheme such as `Bearer` is kept */
+  placeholder: string;
+}
+
+export const DEFAULT_REDACTION: RedactionOptions = {
+  headers: ['authorization', 'proxy-authorization', 'cookie', 'set-cookie'],
+  fields: ['accessToken', 'refreshToken', 'token', 'password'],
+  placeholder: '[REDACTED]',
+};
+
+function namesFromEnv(name: string): string[] {
+  return (process.env[name] ?? '').split(',').map(value => value.trim()).filter(Boolean);
+}
+
+/**
+ * Redaction rules: the defaults, plus the comma-separated names in
+ * HTTP_LOG_REDACT_HEADERS and HTTP_LOG_REDACT_FIELDS, then overrides
+ */
+export function redactionOptions(overrides: Partial<RedactionOptions> = {}): RedactionOptions {
+  return {
+    headers: [...DEFAULT_REDACTION.headers, ...namesFromEnv('HTTP_LOG_REDACT_HEADERS')],
+    fields: [...DEFAULT_REDACTION.fields, ...namesFromEnv('HTTP_LOG_REDACT_FIELDS')],
+    placeholder: DEFAULT_REDACTION.placeholder,
+    ...overrides,
+  };
+}
+
+/**
+ * Hides secrets in headers, URLs and bodies before they are logged
+ */
+export class Redactor {
+  private readonly headerNames: Set<string>;
+  private readonly fieldNames: Set<string>;
+
+  constructor(readonly options: RedactionOptions = redactionOptions()) {
+    this.headerNames = new Set(options.headers.map(name => name.toLowerCase()));
+    this.fieldNames = new Set(options.fields.map(name => name.toLowerCase()));
+  }
+
+  headers(headers: Record<string, string> = {}): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name.toLowerCase(),
+        this.headerNames.has(name.toLowerCase()) ? this.hide(value) : value,
+      ])
+    );
+  }
+
+  url(url: string): string {
+    const [base, query] = url.split('?', 2);
+    if (!query) {
+      return url;
+    }
+
+    const params = new URLSearchParams(query);
+    for (const name of [...params.keys()]) {
+      if (this.fieldNames.has(name.toLowerCase())) {
+        params.set(name, this.options.placeholder);
+      }
+    }
+    return `${base}?${params.toString()}`;
+  }
+
+  body(body: unknown): unknown {
+    if (Array.isArray(body)) {
+      return body.map(item => this.body(item));
+    }
+    if (body === null || typeof body !== 'object') {
+      return body;
+    }
+    return Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [
+        key,
+        this.fieldNames.has(key.toLowerCase()) ? this.options.placeholder : this.body(value),
+      ])
+    );
+  }
+
+  private hide(value: string): string {
+    const scheme = /^(Bearer|Basic|Token)\s/i.exec(value)?.[1];
+    return scheme ? `${scheme} ${this.options.placeholder}` : this.options.placeholder;
+  }
+}
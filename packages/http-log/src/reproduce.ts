@@ -0,0 +1,145 @@
+import type { HttpExchange } from './log';
+import { DEFAULT_REDACTION } from './redaction';
+
+export type ReproductionFormat = 'curl' | 'httpie';
+
+export interface ReproductionOptions {
+  /** How many of the most recent exchanges to reproduce (default: 5) */
+  last?: number;
+  /** Placeholder the log redacted secrets with (default: `[REDACTED]`) */
+  placeholder?: string;
+}
+
+/** Variable that stands in for a redacted bearer token (the same one `accessToken` fields use) */
+export const TOKEN_VARIABLE = 'API_ACCESS_TOKEN';
+
+const DEFAULT_LAST = 5;
+
+/** Headers the client computes itself */
+const SKIPPED_HEADERS = new Set(['content-length', 'host', 'connection']);
+
+/**
+ * Marks a variable inside a string until it is shell-quoted (a private-use
+ * character, so JSON.stringify and the URL builder leave it alone)
+ */
+const SENTINEL = '\uE000';
+
+function variable(name: string): string {
+  return `${SENTINEL}${name}${SENTINEL}`;
+}
+
+function variableFor(name: string): string {
+  return `API_${name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/\W+/g, '_').toUpperCase()}`;
+}
+
+/**
+ * Single-quote a string for POSIX shells, leaving variables expandable:
+ * `Bearer <API_ACCESS_TOKEN>` becomes `'Bearer '"$API_ACCESS_TOKEN"`
+ */
+function shellQuote(text: string): string {
+  return text
+    .split(SENTINEL)
+    .map((part, index) => (index % 2 === 1 ? `"$${part}"` : part && `'${part.replace(/'/g, `'\\''`)}'`))
+    .join('') || `''`;
+}
+
+/**
+ * Request of an exchange with every redacted value replaced by a variable
+ */
+function restore(exchange: HttpExchange, placeholder: string, variables: Set<string>) {
+  const use = (name: string) => {
+    variables.add(name);
+    return variable(name);
+  };
+
+  const headers = Object.entries(exchange.request.headers)
+    .filter(([name]) => !SKIPPED_HEADERS.has(name))
+    .map(([name, value]): [string, string] => {
+      if (value === placeholder) {
+        return [name, use(variableFor(name))];
+      }
+      if (value.endsWith(` ${placeholder}`)) {
+        const scheme = value.slice(0, -placeholder.length);
+        return [name, scheme + use(name === 'authorization' ? TOKEN_VARIABLE : variableFor(name))];
+      }
+      return [name, value];
+    });
+
+  const [base, query] = exchange.url.split('?', 2);
+  const params = new URLSearchParams(query);
+  const search = [...params].map(([name, value]) =>
+    `${encodeURIComponent(name)}=${value === placeholder ? use(variableFor(name)) : encodeURIComponent(value)}`
+  );
+  const url = search.length > 0 ? `${base}?${search.join('&')}` : base;
+
+  const restoreBody = (value: unknown, key?: string): unknown => {
+    if (value === placeholder && key) {
+      return use(variableFor(key));
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => restoreBody(item));
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, restoreBody(item, name)]));
+    }
+    return value;
+  };
+  const body = exchange.request.body;
+  const data = body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(restoreBody(body));
+
+  return { method: exchange.method, url, headers, data };
+}
+
+function curl({ method, url, headers, data }: ReturnType<typeof restore>): string {
+  const parts = [
+    `${method === 'HEAD' ? 'curl --head' : method === 'GET' ? 'curl' : `curl -X ${method}`} ${shellQuote(url)}`,
+    ...headers.map(([name, value]) => `-H ${shellQuote(`${name}: ${value}`)}`),
+    ...(data === undefined ? [] : [`--data-raw ${shellQuote(data)}`]),
+  ];
+  return parts.join(' \\\n  ');
+}
+
+function httpie({ method, url, headers, data }: ReturnType<typeof restore>): string {
+  const parts = [
+    `http ${method} ${shellQuote(url)}`,
+    ...headers.map(([name, value]) => shellQuote(`${name}:${value}`)),
+    ...(data === undefined ? [] : [`--raw ${shellQuote(data)}`]),
+  ];
+  return parts.join(' \\\n  ');
+}
+
+const formatters: Record<ReproductionFormat, (request: ReturnType<typeof restore>) => string> = { curl, httpie };
+
+/**
+ * One copy-pasteable command for an exchange; redacted secrets become `$API_*` variables
+ */
+export function reproduce(
+  exchange: HttpExchange,
+  format: ReproductionFormat,
+  placeholder: string = DEFAULT_REDACTION.placeholder
+): string {
+  return formatters[format](restore(exchange, placeholder, new Set()));
+}
+
+/**
+ * Shell script reproducing the last requests of a test; it stops early
+ * unless the variables it needs (e.g. `API_ACCESS_TOKEN`) are exported
+ */
+export function reproductionScript(
+  exchanges: readonly HttpExchange[],
+  format: ReproductionFormat,
+  { last = DEFAULT_LAST, placeholder = DEFAULT_REDACTION.placeholder }: ReproductionOptions = {}
+): string {
+  const recent = exchanges.slice(-last);
+  const variables = new Set<string>();
+  const commands = recent.map((exchange, index) => {
+    const outcome = exchange.status ?? `failed: ${exchange.error}`;
+    return `# ${index + 1}. ${exchange.method} ${exchange.url} -> ${outcome}\n${formatters[format](restore(exchange, placeholder, variables))}`;
+  });
+
+  const header = [
+    `# Last ${recent.length} of ${exchanges.length} request(s) made by the test`,
+    ...[...variables].sort().map(name => `: "\${${name}:?export ${name} first}"`),
+  ];
+  return [header.join('\n'), ...commands].join('\n\n') + '\n';
+}
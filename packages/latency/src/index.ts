@@ -0,0 +1,6 @@
+/**
+ * Latency of every request in both suites, summarized per route as p50/p95/max
+ * and checked against the budgets in `@saucedemo/contracts`
+ */
+export * from './recorder';
+export * from './report';
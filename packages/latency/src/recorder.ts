@@ -0,0 +1,75 @@
+import { appendFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { threadId } from 'node:worker_threads';
+import { findOperation } from '@saucedemo/contracts';
+
+/**
+ * One request's latency, as appended to the raw latency log
+ */
+export interface LatencySample {
+  /** `GET /products/{id}`, or the raw path when no operation matches */
+  route: string;
+  /** Operation id, used to look up the route's budget */
+  operation?: string;
+  status: number;
+  durationMs: number;
+}
+
+export interface RecordLatencyOptions {
+  method: string;
+  url: string;
+  /** Requests that got no response are not sampled */
+  status?: number;
+  durationMs: number;
+}
+
+export const DEFAULT_LATENCY_DIR = 'latency-report';
+
+export function latencyDirectory(): string {
+  return process.env.LATENCY_REPORT_DIR ?? DEFAULT_LATENCY_DIR;
+}
+
+/**
+ * LATENCY_ENFORCE=1 (or true) fails the run when a budget is exceeded;
+ * otherwise the report only flags it
+ */
+export function isLatencyEnforced(): boolean {
+  return ['1', 'true'].includes((process.env.LATENCY_ENFORCE ?? '').toLowerCase());
+}
+
+/**
+ * Label a request with its documented operation, so `/products/1` and
+ * `/products/2` aggregate under `GET /products/{id}`
+ * @returns undefined for requests that got no response
+ */
+export function latencySample({ method, url, status, durationMs }: RecordLatencyOptions): LatencySample | undefined {
+  if (status === undefined) {
+    return undefined;
+  }
+
+  const verb = method.toUpperCase();
+  const path = new URL(url, 'http://localhost').pathname;
+  const operation = findOperation(verb, path);
+  return {
+    route: `${verb} ${operation?.path ?? path}`,
+    ...(operation ? { operation: operation.id } : {}),
+    status,
+    durationMs,
+  };
+}
+
+/**
+ * Append a request's latency to this worker's log
+ */
+export function recordLatency(options: RecordLatencyOptions): void {
+  const sample = latencySample(options);
+  if (!sample) {
+    return;
+  }
+
+  const dir = join(latencyDirectory(), 'raw');
+
+  // One file per process and thread keeps concurrent workers from interleaving lines
+  mkdirSync(dir, { recursive: true });
+  appendFileSync(join(dir, `latency-${process.pid}-${threadId}.jsonl`), `${JSON.stringify(sample)}\n`);
+}
@@ -0,0 +1,175 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { latencyBudgets, LatencyBudget } from '@saucedemo/contracts';
+import { isLatencyEnforced, latencyDirectory, LatencySample } from './recorder';
+
+/**
+ * Latency of one route across the whole run
+ */
+export interface LatencyReportEntry {
+  route: string;
+  operation?: string;
+  requests: number;
+  p50: number;
+  p95: number;
+  max: number;
+  budget?: LatencyBudget;
+  /** e.g. `p95 912ms > 800ms`; empty when within budget */
+  breaches: string[];
+}
+
+export interface LatencyReport {
+  generatedAt: string;
+  requests: number;
+  entries: LatencyReportEntry[];
+}
+
+/**
+ * Thrown from global teardown with LATENCY_ENFORCE=1 when a route exceeds its budget
+ */
+export class LatencyBudgetError extends Error {
+  constructor(readonly breached: LatencyReportEntry[]) {
+    super(
+      `Latency budget exceeded on ${breached.length} route(s):\n` +
+        breached.map(entry => `  ${entry.route}: ${entry.breaches.join(', ')}`).join('\n')
+    );
+    this.name = 'LatencyBudgetError';
+  }
+}
+
+function readSamples(rawDir: string): LatencySample[] {
+  if (!existsSync(rawDir)) {
+    return [];
+  }
+  return readdirSync(rawDir)
+    .filter(file => file.endsWith('.jsonl'))
+    .flatMap(file => readFileSync(join(rawDir, file), 'utf8').split('\n').filter(Boolean))
+    .map(line => JSON.parse(line) as LatencySample);
+}
+
+/**
+ * Nearest-rank percentile of ascending values
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function breachesOf(entry: Pick<LatencyReportEntry, 'p50' | 'p95' | 'max'>, budget: LatencyBudget | undefined): string[] {
+  return (['p50', 'p95', 'max'] as const)
+    .filter(stat => budget?.[stat] !== undefined && entry[stat] > budget[stat]!)
+    .map(stat => `${stat} ${entry[stat]}ms > ${budget![stat]}ms`);
+}
+
+/**
+ * Group samples by route and compute p50/p95/max against each route's budget
+ */
+export function aggregateLatency(
+  samples: LatencySample[],
+  budgets: Record<string, LatencyBudget> = latencyBudgets
+): LatencyReport {
+  const routes = new Map<string, { operation?: string; durations: number[] }>();
+  for (const sample of samples) {
+    let route = routes.get(sample.route);
+    if (!route) {
+      route = { operation: sample.operation, durations: [] };
+      routes.set(sample.route, route);
+    }
+    route.durations.push(sample.durationMs);
+  }
+
+  const entries = [...routes].map(([route, { operation, durations }]): LatencyReportEntry => {
+    const sorted = [...durations].sort((a, b) => a - b);
+    const stats = { p50: percentile(sorted, 50), p95: percentile(sorted, 95), max: sorted[sorted.length - 1] };
+    const budget = operation ? budgets[operation] : undefined;
+    return {
+      route,
+      ...(operation ? { operation } : {}),
+      requests: durations.length,
+      ...stats,
+      ...(budget ? { budget } : {}),
+      breaches: breachesOf(stats, budget),
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    requests: samples.length,
+    entries: entries.sort((a, b) => a.route.localeCompare(b.route)),
+  };
+}
+
+function formatBudget(budget: LatencyBudget | undefined): string {
+  const limits = (['p50', 'p95', 'max'] as const)
+    .filter(stat => budget?.[stat] !== undefined)
+    .map(stat => `${stat} ≤ ${budget![stat]}ms`);
+  return limits.length > 0 ? limits.join(', ') : '-';
+}
+
+/**
+ * Markdown table rows (header included) of per-route latency entries
+ */
+export function formatLatencyTable(entries: LatencyReportEntry[]): string[] {
+  const lines = ['| Route | Requests | p50 | p95 | Max | Budget | Result |', '|-------|----------|-----|-----|-----|--------|--------|'];
+  for (const entry of entries) {
+    const result = entry.breaches.length > 0 ? `❌ ${entry.breaches.join(', ')}` : entry.budget ? '✅' : '-';
+    lines.push(
+      `| \`${entry.route}\` | ${entry.requests} | ${entry.p50}ms | ${entry.p95}ms | ${entry.max}ms | ${formatBudget(entry.budget)} | ${result} |`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Markdown table of a latency report
+ */
+export function formatLatencyReport(report: LatencyReport): string {
+  const lines = [
+    '# Latency Report',
+    '',
+    `Generated ${report.generatedAt} from ${report.requests} requests.`,
+    '',
+  ];
+
+  if (report.entries.length === 0) {
+    return [...lines, 'No requests recorded.', ''].join('\n');
+  }
+  return [...lines, ...formatLatencyTable(report.entries), ''].join('\n');
+}
+
+/**
+ * Called from global setup: pins the latency directory for all workers
+ * and clears samples left by a previous run
+ */
+export function startLatencySession(): void {
+  const dir = resolve(latencyDirectory());
+  process.env.LATENCY_REPORT_DIR = dir;
+  rmSync(join(dir, 'raw'), { recursive: true, force: true });
+}
+
+/**
+ * Called from global teardown: writes `report.json` and `report.md` into the
+ * latency directory and prints the summary table.
+ * @throws LatencyBudgetError with LATENCY_ENFORCE=1 when a budget is exceeded
+ */
+export function finishLatencySession(): LatencyReport {
+  const dir = latencyDirectory();
+  const report = aggregateLatency(readSamples(join(dir, 'raw')));
+  const markdown = formatLatencyReport(report);
+
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+  writeFileSync(join(dir, 'report.md'), markdown);
+  console.log(`\n${markdown}`);
+
+  const breached = report.entries.filter(entry => entry.breaches.length > 0);
+  if (breached.length > 0 && isLatencyEnforced()) {
+    throw new LatencyBudgetError(breached);
+  }
+  if (breached.length > 0) {
+    console.warn(`Latency budget exceeded on ${breached.length} route(s); set LATENCY_ENFORCE=1 to fail the run.`);
+  }
+  return report;
+}
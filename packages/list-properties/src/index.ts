@@ -0,0 +1,5 @@
+/**
+ * Property-based (fast-check) pagination and search invariants, run by both suites
+ */
+export * from './properties';
+export * from './schema';
@@ -0,0 +1,151 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+import { productListSchema, ListQuery, ProductList } from '@saucedemo/contracts';
+import fc from 'fast-check';
+import { productPageSchema, selectableFields, sortableFields, ProductField } from './schema';
+
+/**
+ * Raw product list endpoints of one HTTP client. Both return the parsed JSON
+ * body and must throw on a non-200 status.
+ */
+export interface ProductListSource {
+  list(query: ListQuery): Promise<unknown>;
+  search(term: string, query: ListQuery): Promise<unknown>;
+}
+
+/**
+ * fast-check parameters (PROPERTY_RUNS, default: 25 runs per property)
+ * @param seed - Fixes the generated cases, e.g. the test-data seed of the test
+ */
+export function propertyParameters(seed?: number): fc.Parameters<unknown> {
+  return { numRuns: Number(process.env.PROPERTY_RUNS) || 25, ...(seed === undefined ? {} : { seed: seed | 0 }) };
+}
+
+interface Ordering {
+  sortBy?: ProductField;
+  order?: 'asc' | 'desc';
+}
+
+interface ListShape extends Ordering {
+  select?: ProductField[];
+}
+
+const orderingArbitrary: fc.Arbitrary<Ordering> = fc.record(
+  { sortBy: fc.constantFrom(...sortableFields), order: fc.constantFrom('asc' as const, 'desc' as const) },
+  { requiredKeys: [] }
+);
+
+const listShapeArbitrary: fc.Arbitrary<ListShape> = fc
+  .tuple(orderingArbitrary, fc.option(fc.subarray([...selectableFields], { minLength: 1 }), { nil: undefined }))
+  .map(([ordering, select]) => ({ ...ordering, ...(select ? { select } : {}) }));
+
+/**
+ * Memoized full list (`limit=0`) per ordering, the reference every page is compared to
+ */
+function fullListCache(source: ProductListSource): (ordering: Ordering) => Promise<ProductList> {
+  const cache = new Map<string, Promise<ProductList>>();
+  return ordering => {
+    const key = `${ordering.sortBy ?? ''}:${ordering.order ?? ''}`;
+    let list = cache.get(key);
+    if (!list) {
+      list = source.list({ ...ordering, limit: 0 }).then(body => productListSchema.parse(body));
+      cache.set(key, list);
+    }
+    return list;
+  };
+}
+
+const idsOf = (list: { products: Array<{ id: number }> }) => list.products.map(product => product.id);
+
+/**
+ * Walking a list page by page (any page size, sort and select) visits every
+ * product exactly once, in the order of the full list, with a stable `total`
+ */
+export async function assertPagesPartitionList(source: ProductListSource, parameters?: fc.Parameters<unknown>): Promise<void> {
+  const fullList = fullListCache(source);
+
+  await fc.assert(
+    fc.asyncProperty(fc.integer({ min: 1, max: 5 }), listShapeArbitrary, async (pageCount, shape) => {
+      const { select, ...ordering } = shape;
+      const full = await fullList(ordering);
+      const limit = Math.max(1, Math.ceil(full.total / pageCount));
+      const schema = productPageSchema(select);
+      const seen: number[] = [];
+
+      for (let skip = 0; skip < full.total; skip += limit) {
+        const page = schema.parse(await source.list({ ...shape, skip, limit })) as ProductList;
+        const ids = idsOf(page);
+
+        strictEqual(page.total, full.total, `total changed on page skip=${skip}`);
+        strictEqual(page.skip, skip);
+        ok(ids.every(id => !seen.includes(id)), `page skip=${skip} overlaps an earlier page: ${ids}`);
+        seen.push(...ids);
+      }
+
+      deepStrictEqual(seen, idsOf(full), 'concatenated pages differ from the full list');
+    }),
+    parameters
+  );
+}
+
+/**
+ * Any skip/limit, including 0, 1, total-1, total, total+1 and skips past the
+ * end, returns exactly the matching slice of the full list
+ */
+export async function assertLimitHonoured(source: ProductListSource, parameters?: fc.Parameters<unknown>): Promise<void> {
+  const fullList = fullListCache(source);
+  const { total } = await fullList({});
+
+  const limitArbitrary = fc.oneof(fc.constantFrom(0, 1, total - 1, total, total + 1), fc.integer({ min: 1, max: total }));
+  const skipArbitrary = fc.oneof(fc.constantFrom(0, total - 1, total, total + 1), fc.integer({ min: 0, max: total + 3 }));
+
+  await fc.assert(
+    fc.asyncProperty(skipArbitrary, limitArbitrary, orderingArbitrary, async (skip, limit, ordering) => {
+      const full = await fullList(ordering);
+      const page = productListSchema.parse(await source.list({ ...ordering, skip, limit }));
+      const expected = idsOf(full).slice(skip, limit === 0 ? undefined : skip + limit);
+
+      deepStrictEqual(idsOf(page), expected, `skip=${skip} limit=${limit} returned the wrong slice`);
+      strictEqual(page.limit, expected.length, 'echoed limit should be the number of products returned');
+      strictEqual(page.total, total);
+    }),
+    parameters
+  );
+}
+
+function searchableText(product: Record<string, unknown>): string {
+  return [product.title, product.description, product.brand, product.category]
+    .filter(value => typeof value === 'string')
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Every search result contains the term, whatever part of a known product
+ * word is searched for, and paging a search never exceeds `limit`
+ */
+export async function assertSearchMatches(source: ProductListSource, parameters?: fc.Parameters<unknown>): Promise<void> {
+  const { products } = productListSchema.parse(await source.list({ limit: 0 }));
+  const words = [...new Set(products.flatMap(product => product.title.toLowerCase().split(/[^a-z]+/)))].filter(
+    word => word.length >= 3
+  );
+
+  const termArbitrary = fc
+    .tuple(fc.constantFrom(...words), fc.nat(), fc.integer({ min: 3, max: 8 }))
+    .map(([word, start, length]) => {
+      const from = start % (word.length - 2);
+      return word.slice(from, from + length);
+    });
+
+  await fc.assert(
+    fc.asyncProperty(termArbitrary, fc.integer({ min: 1, max: 10 }), async (term, limit) => {
+      const page = productListSchema.parse(await source.search(term, { limit }));
+
+      ok(page.total > 0, `"${term}" is part of a product title but found nothing`);
+      ok(page.products.length <= limit, `search returned ${page.products.length} products for limit=${limit}`);
+      for (const product of page.products) {
+        ok(searchableText(product).includes(term), `product ${product.id} does not contain "${term}"`);
+      }
+    }),
+    parameters
+  );
+}
@@ -0,0 +1,27 @@
+import { productListSchema, productSchema, Product } from '@saucedemo/contracts';
+import { z } from 'zod';
+
+export type ProductField = keyof Product & string;
+
+/**
+ * Fields that can be requested with `select` (id is always returned)
+ */
+export const selectableFields = ['title', 'price', 'rating', 'stock', 'category', 'brand'] as const satisfies readonly ProductField[];
+
+/**
+ * Fields the list endpoints can sort by
+ */
+export const sortableFields = ['id', 'title', 'price', 'rating', 'stock'] as const satisfies readonly ProductField[];
+
+/**
+ * `productListSchema` for a page fetched with `select`: products carry
+ * exactly `id` plus the selected fields
+ */
+export function productPageSchema(select?: readonly ProductField[]): z.ZodTypeAny {
+  if (!select) {
+    return productListSchema;
+  }
+
+  const mask = Object.fromEntries(['id', ...select].map(field => [field, true])) as { [K in ProductField]?: true };
+  return productListSchema.extend({ products: z.array(productSchema.pick(mask).strict()) });
+}
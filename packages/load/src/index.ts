@@ -0,0 +1,7 @@
+/**
+ * Load runner: repeats multi-step journeys as concurrent virtual users and
+ * reports throughput, error rates and latency percentiles
+ */
+export * from './options';
+export * from './report';
+export * from './runner';
@@ -0,0 +1,74 @@
+/**
+ * Shape of a load run
+ */
+export interface LoadOptions {
+  /** Concurrent virtual users, each looping over the journeys */
+  virtualUsers: number;
+  /** Virtual users start evenly spread over this window */
+  rampUpMs: number;
+  /** Total run time, ramp-up included; iterations in flight at the end still finish */
+  durationMs: number;
+  /** Pause between a virtual user's iterations */
+  thinkTimeMs: number;
+}
+
+export const DEFAULT_LOAD_OPTIONS: LoadOptions = {
+  virtualUsers: 5,
+  rampUpMs: 5_000,
+  durationMs: 30_000,
+  thinkTimeMs: 0,
+};
+
+export const DEFAULT_LOAD_DIR = 'load-report';
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' || !Number.isFinite(Number(value)) ? undefined : Number(value);
+}
+
+/**
+ * Default options with env overrides (LOAD_VUS, LOAD_RAMP_UP and LOAD_DURATION
+ * in seconds, LOAD_THINK_MS)
+ */
+export function loadOptions(overrides: Partial<LoadOptions> = {}): LoadOptions {
+  const rampUp = envNumber('LOAD_RAMP_UP');
+  const duration = envNumber('LOAD_DURATION');
+  const fromEnv: Partial<LoadOptions> = {
+    virtualUsers: envNumber('LOAD_VUS'),
+    rampUpMs: rampUp === undefined ? undefined : rampUp * 1000,
+    durationMs: duration === undefined ? undefined : duration * 1000,
+    thinkTimeMs: envNumber('LOAD_THINK_MS'),
+  };
+  const defined = Object.fromEntries(Object.entries(fromEnv).filter(([, value]) => value !== undefined));
+
+  return { ...DEFAULT_LOAD_OPTIONS, ...defined, ...overrides };
+}
+
+export function loadDirectory(): string {
+  return process.env.LOAD_REPORT_DIR ?? DEFAULT_LOAD_DIR;
+}
+
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/**
+ * Thrown when a load run targets a non-local host without LOAD_ALLOW_REMOTE=1
+ */
+export class RemoteLoadTargetError extends Error {
+  constructor(readonly baseURL: string) {
+    super(
+      `Refusing to load test ${baseURL}: load runs are meant for the local mock server ` +
+        '(API_MODE=mock). Set LOAD_ALLOW_REMOTE=1 to target another host.'
+    );
+    this.name = 'RemoteLoadTargetError';
+  }
+}
+
+/**
+ * @throws RemoteLoadTargetError unless `baseURL` is local or LOAD_ALLOW_REMOTE=1
+ */
+export function assertLocalTarget(baseURL: string): void {
+  const allowRemote = ['1', 'true'].includes((process.env.LOAD_ALLOW_REMOTE ?? '').toLowerCase());
+  if (!allowRemote && !LOCAL_HOSTS.has(new URL(baseURL).hostname)) {
+    throw new RemoteLoadTargetError(baseURL);
+  }
+}
@@ -0,0 +1,149 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { aggregateLatency, formatLatencyTable, percentile, LatencyReportEntry } from '@saucedemo/latency';
+import { loadDirectory, LoadOptions } from './options';
+import type { LoadResult } from './runner';
+
+export interface JourneyStats {
+  journey: string;
+  iterations: number;
+  errors: number;
+  p50: number;
+  p95: number;
+  max: number;
+}
+
+/**
+ * Throughput, error rates and latency percentiles of a load run
+ */
+export interface LoadReport {
+  startedAt: string;
+  options: LoadOptions;
+  elapsedMs: number;
+  iterations: number;
+  failedIterations: number;
+  /** Failed / total iterations, 0..1 */
+  errorRate: number;
+  iterationsPerSecond: number;
+  requests: number;
+  /** Responses with status >= 400 plus requests that got no response */
+  failedRequests: number;
+  requestErrorRate: number;
+  requestsPerSecond: number;
+  journeys: JourneyStats[];
+  /** Per-route p50/p95/max against the latency budgets */
+  routes: LatencyReportEntry[];
+  /** Distinct error messages, most frequent first */
+  errors: { message: string; count: number }[];
+}
+
+function rate(count: number, total: number): number {
+  return total === 0 ? 0 : count / total;
+}
+
+function perSecond(count: number, elapsedMs: number): number {
+  return elapsedMs === 0 ? 0 : Math.round((count / elapsedMs) * 10_000) / 10;
+}
+
+/**
+ * Summarize a raw load result per journey and per route
+ */
+export function summarizeLoad(result: LoadResult): LoadReport {
+  const byJourney = new Map<string, { durations: number[]; errors: number }>();
+  const errors = new Map<string, number>();
+  for (const iteration of result.iterations) {
+    const stats = byJourney.get(iteration.journey) ?? { durations: [], errors: 0 };
+    stats.durations.push(iteration.durationMs);
+    if (iteration.error !== undefined) {
+      stats.errors++;
+      errors.set(iteration.error, (errors.get(iteration.error) ?? 0) + 1);
+    }
+    byJourney.set(iteration.journey, stats);
+  }
+  for (const { error } of result.setupFailures) {
+    errors.set(`setup: ${error}`, (errors.get(`setup: ${error}`) ?? 0) + 1);
+  }
+
+  const journeys = [...byJourney].map(([journey, { durations, errors: failed }]): JourneyStats => {
+    const sorted = [...durations].sort((a, b) => a - b);
+    return {
+      journey,
+      iterations: durations.length,
+      errors: failed,
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      max: sorted[sorted.length - 1],
+    };
+  });
+
+  const failedIterations = journeys.reduce((sum, stats) => sum + stats.errors, 0);
+  const requests = result.requests.length + result.unanswered;
+  const failedRequests = result.requests.filter(sample => sample.status >= 400).length + result.unanswered;
+
+  return {
+    startedAt: result.startedAt,
+    options: result.options,
+    elapsedMs: result.elapsedMs,
+    iterations: result.iterations.length,
+    failedIterations,
+    errorRate: rate(failedIterations, result.iterations.length),
+    iterationsPerSecond: perSecond(result.iterations.length, result.elapsedMs),
+    requests,
+    failedRequests,
+    requestErrorRate: rate(failedRequests, requests),
+    requestsPerSecond: perSecond(requests, result.elapsedMs),
+    journeys: journeys.sort((a, b) => a.journey.localeCompare(b.journey)),
+    routes: aggregateLatency(result.requests).entries,
+    errors: [...errors].map(([message, count]) => ({ message, count })).sort((a, b) => b.count - a.count),
+  };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+/**
+ * Markdown summary: totals, per-journey and per-route tables, top errors
+ */
+export function formatLoadReport(report: LoadReport): string {
+  const { virtualUsers, rampUpMs, durationMs, thinkTimeMs } = report.options;
+  const lines = [
+    '# Load Report',
+    '',
+    `${virtualUsers} virtual users, ${rampUpMs / 1000}s ramp-up, ${durationMs / 1000}s run, ${thinkTimeMs}ms think time ` +
+      `(started ${report.startedAt}, ${(report.elapsedMs / 1000).toFixed(1)}s elapsed).`,
+    '',
+    '| Metric | Total | Throughput | Errors | Error rate |',
+    '|--------|-------|------------|--------|------------|',
+    `| Iterations | ${report.iterations} | ${report.iterationsPerSecond}/s | ${report.failedIterations} | ${percent(report.errorRate)} |`,
+    `| Requests | ${report.requests} | ${report.requestsPerSecond}/s | ${report.failedRequests} | ${percent(report.requestErrorRate)} |`,
+    '',
+    '## Journeys',
+    '',
+    '| Journey | Iterations | Errors | p50 | p95 | Max |',
+    '|---------|------------|--------|-----|-----|-----|',
+    ...report.journeys.map(
+      stats => `| ${stats.journey} | ${stats.iterations} | ${stats.errors} | ${stats.p50}ms | ${stats.p95}ms | ${stats.max}ms |`
+    ),
+    '',
+    '## Requests',
+    '',
+    ...formatLatencyTable(report.routes),
+  ];
+
+  if (report.errors.length > 0) {
+    lines.push('', '## Errors', '', ...report.errors.slice(0, 10).map(({ message, count }) => `- ${count}× ${message}`));
+  }
+  return [...lines, ''].join('\n');
+}
+
+/**
+ * Write `report.json` and `report.md` into the load report directory (LOAD_REPORT_DIR)
+ * @returns Path of the Markdown report
+ */
+export function writeLoadReport(report: LoadReport, dir = loadDirectory()): string {
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'report.json'), `${JSON.stringify(report, null, 2)}\n`);
+  writeFileSync(join(dir, 'report.md'), formatLoadReport(report));
+  return join(dir, 'report.md');
+}
@@ -0,0 +1,145 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { httpLog, HttpLog } from '@saucedemo/http-log';
+import { latencySample, LatencySample } from '@saucedemo/latency';
+import { loadOptions, LoadOptions } from './options';
+
+/**
+ * One multi-step user flow; throwing marks the iteration as failed
+ */
+export interface Journey<C> {
+  name: string;
+  run: (context: C) => Promise<unknown>;
+}
+
+/**
+ * Journeys plus the per-virtual-user state they run against
+ */
+export interface LoadScenario<C> {
+  /** Each virtual user cycles through these in order, starting at a different one */
+  journeys: Journey<C>[];
+  /** Runs once per virtual user before its first iteration, e.g. a request context and a login */
+  setup: (virtualUser: number) => Promise<C>;
+  teardown?: (context: C) => Promise<void>;
+}
+
+export interface IterationResult {
+  journey: string;
+  virtualUser: number;
+  durationMs: number;
+  /** Message of the error that failed the iteration */
+  error?: string;
+}
+
+/**
+ * Raw outcome of a load run, summarized by `summarizeLoad`
+ */
+export interface LoadResult {
+  options: LoadOptions;
+  startedAt: string;
+  elapsedMs: number;
+  iterations: IterationResult[];
+  /** Every request that got a response, labelled by route */
+  requests: LatencySample[];
+  /** Requests that got no response (network errors, timeouts) */
+  unanswered: number;
+  /** Virtual users whose setup threw, so they ran no iterations */
+  setupFailures: { virtualUser: number; error: string }[];
+}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function virtualUser<C>(
+  id: number,
+  scenario: LoadScenario<C>,
+  options: LoadOptions,
+  deadline: number,
+  result: LoadResult
+): Promise<void> {
+  await sleep((options.rampUpMs * id) / options.virtualUsers);
+  if (Date.now() >= deadline) {
+    return;
+  }
+
+  let context: C;
+  try {
+    context = await scenario.setup(id);
+  } catch (error) {
+    result.setupFailures.push({ virtualUser: id, error: messageOf(error) });
+    return;
+  }
+
+  try {
+    for (let iteration = 0; Date.now() < deadline; iteration++) {
+      const journey = scenario.journeys[(id + iteration) % scenario.journeys.length];
+      const start = performance.now();
+      let error: string | undefined;
+      try {
+        await journey.run(context);
+      } catch (caught) {
+        error = messageOf(caught);
+      }
+      result.iterations.push({
+        journey: journey.name,
+        virtualUser: id,
+        durationMs: Math.round(performance.now() - start),
+        ...(error === undefined ? {} : { error }),
+      });
+
+      if (options.thinkTimeMs > 0) {
+        await sleep(options.thinkTimeMs);
+      }
+    }
+  } finally {
+    await scenario.teardown?.(context);
+  }
+}
+
+/**
+ * Run the scenario's journeys as concurrent virtual users for `durationMs`,
+ * collecting per-iteration outcomes and per-request latencies from the HTTP log
+ * @param log - Log the scenario's clients write to; cleared as the run goes to bound memory
+ */
+export async function runLoad<C>(
+  scenario: LoadScenario<C>,
+  options: LoadOptions = loadOptions(),
+  log: HttpLog = httpLog
+): Promise<LoadResult> {
+  if (scenario.journeys.length === 0) {
+    throw new Error('A load scenario needs at least one journey');
+  }
+
+  const start = Date.now();
+  const result: LoadResult = {
+    options,
+    startedAt: new Date(start).toISOString(),
+    elapsedMs: 0,
+    iterations: [],
+    requests: [],
+    unanswered: 0,
+    setupFailures: [],
+  };
+
+  const unsubscribe = log.subscribe(exchange => {
+    const sample = latencySample(exchange);
+    if (sample) {
+      result.requests.push(sample);
+    } else {
+      result.unanswered++;
+    }
+    log.clear();
+  });
+
+  try {
+    const users = Array.from({ length: options.virtualUsers }, (_, id) =>
+      virtualUser(id, scenario, options, start + options.durationMs, result)
+    );
+    await Promise.all(users);
+  } finally {
+    unsubscribe();
+  }
+
+  result.elapsedMs = Date.now() - start;
+  return result;
+}
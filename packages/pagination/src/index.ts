@@ -0,0 +1,4 @@
+/**
+ * skip/limit pagination shared by the Playwright and Axios `paginate` helpers
+ */
+export * from './paginate';
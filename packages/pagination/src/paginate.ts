@@ -0,0 +1,135 @@
+import type { ListQuery } from '@saucedemo/contracts';
+
+/**
+ * Envelope shared by every DummyJSON list response
+ */
+export interface ListPage {
+  total: number;
+  skip: number;
+  limit: number;
+}
+
+/**
+ * Item type of a list page, e.g. `Product` for `ProductList`
+ */
+export type ListItem<P> = {
+  [K in keyof P]: P[K] extends ReadonlyArray<infer Item> ? Item : never;
+}[keyof P];
+
+export interface PaginateOptions {
+  /** Items requested per page (default: 30, the DummyJSON default) */
+  pageSize?: number;
+  /** Stop after this many items (default: all `total` items) */
+  maxItems?: number;
+  /** Pages requested in parallel after the first one (default: 1) */
+  concurrency?: number;
+  /** Sort and select options sent with every page */
+  query?: Omit<ListQuery, 'skip' | 'limit'>;
+}
+
+/**
+ * Fetches and validates one page
+ */
+export type PageFetcher<P extends ListPage> = (query: ListQuery) => Promise<P>;
+
+const DEFAULT_PAGE_SIZE = 30;
+
+/**
+ * Thrown when a page cannot be walked (bad options or no item array)
+ */
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+function positiveInteger(value: number | undefined, fallback: number, name: string): number {
+  const resolved = value ?? fallback;
+  if (!Number.isInteger(resolved) || resolved < 1) {
+    throw new PaginationError(`${name} must be a positive integer, got ${value}`);
+  }
+  return resolved;
+}
+
+function itemsOf<P extends ListPage>(page: P): Array<ListItem<P>> {
+  const arrays = Object.values(page).filter(Array.isArray);
+  if (arrays.length !== 1) {
+    throw new PaginationError(`Expected one item array in a list page, found ${arrays.length}`);
+  }
+  return arrays[0];
+}
+
+/**
+ * Walk a list endpoint with skip/limit and yield its items in order.
+ *
+ * The first page supplies `total`; the remaining pages are requested in
+ * batches of `concurrency` once the previous batch is consumed, and are
+ * yielded in order. The walk stops at
+ * `total` (or `maxItems`), or early if a page comes back empty.
+ */
+export async function* paginateList<P extends ListPage>(
+  fetchPage: PageFetcher<P>,
+  options: PaginateOptions = {}
+): AsyncGenerator<ListItem<P>, void, undefined> {
+  const pageSize = positiveInteger(options.pageSize, DEFAULT_PAGE_SIZE, 'pageSize');
+  const concurrency = positiveInteger(options.concurrency, 1, 'concurrency');
+  const maxItems = options.maxItems ?? Infinity;
+  if (maxItems <= 0) {
+    return;
+  }
+
+  // limit=0 means "everything" to DummyJSON, so never request it
+  const request = (skip: number, end: number) =>
+    fetchPage({ ...options.query, skip, limit: Math.min(pageSize, end - skip) });
+
+  const first = await request(0, Math.min(pageSize, maxItems));
+  const end = Math.min(first.total, maxItems);
+  const pending: Array<Promise<P>> = [];
+  let nextSkip = pageSize;
+
+  const fill = () => {
+    while (pending.length < concurrency && nextSkip < end) {
+      const page = request(nextSkip, end);
+      // A page fetched ahead may fail while earlier items are still being
+      // consumed, or never be awaited after an early stop; the consumer still
+      // gets the error from the original promise
+      page.catch(() => undefined);
+      pending.push(page);
+      nextSkip += pageSize;
+    }
+  };
+
+  const nextPage = async (): Promise<P | undefined> => {
+    if (pending.length === 0) {
+      fill();
+    }
+    return pending.shift();
+  };
+
+  let yielded = 0;
+  for (let page: P | undefined = first; page; page = await nextPage()) {
+    const items = itemsOf(page);
+    if (items.length === 0) {
+      return;
+    }
+    for (const item of items) {
+      if (yielded >= end) {
+        return;
+      }
+      yielded++;
+      yield item;
+    }
+  }
+}
+
+/**
+ * Drain an async iterable into an array
+ */
+export async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
@@ -0,0 +1,6 @@
+/**
+ * Scenario and route parity between the Playwright and Vitest suites, from
+ * their JSON results and the coverage hits each test recorded
+ */
+export * from './parity';
+export * from './report';
@@ -0,0 +1,121 @@
+import type { CoverageHit } from '@saucedemo/api-coverage';
+import type { TestResult } from '@saucedemo/test-results';
+
+/**
+ * One scenario (spec area + test title) and where it runs
+ */
+export interface ParityScenario {
+  /** `auth > post /auth/login - fail with invalid credentials` */
+  key: string;
+  /** Title path of the test in each suite that has it */
+  tests: Record<string, string[]>;
+  /** Operations the tests sent requests to, e.g. `GET /carts/{id}` */
+  routes: string[];
+}
+
+export interface ParitySide<T> {
+  shared: T[];
+  /** Per suite, what only that suite has */
+  only: Record<string, T[]>;
+  /** Shared share of everything either suite has, in percent */
+  parity: number;
+}
+
+export interface ParityReport {
+  generatedAt: string;
+  suites: [string, string];
+  scenarios: ParitySide<ParityScenario>;
+  /** `GET /products/{id} 404`: documented operation × status pairs exercised */
+  routes: ParitySide<string>;
+  /** Tests left out because they sent no API request (e.g. package unit tests) */
+  excluded: number;
+}
+
+/**
+ * Same scenario in both suites: same spec area (`auth.spec.ts` and
+ * `auth.test.ts` are both `auth`) and same test title, ignoring case and spacing.
+ * Describe titles differ between the suites (`... Tests - Axios`), so they do not count.
+ */
+export function scenarioKey(titlePath: string[]): string {
+  const area = titlePath[0].replace(/\.(spec|test)\.[cm]?[jt]s$/, '');
+  const title = titlePath[titlePath.length - 1].toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${area} > ${title}`;
+}
+
+function percent(shared: number, total: number): number {
+  return total === 0 ? 100 : Math.round((shared / total) * 1000) / 10;
+}
+
+function side<T>(keys: Map<string, Set<string>>, suites: [string, string], value: (key: string) => T): ParitySide<T> {
+  const all = [...keys.keys()].sort();
+  const shared = all.filter(key => suites.every(suite => keys.get(key)!.has(suite)));
+  return {
+    shared: shared.map(value),
+    only: Object.fromEntries(
+      suites.map(suite => [suite, all.filter(key => keys.get(key)!.size === 1 && keys.get(key)!.has(suite)).map(value)])
+    ),
+    parity: percent(shared.length, all.length),
+  };
+}
+
+/**
+ * Match the two suites' tests by scenario and their coverage hits by route.
+ * When the hits name their tests, tests that sent no request are left out
+ * and each scenario lists the operations it exercised.
+ */
+export function compareSuites(
+  tests: Record<string, Pick<TestResult, 'titlePath' | 'status'>[]>,
+  hits: CoverageHit[] = [],
+  suites = Object.keys(tests) as [string, string]
+): ParityReport {
+  const routesByTest = new Map<string, Set<string>>();
+  for (const hit of hits) {
+    if (hit.test && hit.operation) {
+      const id = `${hit.suite} :: ${hit.test}`;
+      routesByTest.set(id, (routesByTest.get(id) ?? new Set()).add(`${hit.method} ${hit.path}`));
+    }
+  }
+  const attributed = hits.some(hit => hit.test);
+
+  let excluded = 0;
+  const scenarios = new Map<string, ParityScenario>();
+  const scenarioSuites = new Map<string, Set<string>>();
+  for (const suite of suites) {
+    for (const test of tests[suite] ?? []) {
+      const routes = routesByTest.get(`${suite} :: ${test.titlePath.join(' > ')}`);
+      if (attributed && !routes && test.status !== 'skipped') {
+        excluded += 1;
+        continue;
+      }
+      const key = scenarioKey(test.titlePath);
+      const scenario = scenarios.get(key) ?? { key, tests: {}, routes: [] };
+      scenario.tests[suite] ??= test.titlePath;
+      scenario.routes = [...new Set([...scenario.routes, ...(routes ?? [])])].sort();
+      scenarios.set(key, scenario);
+      scenarioSuites.set(key, (scenarioSuites.get(key) ?? new Set()).add(suite));
+    }
+  }
+
+  const routeSuites = new Map<string, Set<string>>();
+  for (const hit of hits.filter(hit => hit.operation && suites.includes(hit.suite))) {
+    const key = `${hit.method} ${hit.path} ${hit.status}`;
+    routeSuites.set(key, (routeSuites.get(key) ?? new Set()).add(hit.suite));
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    suites,
+    scenarios: side(scenarioSuites, suites, key => scenarios.get(key)!),
+    routes: side(routeSuites, suites, key => key),
+    excluded,
+  };
+}
+
+/**
+ * Failure messages when scenario or route parity is below `threshold` percent
+ */
+export function parityShortfalls(report: ParityReport, threshold: number): string[] {
+  return (['scenarios', 'routes'] as const)
+    .filter(kind => report[kind].parity < threshold)
+    .map(kind => `${kind === 'scenarios' ? 'Scenario' : 'Route'} parity ${report[kind].parity}% is below ${threshold}%`);
+}
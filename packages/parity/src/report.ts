@@ -0,0 +1,53 @@
+import type { ParityReport, ParityScenario } from './parity';
+
+/**
+ * PARITY_THRESHOLD (percent) makes the parity check fail below it; unset only reports
+ */
+export function parityThreshold(): number | undefined {
+  const value = process.env.PARITY_THRESHOLD;
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const threshold = Number(value);
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    throw new Error(`PARITY_THRESHOLD must be a percentage between 0 and 100, got "${value}"`);
+  }
+  return threshold;
+}
+
+function scenarioRow(scenario: ParityScenario, suite: string): string {
+  const routes = scenario.routes.length > 0 ? scenario.routes.map(route => `\`${route}\``).join(', ') : '-';
+  return `| ${scenario.tests[suite].join(' › ')} | ${routes} |`;
+}
+
+/**
+ * Markdown summary: parity percentages, then what each suite has on its own
+ */
+export function formatParityReport(report: ParityReport): string {
+  const { scenarios, routes, suites } = report;
+  const [first, second] = suites;
+  const lines = [
+    '# Framework Parity',
+    '',
+    `- Scenario parity: **${scenarios.parity}%** (${scenarios.shared.length} in both, ` +
+      `${scenarios.only[first].length} only in ${first}, ${scenarios.only[second].length} only in ${second})`,
+    `- Route parity: **${routes.parity}%** (${routes.shared.length} operation/status pairs exercised by both, ` +
+      `${routes.only[first].length} only by ${first}, ${routes.only[second].length} only by ${second})`,
+  ];
+  if (report.excluded > 0) {
+    lines.push(`- ${report.excluded} tests sent no API request and are left out`);
+  }
+
+  for (const suite of suites) {
+    if (scenarios.only[suite].length > 0) {
+      lines.push('', `## Scenarios only in ${suite}`, '', '| Test | Routes |', '|------|--------|');
+      lines.push(...scenarios.only[suite].map(scenario => scenarioRow(scenario, suite)));
+    }
+  }
+  for (const suite of suites) {
+    if (routes.only[suite].length > 0) {
+      lines.push('', `## Routes only exercised by ${suite}`, '', ...routes.only[suite].map(route => `- \`${route}\``));
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,135 @@
+import { endpoints } from '@saucedemo/contracts';
+import type { ImportedCollection, ImportedRequest } from './import';
+
+export type SpecTarget = 'playwright' | 'vitest';
+
+/** Persona standing in for a collection's bearer token */
+const PERSONA = 'emilys';
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * JS source for a JSON value: single quotes, bare keys, one entry per line
+ */
+function literal(value: unknown, indent: string): string {
+  if (typeof value === 'string') {
+    return quote(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  const inner = `${indent}  `;
+  const entries = Array.isArray(value)
+    ? value.map(item => literal(item, inner))
+    : Object.entries(value).map(([key, item]) => `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key)}: ${literal(item, inner)}`);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+  if (entries.length === 0) {
+    return `${open}${close}`;
+  }
+  const inline = Array.isArray(value) ? `[${entries.join(', ')}]` : `{ ${entries.join(', ')} }`;
+  return inline.length <= 60 && !inline.includes('\n')
+    ? inline
+    : `${open}\n${entries.map(entry => `${inner}${entry},`).join('\n')}\n${indent}${close}`;
+}
+
+function url({ endpoint, path }: ImportedRequest): string {
+  if (!endpoint) {
+    return quote(path);
+  }
+  const [group, key] = endpoint.name.split('.');
+  const entry = (endpoints as Record<string, Record<string, unknown>>)[group][key];
+  return typeof entry === 'function'
+    ? `endpoints.${endpoint.name}(${endpoint.args.map(arg => literal(arg, '')).join(', ')})`
+    : `endpoints.${endpoint.name}`;
+}
+
+function options(request: ImportedRequest, target: SpecTarget, indent: string): string[] {
+  const fields = [
+    `method: ${quote(request.method)},`,
+    ...(target === 'vitest' ? [`url: ${url(request)},`] : []),
+    ...(Object.keys(request.query).length > 0 ? [`params: ${literal(request.query, indent)},`] : []),
+    ...(request.body === undefined ? [] : [`data: ${literal(request.body, indent)},`]),
+    ...(Object.keys(request.headers).length > 0 ? [`headers: ${literal(request.headers, indent)},`] : []),
+    ...(target === 'vitest' ? ['validateStatus: () => true,'] : []),
+  ];
+  return fields.map(field => `${indent}${field}`);
+}
+
+function playwrightTest(request: ImportedRequest): string[] {
+  const client = request.authenticated ? 'api' : 'anonApi';
+  const lines = [
+    ...(request.authenticated ? [`    const api = await authedApi({ persona: '${PERSONA}' });`] : []),
+    `    const response = await ${client}.fetch(${url(request)}, {`,
+    ...options(request, 'playwright', '      '),
+    '    });',
+    '',
+    request.status === undefined ? '    expect(response.ok()).toBe(true);' : `    expect(response.status()).toBe(${request.status});`,
+    ...(request.schema ? [`    await expect(response).toMatchSchema(${request.schema});`] : []),
+  ];
+  const fixture = request.authenticated ? '{ authedApi }' : '{ anonApi }';
+  return [`  test${request.runnable ? '' : '.skip'}(${quote(request.title)}, async (${fixture}) => {`, ...lines, '  });'];
+}
+
+function vitestTest(request: ImportedRequest): string[] {
+  const client = request.authenticated ? `createAuthenticatedClient(sessions.session('${PERSONA}'))` : 'api';
+  const lines = [
+    `    const response = await ${client}.request({`,
+    ...options(request, 'vitest', '      '),
+    '    });',
+    '',
+    ...(request.status === undefined
+      ? ['    expect(response.status).toBeGreaterThanOrEqual(200);', '    expect(response.status).toBeLessThan(300);']
+      : [`    expect(response.status).toBe(${request.status});`]),
+    ...(request.schema ? [`    await expect(response).toMatchSchema(${request.schema});`] : []),
+  ];
+  return [`  test${request.runnable ? '' : '.skip'}(${quote(request.title)}, async () => {`, ...lines, '  });'];
+}
+
+function contractsImport(requests: ImportedRequest[]): string[] {
+  const names = [
+    ...(requests.some(request => request.endpoint) ? ['endpoints'] : []),
+    ...[...new Set(requests.flatMap(request => (request.schema ? [request.schema] : [])))].sort(),
+  ];
+  if (names.length === 0) {
+    return [];
+  }
+  const line = `import { ${names.join(', ')} } from '@saucedemo/contracts';`;
+  return line.length <= 100 ? [line] : ['import {', ...names.map(name => `  ${name},`), "} from '@saucedemo/contracts';"];
+}
+
+/**
+ * Spec source for an imported collection: one test per request, in the
+ * Playwright suite's fixture style or the Vitest suite's Axios style
+ */
+export function renderSpec(collection: ImportedCollection, target: SpecTarget): string {
+  const { requests } = collection;
+  const imports =
+    target === 'playwright'
+      ? [...contractsImport(requests), "import { test, expect } from './fixtures';"]
+      : [
+          "import { describe, test, expect } from 'vitest';",
+          ...contractsImport(requests),
+          `import { api${requests.some(request => request.authenticated) ? ', createAuthenticatedClient' : ''} } from '../client';`,
+          ...(requests.some(request => request.authenticated) ? ["import { sessions } from '../session';"] : []),
+        ];
+  const tests = requests.map(request => [
+    ...request.notes.map(note => `  // Postman import: ${note}`),
+    ...(target === 'playwright' ? playwrightTest(request) : vitestTest(request)),
+  ]);
+
+  return [
+    '/**',
+    ` * Generated by \`npm run import:postman\` from the "${collection.name}" Postman collection.`,
+    ' * Review the notes and skipped tests before moving requests into the suite.',
+    ' */',
+    ...imports,
+    '',
+    `${target === 'playwright' ? 'test.describe' : 'describe'}(${quote(`${collection.name} (Postman)`)}, () => {`,
+    tests.map(lines => lines.join('\n')).join('\n\n'),
+    '});',
+    '',
+  ].join('\n');
+}
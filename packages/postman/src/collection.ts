@@ -0,0 +1,136 @@
+/**
+ * Subset of the Postman Collection v2.1 format
+ * (https://schema.getpostman.com/json/collection/v2.1.0/collection.json) read and written here
+ */
+export const POSTMAN_COLLECTION_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+export interface PostmanVariable {
+  key: string;
+  value?: unknown;
+  type?: string;
+  description?: string;
+  disabled?: boolean;
+}
+
+export interface PostmanQueryParam {
+  key: string;
+  value?: string | null;
+  description?: string;
+  disabled?: boolean;
+}
+
+export interface PostmanHeader {
+  key: string;
+  value: string;
+  disabled?: boolean;
+}
+
+export interface PostmanUrl {
+  raw?: string;
+  host?: string[];
+  path?: string[];
+  query?: PostmanQueryParam[];
+  /** Values of `:name` path segments */
+  variable?: PostmanVariable[];
+}
+
+export interface PostmanAuth {
+  type: string;
+  bearer?: PostmanVariable[];
+}
+
+export interface PostmanBody {
+  mode: string;
+  raw?: string;
+  options?: { raw?: { language?: string } };
+}
+
+export interface PostmanRequest {
+  method?: string;
+  header?: PostmanHeader[];
+  url?: PostmanUrl | string;
+  body?: PostmanBody;
+  auth?: PostmanAuth;
+  description?: string;
+}
+
+export interface PostmanEvent {
+  listen: 'test' | 'prerequest';
+  script: { type: 'text/javascript'; exec: string[] };
+}
+
+/** Saved example response */
+export interface PostmanExample {
+  name?: string;
+  code?: number;
+}
+
+/**
+ * A request, or a folder when `item` is present
+ */
+export interface PostmanItem {
+  name: string;
+  description?: string;
+  request?: PostmanRequest | string;
+  response?: PostmanExample[];
+  item?: PostmanItem[];
+  /** Folder auth, inherited by its requests */
+  auth?: PostmanAuth;
+  event?: PostmanEvent[];
+}
+
+export interface PostmanCollection {
+  info: { name: string; schema: string; description?: string; _postman_id?: string };
+  item: PostmanItem[];
+  auth?: PostmanAuth;
+  event?: PostmanEvent[];
+  variable?: PostmanVariable[];
+}
+
+export interface PostmanEnvironment {
+  name: string;
+  values: { key: string; value: string; type: 'default' | 'secret'; enabled: boolean }[];
+  _postman_variable_scope: 'environment';
+}
+
+/**
+ * Thrown when a file is not a Postman v2.1 collection
+ */
+export class PostmanFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PostmanFormatError';
+  }
+}
+
+/**
+ * Parse a collection export, accepting only the v2.1 format
+ * @throws PostmanFormatError
+ */
+export function parsePostmanCollection(text: string): PostmanCollection {
+  let collection: Partial<PostmanCollection>;
+  try {
+    collection = JSON.parse(text);
+  } catch (error) {
+    throw new PostmanFormatError(`Not JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const schema = collection.info?.schema ?? '';
+  if (!schema.includes('/v2.1.')) {
+    throw new PostmanFormatError(
+      `Expected a Postman v2.1 collection (info.schema ${POSTMAN_COLLECTION_SCHEMA}), got "${schema || 'none'}". ` +
+        'Re-export it from Postman as Collection v2.1.'
+    );
+  }
+  if (!Array.isArray(collection.item)) {
+    throw new PostmanFormatError('Collection has no item array');
+  }
+  return collection as PostmanCollection;
+}
+
+/**
+ * Postman variable reference, e.g. `{{API_BASE_URL}}`
+ */
+export function variable(name: string): string {
+  return `{{${name}}}`;
+}
@@ -0,0 +1,331 @@
+import { personas } from '@saucedemo/auth-session';
+import { findOperation, operations, toJsonSchema, ApiOperation } from '@saucedemo/contracts';
+import { buildRequest, parsePath, schemaNamed, ScenarioFile, ScenarioStep } from '@saucedemo/scenarios';
+import type { ZodTypeAny } from 'zod';
+import {
+  variable,
+  PostmanAuth,
+  PostmanCollection,
+  PostmanEnvironment,
+  PostmanEvent,
+  PostmanItem,
+  PostmanQueryParam,
+  PostmanRequest,
+  PostmanUrl,
+  POSTMAN_COLLECTION_SCHEMA,
+} from './collection';
+
+/** Environment variable holding the API origin, as in both suites */
+export const BASE_URL_VARIABLE = 'API_BASE_URL';
+/** Set by the login and refresh requests' test scripts; sent as the bearer token */
+export const TOKEN_VARIABLES = ['accessToken', 'refreshToken'] as const;
+
+const FOLDERS: Record<ApiOperation['tag'], string> = {
+  auth: 'Auth',
+  products: 'Products',
+  carts: 'Carts',
+  users: 'Users',
+};
+
+const PATH_EXAMPLES: Record<string, string> = { id: '1', userId: '1', category: 'smartphones' };
+const QUERY_EXAMPLES: Record<string, string> = { q: 'phone', key: 'hair.color', value: 'Brown' };
+
+const EXAMPLE_BODIES: Record<string, unknown> = {
+  login: { ...personas.emilys, expiresInMins: 30 },
+  refreshSession: { refreshToken: variable('refreshToken'), expiresInMins: 30 },
+  addCart: { userId: 1, products: [{ id: 1, quantity: 2 }] },
+  updateCart: { merge: true, products: [{ id: 1, quantity: 3 }] },
+  addUser: { firstName: 'Ada', lastName: 'Lovelace', age: 36 },
+  updateUser: { lastName: 'Byron' },
+};
+
+/**
+ * Example request body of an operation, valid against its body schema
+ */
+export function exampleBody(operationId: string): unknown {
+  return EXAMPLE_BODIES[operationId];
+}
+
+const bearer: PostmanAuth = { type: 'bearer', bearer: [{ key: 'token', value: variable('accessToken'), type: 'string' }] };
+
+/** Test script lines storing the login or refresh response's tokens in the environment */
+const STORE_TOKENS = ['const json = pm.response.json();', ...TOKEN_VARIABLES.map(name => `pm.environment.set('${name}', json.${name});`)];
+
+function script(listen: PostmanEvent['listen'], lines: string[]): PostmanEvent {
+  return { listen, script: { type: 'text/javascript', exec: lines } };
+}
+
+function schemaTest(name: string, schema: ZodTypeAny): string {
+  return `pm.test('matches ${name}', () => pm.response.to.have.jsonSchema(${JSON.stringify(toJsonSchema(schema))}));`;
+}
+
+function statusTest(status: number | undefined): string {
+  return status === undefined
+    ? "pm.test('status is 2xx', () => pm.expect(pm.response.code).to.be.within(200, 299));"
+    : `pm.test('status is ${status}', () => pm.response.to.have.status(${status}));`;
+}
+
+function urlOf(path: string, query: PostmanQueryParam[] = [], variables: PostmanUrl['variable'] = []): PostmanUrl {
+  const segments = path.split('/').filter(Boolean);
+  const enabled = query.filter(param => !param.disabled);
+  const search = enabled.length > 0 ? `?${enabled.map(param => `${param.key}=${param.value ?? ''}`).join('&')}` : '';
+  return {
+    raw: `${variable(BASE_URL_VARIABLE)}/${segments.join('/')}${search}`,
+    host: [variable(BASE_URL_VARIABLE)],
+    path: segments,
+    ...(query.length > 0 ? { query } : {}),
+    ...(variables.length > 0 ? { variable: variables } : {}),
+  };
+}
+
+function rawBody(body: unknown): Pick<PostmanRequest, 'header' | 'body'> {
+  return {
+    header: [{ key: 'Content-Type', value: 'application/json' }],
+    body: { mode: 'raw', raw: JSON.stringify(body, null, 2), options: { raw: { language: 'json' } } },
+  };
+}
+
+function operationItem(operation: ApiOperation): PostmanItem {
+  const success = Object.keys(operation.responses).map(Number).filter(code => code >= 200 && code < 300).sort()[0];
+  const names = operation.path.match(/\{\w+\}/g)?.map(name => name.slice(1, -1)) ?? [];
+  const path = operation.path.replace(/\{(\w+)\}/g, ':$1');
+  const shape: Record<string, ZodTypeAny> = operation.query?.shape ?? {};
+  const query = Object.entries(shape).map(([key, schema]): PostmanQueryParam => ({
+    key,
+    value: QUERY_EXAMPLES[key] ?? '',
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.isOptional() ? { disabled: true } : {}),
+  }));
+
+  const body = exampleBody(operation.id);
+  const tests = [statusTest(success), ...(success ? [schemaTest(operation.id, operation.responses[success])] : [])];
+  if (operation.id === 'login' || operation.id === 'refreshSession') {
+    tests.push(...STORE_TOKENS);
+  }
+
+  return {
+    name: operation.summary,
+    request: {
+      method: operation.method,
+      ...(body === undefined ? { header: [] } : rawBody(body)),
+      url: urlOf(path, query, names.map(name => ({ key: name, value: PATH_EXAMPLES[name] ?? '' }))),
+      ...(operation.authenticated ? { auth: bearer } : {}),
+      description: `\`${operation.id}\`: ${operation.method} ${operation.path}`,
+    },
+    event: [script('test', tests)],
+  };
+}
+
+/**
+ * JS accessor for a JSONPath on the parsed response, e.g. `json.products[0].id`
+ */
+export function accessor(path: string): string {
+  return parsePath(path)
+    .map(segment => {
+      if (typeof segment === 'number') {
+        return segment < 0 ? `.slice(${segment})[0]` : `[${segment}]`;
+      }
+      return /^[A-Za-z_$][\w$]*$/.test(segment) ? `.${segment}` : `[${JSON.stringify(segment)}]`;
+    })
+    .reduce((expression, part) => expression + part, 'json');
+}
+
+/**
+ * Scope of a scenario variable. Tokens live in the environment, which would
+ * shadow a collection variable of the same name.
+ */
+function scope(name: string): string {
+  return (TOKEN_VARIABLES as readonly string[]).includes(name) ? 'pm.environment' : 'pm.collectionVariables';
+}
+
+/**
+ * JS expression for a scenario value, with `${name}` references read from their scope
+ */
+function expression(value: unknown): string {
+  if (typeof value === 'string') {
+    const whole = /^\$\{(\w+)\}$/.exec(value);
+    if (whole) {
+      return `${scope(whole[1])}.get('${whole[1]}')`;
+    }
+    if (/\$\{\w+\}/.test(value)) {
+      const escaped = value.replace(/[`\\]/g, '\\$&');
+      return `\`${escaped.replace(/\$\{(\w+)\}/g, (_, name: string) => `\${${scope(name)}.get('${name}')}`)}\``;
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(expression).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{ ${Object.entries(value).map(([key, item]) => `${JSON.stringify(key)}: ${expression(item)}`).join(', ')} }`;
+  }
+  return JSON.stringify(value);
+}
+
+function referencedVariables(step: ScenarioStep): string[] {
+  const text = JSON.stringify([step.params, step.query, step.headers, step.body, step.expect.match]);
+  return [...new Set([...text.matchAll(/\$\{(\w+)\}/g)].map(match => match[1]))];
+}
+
+function scenarioItem(step: ScenarioStep, initial: Record<string, unknown>): PostmanItem {
+  const names = referencedVariables(step);
+  const request = buildRequest(step, Object.fromEntries(names.map(name => [name, variable(name)])));
+
+  // Postman substitutes {{name}} as text; building the body in a script keeps numbers numbers
+  const prerequest = Object.entries(initial).map(([name, value]) => `${scope(name)}.set('${name}', ${JSON.stringify(value)});`);
+  if (step.body !== undefined && names.length > 0) {
+    prerequest.push(`pm.request.body.update(JSON.stringify(${expression(step.body)}, null, 2));`);
+  }
+
+  const { status, schema, match } = step.expect;
+  const tests = [statusTest(status)];
+  if (schema) {
+    tests.push(schemaTest(schema, schemaNamed(schema)!));
+  }
+  if (match || step.extract) {
+    tests.push('const json = pm.response.json();');
+  }
+  for (const [path, expected] of Object.entries(match ?? {})) {
+    tests.push(`pm.test('${path}', () => pm.expect(${accessor(path)}).to.eql(${expression(expected)}));`);
+  }
+  for (const [name, path] of Object.entries(step.extract ?? {})) {
+    tests.push(`${scope(name)}.set('${name}', ${accessor(path)});`);
+  }
+
+  const query = Object.entries(request.query ?? {}).map(([key, value]) => ({ key, value: String(value) }));
+  const body: Pick<PostmanRequest, 'header' | 'body'> = request.body === undefined ? {} : rawBody(request.body);
+  return {
+    name: step.name,
+    request: {
+      method: request.method,
+      ...body,
+      header: [...(body.header ?? []), ...Object.entries(request.headers ?? {}).map(([key, value]) => ({ key, value }))],
+      url: urlOf(request.path, query),
+    },
+    event: [...(prerequest.length > 0 ? [script('prerequest', prerequest)] : []), script('test', tests)],
+  };
+}
+
+function scenarioFolder({ file, scenario }: ScenarioFile): PostmanItem {
+  return {
+    name: scenario.name,
+    description: [scenario.description, `From scenarios/${file}; run the folder in order.`].filter(Boolean).join('\n\n'),
+    item: scenario.steps.map((step, i) => scenarioItem(step, i === 0 ? scenario.variables : {})),
+  };
+}
+
+/**
+ * One request of a traced journey, e.g. an HTTP log exchange
+ */
+export interface JourneyRequest {
+  method: string;
+  /** Absolute URL as sent */
+  url: string;
+  body?: unknown;
+  /** Status the journey got, asserted by the exported request */
+  status?: number;
+}
+
+/**
+ * A multi-step test flow (e.g. a checkout journey) as the requests it sent, in order
+ */
+export interface PostmanJourney {
+  name: string;
+  description?: string;
+  requests: JourneyRequest[];
+}
+
+function operationOf({ method, url }: JourneyRequest): ApiOperation | undefined {
+  return findOperation(method, new URL(url).pathname);
+}
+
+function journeyItem(request: JourneyRequest): PostmanItem {
+  const { method, body, status } = request;
+  const { pathname, searchParams } = new URL(request.url);
+  const operation = operationOf(request);
+  const schema = operation && status !== undefined ? operation.responses[status] : undefined;
+
+  const tests = [statusTest(status), ...(operation && schema ? [schemaTest(operation.id, schema)] : [])];
+  if (operation?.id === 'login' || operation?.id === 'refreshSession') {
+    tests.push(...STORE_TOKENS);
+  }
+
+  return {
+    name: operation?.summary ?? `${method} ${pathname}`,
+    request: {
+      method,
+      ...(body === undefined ? { header: [] } : rawBody(body)),
+      url: urlOf(pathname, [...searchParams].map(([key, value]) => ({ key, value }))),
+      ...(operation?.id === 'login' ? {} : { auth: bearer }),
+      description: operation ? `\`${operation.id}\`: ${method} ${pathname}` : `${method} ${pathname}`,
+    },
+    event: [script('test', tests)],
+  };
+}
+
+/**
+ * Journey as a folder run in order: a login first (the journey's own, or the
+ * catalog's), then its requests with the `{{accessToken}}` it stored
+ */
+function journeyFolder({ name, description, requests }: PostmanJourney): PostmanItem {
+  const login = operations.filter(operation => operation.id === 'login');
+  const ownLogin = requests.length > 0 && operationOf(requests[0])?.id === 'login';
+
+  return {
+    name,
+    description: [description, 'Traced from the test suite; run the folder in order.'].filter(Boolean).join('\n\n'),
+    item: [...(ownLogin ? [] : login.map(operationItem)), ...requests.map(journeyItem)],
+  };
+}
+
+export interface PostmanExportOptions {
+  name?: string;
+  /** Scenario files exported as one folder each, under `Scenarios` */
+  scenarios?: ScenarioFile[];
+  /** Traced test flows exported as one folder each, under `Journeys` */
+  journeys?: PostmanJourney[];
+}
+
+/**
+ * Collection with one folder per tag (a request per catalog operation, with
+ * status and JSON Schema tests) plus the scenario files and traced journeys
+ * as runnable folders
+ */
+export function buildPostmanCollection({
+  name = 'DummyJSON API',
+  scenarios = [],
+  journeys = [],
+}: PostmanExportOptions = {}): PostmanCollection {
+  const folders = (Object.keys(FOLDERS) as ApiOperation['tag'][]).map(
+    (tag): PostmanItem => ({ name: FOLDERS[tag], item: operations.filter(operation => operation.tag === tag).map(operationItem) })
+  );
+
+  return {
+    info: {
+      name,
+      description:
+        `Generated from the @saucedemo/contracts operation catalog. Select an environment defining {{${BASE_URL_VARIABLE}}}; ` +
+        'run Auth > login first to fill {{accessToken}} and {{refreshToken}}.',
+      schema: POSTMAN_COLLECTION_SCHEMA,
+    },
+    item: [
+      ...folders,
+      ...(scenarios.length > 0 ? [{ name: 'Scenarios', item: scenarios.map(scenarioFolder) }] : []),
+      ...(journeys.length > 0 ? [{ name: 'Journeys', item: journeys.map(journeyFolder) }] : []),
+    ],
+  };
+}
+
+/**
+ * Environment with the base URL and (empty, secret) token variables
+ */
+export function buildPostmanEnvironment(baseURL = 'https://dummyjson.com', name = 'DummyJSON'): PostmanEnvironment {
+  return {
+    name,
+    values: [
+      { key: BASE_URL_VARIABLE, value: baseURL, type: 'default', enabled: true },
+      ...TOKEN_VARIABLES.map(key => ({ key, value: '', type: 'secret' as const, enabled: true })),
+    ],
+    _postman_variable_scope: 'environment',
+  };
+}
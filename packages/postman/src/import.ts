@@ -0,0 +1,249 @@
+import { endpoints, findOperation } from '@saucedemo/contracts';
+import { schemaNameOf } from '@saucedemo/scenarios';
+import type { PostmanAuth, PostmanCollection, PostmanItem, PostmanRequest, PostmanUrl } from './collection';
+
+type Endpoint = string | ((...args: never[]) => string);
+
+/**
+ * `endpoints` entry a request path resolves to, e.g. `products.single` with `[1]`
+ */
+export interface EndpointCall {
+  name: string;
+  args: (string | number)[];
+}
+
+/**
+ * One collection request, mapped onto the repo's endpoints and contracts
+ */
+export interface ImportedRequest {
+  /** Folder and request names, joined with " / " */
+  title: string;
+  method: string;
+  /** Path with variables substituted and no query string */
+  path: string;
+  /** Undefined when no `endpoints` entry matches `path` */
+  endpoint?: EndpointCall;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  /** Parsed JSON when the raw body is JSON, the raw text otherwise */
+  body?: unknown;
+  /** Bearer auth on the request, a parent folder or the collection */
+  authenticated: boolean;
+  /** From the request's test script, its first saved example or the operation's success status */
+  status?: number;
+  /** Contract schema export for `status`, e.g. `productSchema` */
+  schema?: string;
+  /** False when a variable or path parameter has no value; generated as a skipped test */
+  runnable: boolean;
+  /** What could not be carried over (unresolved variables, unknown paths, form bodies) */
+  notes: string[];
+}
+
+export interface ImportedCollection {
+  name: string;
+  requests: ImportedRequest[];
+}
+
+export interface PostmanImportOptions {
+  /** Values for `{{name}}` references, e.g. from an environment; override collection variables */
+  variables?: Record<string, string>;
+}
+
+const STATUS_ASSERTIONS = [/pm\.response\.to\.have\.status\((\d{3})\)/, /pm\.response\.code\)\.to\.(?:eql|equal)\((\d{3})\)/];
+
+function substitute(text: string, variables: Record<string, string>, notes: Set<string>): string {
+  return text.replace(/\{\{([^{}]+)\}\}/g, (reference, name: string) => {
+    if (Object.hasOwn(variables, name)) {
+      return variables[name];
+    }
+    notes.add(`Unresolved variable ${reference}`);
+    return reference;
+  });
+}
+
+/**
+ * Path and query of a request URL, dropping the host (`{{API_BASE_URL}}` or an origin)
+ */
+function splitUrl(url: PostmanUrl | string, variables: Record<string, string>, notes: Set<string>) {
+  if (typeof url === 'string' || !url.path) {
+    const raw = typeof url === 'string' ? url : (url.raw ?? '');
+    const relative = raw.replace(/^(\{\{[^{}]+\}\}|[a-z]+:\/\/[^/?#]+)/i, '').replace(/#.*$/, '');
+    const [path, search = ''] = relative.split('?');
+    return {
+      path: substitute(path.startsWith('/') ? path : `/${path}`, variables, notes),
+      query: Object.fromEntries(
+        [...new URLSearchParams(search)].map(([key, value]) => [key, substitute(value, variables, notes)])
+      ),
+    };
+  }
+
+  const segments = url.path.map(segment => {
+    if (!segment.startsWith(':')) {
+      return substitute(segment, variables, notes);
+    }
+    const value = url.variable?.find(entry => entry.key === segment.slice(1))?.value;
+    if (value === undefined || value === '') {
+      notes.add(`No value for path variable ${segment}`);
+      return segment;
+    }
+    return substitute(String(value), variables, notes);
+  });
+  return {
+    path: `/${segments.join('/')}`,
+    query: Object.fromEntries(
+      (url.query ?? [])
+        .filter(param => !param.disabled)
+        .map(param => [param.key, substitute(param.value ?? '', variables, notes)])
+    ),
+  };
+}
+
+function preference({ name, args }: EndpointCall, method: string): number {
+  if (args.length === 0) {
+    return 0;
+  }
+  const key = name.split('.')[1];
+  if (key === 'update') {
+    return method === 'PUT' || method === 'PATCH' ? 1 : 3;
+  }
+  if (key === 'delete') {
+    return method === 'DELETE' ? 1 : 3;
+  }
+  return 2;
+}
+
+/**
+ * `endpoints` entry producing `path`: literal entries first, then `update`/`delete`
+ * for their methods, then the rest. Entries with a query string are never matched,
+ * nor are parameters left unresolved.
+ */
+export function matchEndpoint(method: string, path: string): EndpointCall | undefined {
+  const calls: EndpointCall[] = [];
+  for (const [group, entries] of Object.entries(endpoints)) {
+    for (const [key, endpoint] of Object.entries(entries as Record<string, Endpoint>)) {
+      const markers = typeof endpoint === 'string' ? [] : Array.from({ length: endpoint.length }, (_, i) => `\u0000${i}\u0000`);
+      const template = typeof endpoint === 'string' ? endpoint : (endpoint as (...args: string[]) => string)(...markers);
+      if (template.includes('?')) {
+        continue;
+      }
+      const source = template
+        .split(/\u0000\d+\u0000/)
+        .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('([^/]+)');
+      const match = new RegExp(`^${source}$`).exec(path);
+      // Unresolved `{{name}}`/`:name` segments would not type-check as arguments
+      if (match && !match.slice(1).some(arg => arg.includes('{{') || arg.startsWith(':'))) {
+        const args = match.slice(1).map(arg => (/^\d+$/.test(arg) ? Number(arg) : decodeURIComponent(arg)));
+        calls.push({ name: `${group}.${key}`, args });
+      }
+    }
+  }
+  return calls.sort((a, b) => preference(a, method) - preference(b, method))[0];
+}
+
+function statusOf(item: PostmanItem): number | undefined {
+  const tests = (item.event ?? [])
+    .filter(event => event.listen === 'test')
+    .flatMap(event => event.script.exec)
+    .join('\n');
+  for (const assertion of STATUS_ASSERTIONS) {
+    const match = assertion.exec(tests);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+  return item.response?.find(example => example.code !== undefined)?.code;
+}
+
+function importRequest(
+  item: PostmanItem,
+  title: string,
+  auth: PostmanAuth | undefined,
+  variables: Record<string, string>
+): ImportedRequest {
+  const request: PostmanRequest = typeof item.request === 'string' ? { url: item.request } : item.request!;
+  const notes = new Set<string>();
+  const method = (request.method ?? 'GET').toUpperCase();
+  const { path, query } = splitUrl(request.url ?? '', variables, notes);
+
+  let authenticated = (request.auth ?? auth)?.type === 'bearer';
+  const headers: Record<string, string> = {};
+  for (const header of request.header ?? []) {
+    if (header.disabled || /^content-type$/i.test(header.key)) {
+      continue;
+    }
+    if (/^authorization$/i.test(header.key) && /^bearer /i.test(header.value)) {
+      authenticated = true;
+      continue;
+    }
+    headers[header.key] = substitute(header.value, variables, notes);
+  }
+
+  let body: unknown;
+  if (request.body?.mode === 'raw' && request.body.raw) {
+    const raw = substitute(request.body.raw, variables, notes);
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      body = raw;
+    }
+  } else if (request.body && request.body.mode !== 'raw') {
+    notes.add(`${request.body.mode} body not imported`);
+  }
+
+  const endpoint = matchEndpoint(method, path);
+  if (!endpoint) {
+    notes.add(`No endpoints entry for ${path}`);
+  }
+  const operation = findOperation(method, path);
+  const success = operation && Object.keys(operation.responses).map(Number).find(code => code >= 200 && code < 300);
+  const status = statusOf(item) ?? success;
+  const schema = operation && status !== undefined && operation.responses[status];
+
+  return {
+    title,
+    method,
+    path,
+    ...(endpoint ? { endpoint } : {}),
+    query,
+    headers,
+    ...(body === undefined ? {} : { body }),
+    authenticated,
+    ...(status === undefined ? {} : { status }),
+    ...(schema ? { schema: schemaNameOf(schema) } : {}),
+    runnable: ![...notes].some(note => note.startsWith('Unresolved') || note.startsWith('No value')),
+    notes: [...notes],
+  };
+}
+
+function flatten(
+  items: PostmanItem[],
+  parents: string[],
+  auth: PostmanAuth | undefined,
+  variables: Record<string, string>
+): ImportedRequest[] {
+  return items.flatMap(item => {
+    const names = [...parents, item.name];
+    if (item.item) {
+      return flatten(item.item, names, item.auth ?? auth, variables);
+    }
+    return item.request ? [importRequest(item, names.join(' / '), auth, variables)] : [];
+  });
+}
+
+/**
+ * Requests of a v2.1 collection (see `parsePostmanCollection`), folders flattened
+ * into titles and paths matched against `endpoints` and the operation catalog
+ */
+export function importPostmanCollection(
+  collection: PostmanCollection,
+  options: PostmanImportOptions = {}
+): ImportedCollection {
+  const variables = {
+    ...Object.fromEntries(
+      (collection.variable ?? []).filter(entry => !entry.disabled).map(entry => [entry.key, String(entry.value ?? '')])
+    ),
+    ...options.variables,
+  };
+  return { name: collection.info.name, requests: flatten(collection.item, [], collection.auth, variables) };
+}
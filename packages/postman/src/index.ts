@@ -0,0 +1,8 @@
+/**
+ * Postman Collection v2.1 export from the operation catalog and scenario
+ * files, and import of collections into Playwright and Vitest specs
+ */
+export * from './codegen';
+export * from './collection';
+export * from './export';
+export * from './import';
@@ -0,0 +1,74 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Thrown without sending when the target host's circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly host: string,
+    public readonly retryInMs: number
+  ) {
+    super(`Circuit open for ${host} after repeated failures; retrying in ${retryInMs}ms`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Consecutive-failure circuit breaker for one host. Opens after `threshold`
+ * failures, rejects requests for `resetMs`, then lets a single trial request
+ * through (half-open) that closes it again on success.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    readonly host: string,
+    private readonly threshold: number,
+    private readonly resetMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.resetMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * @throws CircuitOpenError when the request must not be sent
+   */
+  acquire(): void {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.host, Math.max(0, this.resetMs - (this.now() - this.openedAt!)));
+    }
+    if (state === 'half-open') {
+      this.trialInFlight = true;
+    }
+  }
+
+  success(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Neither success nor failure (e.g. a 429): frees a half-open trial without
+   * touching the failure count
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  failure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.threshold > 0 && (this.state === 'half-open' || this.failures >= this.threshold)) {
+      this.openedAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { CircuitBreaker } from './breaker';
+import { backoffDelay, parseRetryAfter, resiliencePolicy, ResiliencePolicy } from './policy';
+
+/**
+ * What a finished attempt looked like to the executor
+ */
+export interface AttemptStatus {
+  /** HTTP status, when a response was received */
+  status?: number;
+  /** Network error code (ECONNRESET, ...), when no response was received */
+  code?: string;
+  retryAfter?: string | null;
+}
+
+/**
+ * Reads the status of a resolved or thrown attempt for one HTTP client
+ */
+export interface AttemptInspector<T> {
+  response(value: T): AttemptStatus;
+  error(error: unknown): AttemptStatus;
+}
+
+export interface RetryEvent {
+  method: string;
+  url: string;
+  /** Retry number, starting at 1 */
+  retry: number;
+  retries: number;
+  delayMs: number;
+  /** Status or error code that caused the retry */
+  reason: string;
+}
+
+export type RetryLogger = (event: RetryEvent) => void;
+
+export function formatRetry({ method, url, retry, retries, delayMs, reason }: RetryEvent): string {
+  return `[retry ${retry}/${retries}] ${method} ${url} -> ${reason}, retrying in ${delayMs}ms`;
+}
+
+const logToConsole: RetryLogger = event => console.warn(formatRetry(event));
+
+export interface ExecutorOptions {
+  logger?: RetryLogger;
+  /** Injectable for tests */
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  random?: () => number;
+}
+
+/**
+ * Node's error code for a failed request, from `code` or a nested `cause.code`
+ */
+export function errorCode(error: unknown): string | undefined {
+  const withCode = error as { code?: unknown; cause?: { code?: unknown } } | undefined;
+  const code = withCode?.code ?? withCode?.cause?.code;
+  return typeof code === 'string' ? code : undefined;
+}
+
+/**
+ * Runs requests under a ResiliencePolicy: retries idempotent requests on
+ * retryable statuses and network errors with jittered exponential backoff
+ * (or the server's Retry-After), and keeps one circuit breaker per host.
+ */
+export class ResilientExecutor {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly logger: RetryLogger;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly now: () => number;
+  private readonly random: () => number;
+
+  constructor(readonly policy: ResiliencePolicy = resiliencePolicy(), options: ExecutorOptions = {}) {
+    this.logger = options.logger ?? logToConsole;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Breaker for the host of a URL
+   */
+  breaker(url: string): CircuitBreaker {
+    const host = URL.canParse(url) ? new URL(url).host : url;
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = new CircuitBreaker(host, this.policy.breakerThreshold, this.policy.breakerResetMs, this.now);
+      this.breakers.set(host, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Send a request, retrying it as the policy allows. Retries stop once the
+   * host's circuit is no longer closed; the last response or error is returned.
+   * @param request - Method and absolute URL, for retry logs and the breaker
+   * @param send - Performs one attempt
+   * @throws CircuitOpenError when the host's circuit is open before the first attempt
+   */
+  async execute<T>(
+    request: { method: string; url: string },
+    send: () => Promise<T>,
+    inspect: AttemptInspector<T>
+  ): Promise<T> {
+    const method = request.method.toUpperCase();
+    const breaker = this.breaker(request.url);
+    const retries = this.policy.retryMethods.includes(method) ? this.policy.retries : 0;
+
+    breaker.acquire();
+    for (let retry = 0; ; retry++) {
+      let outcome: { value: T } | { error: unknown };
+      let status: AttemptStatus;
+      try {
+        outcome = { value: await send() };
+        status = inspect.response(outcome.value);
+      } catch (error) {
+        outcome = { error };
+        const inspected = inspect.error(error);
+        status = { ...inspected, code: inspected.code ?? errorCode(error) };
+      }
+
+      const failed = status.status === undefined ? 'error' in outcome : status.status >= 500;
+      if (failed) {
+        breaker.failure();
+      } else if (status.status !== undefined && this.policy.retryStatuses.includes(status.status)) {
+        // A retryable status such as 429 says nothing about the host's health
+        breaker.release();
+      } else {
+        breaker.success();
+      }
+
+      const reason = this.retryReason(status, outcome);
+      if (reason && retry < retries && breaker.state === 'closed') {
+        const delayMs = this.delay(retry, status.retryAfter);
+        this.logger({ method, url: request.url, retry: retry + 1, retries, delayMs, reason });
+        await this.sleep(delayMs);
+        continue;
+      }
+
+      if ('error' in outcome) {
+        throw outcome.error;
+      }
+      return outcome.value;
+    }
+  }
+
+  private retryReason(status: AttemptStatus, outcome: object): string | undefined {
+    if (status.status !== undefined) {
+      return this.policy.retryStatuses.includes(status.status) ? String(status.status) : undefined;
+    }
+    if ('error' in outcome && status.code && this.policy.retryErrorCodes.includes(status.code)) {
+      return status.code;
+    }
+    return undefined;
+  }
+
+  private delay(retry: number, retryAfter?: string | null): number {
+    const requested = parseRetryAfter(retryAfter, this.now());
+    return requested === undefined
+      ? backoffDelay(retry, this.policy, this.random)
+      : Math.min(requested, this.policy.maxDelayMs);
+  }
+}
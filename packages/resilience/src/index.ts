@@ -0,0 +1,7 @@
+/**
+ * Request-level resilience: idempotent retries, backoff with jitter,
+ * Retry-After and a per-host circuit breaker
+ */
+export * from './breaker';
+export * from './executor';
+export * from './policy';
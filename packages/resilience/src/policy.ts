@@ -0,0 +1,77 @@
+/**
+ * When and how a failed request is retried
+ */
+export interface ResiliencePolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  retries: number;
+  /** Methods that are safe to send again */
+  retryMethods: string[];
+  /** Response statuses worth retrying */
+  retryStatuses: number[];
+  /** Network error codes worth retrying */
+  retryErrorCodes: string[];
+  /** First backoff step; doubles per retry */
+  baseDelayMs: number;
+  /** Upper bound for a backoff step and for a honoured Retry-After */
+  maxDelayMs: number;
+  /** Consecutive failures (5xx or network) that open a host's circuit (0 disables the breaker) */
+  breakerThreshold: number;
+  /** How long an open circuit rejects requests before letting one through */
+  breakerResetMs: number;
+}
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  retries: 2,
+  retryMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  retryStatuses: [408, 429, 500, 502, 503, 504],
+  retryErrorCodes: ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'],
+  baseDelayMs: 200,
+  maxDelayMs: 5_000,
+  breakerThreshold: 5,
+  breakerResetMs: 30_000,
+};
+
+function envNumber(name: string): number | undefined {
+  const value = process.env[name];
+  return value === undefined || value === '' || !Number.isFinite(Number(value)) ? undefined : Number(value);
+}
+
+/**
+ * Default policy with env overrides (HTTP_RETRIES, HTTP_RETRY_BASE_MS,
+ * HTTP_RETRY_MAX_MS, HTTP_BREAKER_THRESHOLD, HTTP_BREAKER_RESET_MS)
+ */
+export function resiliencePolicy(overrides: Partial<ResiliencePolicy> = {}): ResiliencePolicy {
+  const fromEnv: Partial<ResiliencePolicy> = {
+    retries: envNumber('HTTP_RETRIES'),
+    baseDelayMs: envNumber('HTTP_RETRY_BASE_MS'),
+    maxDelayMs: envNumber('HTTP_RETRY_MAX_MS'),
+    breakerThreshold: envNumber('HTTP_BREAKER_THRESHOLD'),
+    breakerResetMs: envNumber('HTTP_BREAKER_RESET_MS'),
+  };
+  const defined = Object.fromEntries(Object.entries(fromEnv).filter(([, value]) => value !== undefined));
+
+  return { ...DEFAULT_RESILIENCE_POLICY, ...defined, ...overrides };
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, min(max, base * 2^retry)]
+ * @param retry - 0 for the first retry
+ */
+export function backoffDelay(retry: number, policy: ResiliencePolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Delay requested by a Retry-After header (delta seconds or HTTP date), if any
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
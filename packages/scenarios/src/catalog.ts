@@ -0,0 +1,67 @@
+import type { ZodTypeAny } from 'zod';
+import * as contracts from '@saucedemo/contracts';
+import { endpoints } from '@saucedemo/contracts';
+
+type Endpoint = string | ((...args: never[]) => string);
+
+/**
+ * Every zod schema exported by `@saucedemo/contracts`, by export name (e.g. `cartSchema`)
+ */
+const schemas: Record<string, ZodTypeAny> = Object.fromEntries(
+  Object.entries(contracts).filter(
+    ([name, value]) => name.endsWith('Schema') && typeof (value as ZodTypeAny)?.safeParse === 'function'
+  )
+) as Record<string, ZodTypeAny>;
+
+export function schemaNames(): string[] {
+  return Object.keys(schemas).sort();
+}
+
+export function schemaNamed(name: string): ZodTypeAny | undefined {
+  return Object.hasOwn(schemas, name) ? schemas[name] : undefined;
+}
+
+/**
+ * Export name of a contract schema, e.g. for an operation's response schema
+ */
+export function schemaNameOf(schema: ZodTypeAny): string | undefined {
+  return Object.keys(schemas).find(name => schemas[name] === schema);
+}
+
+function endpointNamed(name: string): Endpoint | undefined {
+  const [group, key, ...rest] = name.split('.');
+  const entries = endpoints[group as keyof typeof endpoints] as Record<string, Endpoint> | undefined;
+  return rest.length === 0 && entries && key && Object.hasOwn(entries, key) ? entries[key] : undefined;
+}
+
+/**
+ * `group.key` names of every entry in `endpoints` (e.g. `carts.add`, `products.single`)
+ */
+export function endpointNames(): string[] {
+  return Object.entries(endpoints).flatMap(([group, entries]) => Object.keys(entries).map(key => `${group}.${key}`));
+}
+
+export function isEndpoint(name: string): boolean {
+  return endpointNamed(name) !== undefined;
+}
+
+/**
+ * Path of an `endpoints` entry; parameterized entries are called with `params`
+ * @throws Error for an unknown entry or a params/arity mismatch
+ */
+export function resolveEndpoint(name: string, params: unknown[] = []): string {
+  const endpoint = endpointNamed(name);
+  if (endpoint === undefined) {
+    throw new Error(`Unknown endpoint "${name}"`);
+  }
+  if (typeof endpoint === 'string') {
+    if (params.length > 0) {
+      throw new Error(`Endpoint "${name}" takes no params`);
+    }
+    return endpoint;
+  }
+  if (params.length !== endpoint.length) {
+    throw new Error(`Endpoint "${name}" takes ${endpoint.length} param(s), got ${params.length}`);
+  }
+  return (endpoint as (...args: unknown[]) => string)(...params);
+}
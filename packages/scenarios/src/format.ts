@@ -0,0 +1,119 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { extname, join, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { isEndpoint, schemaNamed } from './catalog';
+import { isJsonPath } from './jsonpath';
+
+const variableName = z.string().regex(/^[A-Za-z_]\w*$/, 'Variable names are letters, digits and _');
+const jsonPath = z.string().refine(isJsonPath, path => ({ message: `Invalid JSONPath "${path}"` }));
+
+/**
+ * One request of a scenario. Strings anywhere in `params`, `query`, `headers`,
+ * `body` and `expect.match` may reference variables as `${name}`.
+ */
+export const scenarioStepSchema = z
+  .object({
+    name: z.string().min(1),
+    /** `endpoints` entry, e.g. `carts.add` or `products.single` */
+    endpoint: z.string().refine(isEndpoint, name => ({ message: `Unknown endpoint "${name}"` })),
+    /** Inferred from the operation catalog when only one method is documented for the path */
+    method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).optional(),
+    /** Arguments of a parameterized endpoint, e.g. `[${productId}]` for `products.single` */
+    params: z.array(z.union([z.string(), z.number()])).optional(),
+    query: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+    headers: z.record(z.string()).optional(),
+    body: z.unknown().optional(),
+    expect: z
+      .object({
+        /** Exact status; any 2xx when omitted */
+        status: z.number().int().optional(),
+        /** Export name of a `@saucedemo/contracts` schema, e.g. `cartSchema` */
+        schema: z
+          .string()
+          .refine(name => schemaNamed(name) !== undefined, name => ({ message: `Unknown schema "${name}"` }))
+          .optional(),
+        /** JSONPath → expected value */
+        match: z.record(jsonPath, z.unknown()).optional(),
+      })
+      .strict()
+      .default({}),
+    /** Variable name → JSONPath into the response body */
+    extract: z.record(variableName, jsonPath).optional(),
+  })
+  .strict();
+
+export const scenarioSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    /** Initial variables, e.g. credentials */
+    variables: z.record(variableName, z.unknown()).default({}),
+    steps: z.array(scenarioStepSchema).min(1),
+  })
+  .strict();
+
+export type Scenario = z.infer<typeof scenarioSchema>;
+export type ScenarioStep = z.infer<typeof scenarioStepSchema>;
+
+export interface ScenarioFile {
+  /** File name relative to the scenarios directory */
+  file: string;
+  scenario: Scenario;
+}
+
+/**
+ * Thrown when a scenario file is not valid YAML/JSON or does not match the format
+ */
+export class ScenarioFormatError extends Error {
+  constructor(
+    readonly file: string,
+    readonly issues: string[]
+  ) {
+    super(`Invalid scenario file ${file}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ScenarioFormatError';
+  }
+}
+
+export const SCENARIO_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+/**
+ * Scenarios live at the repository root, shared by both suites: SCENARIOS_DIR
+ * resolved against the working directory (default `../scenarios` from a suite)
+ */
+export function scenariosDirectory(): string {
+  return resolve(process.env.SCENARIOS_DIR || '../scenarios');
+}
+
+/**
+ * Parse and validate one scenario; `.json` files are read as JSON, anything else as YAML
+ * @throws ScenarioFormatError
+ */
+export function parseScenario(text: string, file: string): Scenario {
+  let raw: unknown;
+  try {
+    raw = extname(file) === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new ScenarioFormatError(file, [error instanceof Error ? error.message : String(error)]);
+  }
+
+  const result = scenarioSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ScenarioFormatError(
+      file,
+      result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Every scenario file in `dir`, sorted by name
+ * @throws ScenarioFormatError for the first invalid file
+ */
+export function loadScenarios(dir = scenariosDirectory()): ScenarioFile[] {
+  return readdirSync(dir)
+    .filter(file => SCENARIO_EXTENSIONS.includes(extname(file)))
+    .sort()
+    .map(file => ({ file, scenario: parseScenario(readFileSync(join(dir, file), 'utf8'), file) }));
+}
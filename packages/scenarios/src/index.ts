@@ -0,0 +1,9 @@
+/**
+ * Declarative YAML/JSON API journeys: steps naming `endpoints` entries with
+ * expected status, contract schema and JSONPath extractions into variables
+ */
+export * from './catalog';
+export * from './format';
+export * from './jsonpath';
+export * from './runner';
+export * from './variables';
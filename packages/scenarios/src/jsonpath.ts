@@ -0,0 +1,54 @@
+type Segment = string | number;
+
+const SEGMENT = /^(?:\.([A-Za-z_$][\w$]*)|\[(-?\d+)\]|\[(['"])(.*?)\3\])/;
+
+/**
+ * Split a JSONPath into property and index segments. Supported subset:
+ * `$`, `.name`, `['name']` and `[index]` (negative counts from the end),
+ * e.g. `$.products[0].id`, `$.products[-1].id`, `$.products.length`
+ * @throws Error for anything else (wildcards, filters, recursive descent)
+ */
+export function parsePath(path: string): Segment[] {
+  if (!path.startsWith('$')) {
+    throw new Error(`Invalid JSONPath "${path}": must start with $`);
+  }
+
+  const segments: Segment[] = [];
+  let rest = path.slice(1);
+  while (rest.length > 0) {
+    const match = SEGMENT.exec(rest);
+    if (!match) {
+      throw new Error(`Invalid JSONPath "${path}" at "${rest}"`);
+    }
+    segments.push(match[1] ?? (match[2] !== undefined ? Number(match[2]) : match[4]));
+    rest = rest.slice(match[0].length);
+  }
+  return segments;
+}
+
+export function isJsonPath(path: string): boolean {
+  try {
+    parsePath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Value at `path` in `value`, or undefined when any segment is missing
+ */
+export function queryPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of parsePath(path)) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    if (typeof segment === 'number') {
+      current = Array.isArray(current) ? current.at(segment) : undefined;
+    } else {
+      current = (current as Record<string, unknown>)[segment];
+    }
+  }
+  return current;
+}
@@ -0,0 +1,159 @@
+import { isDeepStrictEqual } from 'node:util';
+import { findOperation, OperationMethod } from '@saucedemo/contracts';
+import { resolveEndpoint, schemaNamed } from './catalog';
+import type { Scenario, ScenarioStep } from './format';
+import { queryPath } from './jsonpath';
+import { interpolate } from './variables';
+
+/**
+ * Request built from a scenario step, variables already substituted
+ */
+export interface ScenarioRequest {
+  method: OperationMethod;
+  path: string;
+  query?: Record<string, string | number | boolean>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface ScenarioResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Adapter over a suite's HTTP client (APIRequestContext or Axios).
+ * Must resolve for every status code rather than throwing on 4xx/5xx.
+ */
+export interface ScenarioTransport {
+  send(request: ScenarioRequest): Promise<ScenarioResponse>;
+}
+
+/**
+ * Hook around each step, e.g. Playwright's `test.step` for per-step reporting
+ */
+export type StepWrapper = <T>(title: string, body: () => Promise<T>) => Promise<T>;
+
+/**
+ * Thrown when a step cannot be built or its response does not meet `expect`
+ */
+export class ScenarioStepError extends Error {
+  constructor(
+    readonly step: string,
+    message: string,
+    readonly response?: ScenarioResponse
+  ) {
+    super(`Step "${step}": ${message}`);
+    this.name = 'ScenarioStepError';
+  }
+}
+
+const METHODS: OperationMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+function excerpt(body: unknown): string {
+  const text = JSON.stringify(body) ?? 'undefined';
+  return text.length > 500 ? `${text.slice(0, 500)}…` : text;
+}
+
+function methodOf(step: ScenarioStep, path: string): OperationMethod {
+  if (step.method) {
+    return step.method;
+  }
+
+  // `/carts/add` also matches `/carts/{id}`: only the most literal matching paths count
+  const matches = METHODS.map(method => findOperation(method, path)).filter(operation => operation !== undefined);
+  const placeholders = (template: string) => template.split('{').length;
+  const fewest = Math.min(...matches.map(operation => placeholders(operation.path)));
+  const methods = matches.filter(operation => placeholders(operation.path) === fewest).map(operation => operation.method);
+  if (methods.length !== 1) {
+    const found = methods.length === 0 ? 'no documented operation' : `${methods.join(', ')} operations`;
+    throw new ScenarioStepError(step.name, `${path} matches ${found}; set "method"`);
+  }
+  return methods[0];
+}
+
+/**
+ * Substitute variables into a step and resolve its endpoint and method
+ * @throws ScenarioStepError for an undefined variable, bad params or an ambiguous method
+ */
+export function buildRequest(step: ScenarioStep, variables: Record<string, unknown>): ScenarioRequest {
+  try {
+    const path = resolveEndpoint(step.endpoint, interpolate(step.params ?? [], variables));
+    return {
+      method: methodOf(step, path),
+      path,
+      ...(step.query ? { query: interpolate(step.query, variables) } : {}),
+      ...(step.headers ? { headers: interpolate(step.headers, variables) } : {}),
+      ...(step.body === undefined ? {} : { body: interpolate(step.body, variables) }),
+    };
+  } catch (error) {
+    throw error instanceof ScenarioStepError
+      ? error
+      : new ScenarioStepError(step.name, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Send one step and check its status, schema and `match` values
+ * @returns Variables extracted from the response body
+ * @throws ScenarioStepError
+ */
+export async function runStep(
+  step: ScenarioStep,
+  transport: ScenarioTransport,
+  variables: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const request = buildRequest(step, variables);
+  const response = await transport.send(request);
+  const fail = (message: string): never => {
+    throw new ScenarioStepError(step.name, `${request.method} ${request.path}: ${message}`, response);
+  };
+
+  const { status, schema, match } = step.expect;
+  if (status === undefined ? response.status < 200 || response.status > 299 : response.status !== status) {
+    fail(`expected status ${status ?? '2xx'}, got ${response.status}: ${excerpt(response.body)}`);
+  }
+
+  if (schema) {
+    const result = schemaNamed(schema)!.safeParse(response.body);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      fail(`response does not match ${schema}:\n  ${issues.join('\n  ')}`);
+    }
+  }
+
+  for (const [path, expected] of Object.entries(match ?? {})) {
+    const actual = queryPath(response.body, path);
+    const wanted = interpolate(expected, variables);
+    if (!isDeepStrictEqual(actual, wanted)) {
+      fail(`${path} is ${excerpt(actual)}, expected ${excerpt(wanted)}`);
+    }
+  }
+
+  const extracted: Record<string, unknown> = {};
+  for (const [name, path] of Object.entries(step.extract ?? {})) {
+    const value = queryPath(response.body, path);
+    if (value === undefined) {
+      fail(`nothing at ${path} to extract into ${name}: ${excerpt(response.body)}`);
+    }
+    extracted[name] = value;
+  }
+  return extracted;
+}
+
+/**
+ * Run a scenario's steps in order, threading extracted variables into later steps
+ * @returns Final variables
+ * @throws ScenarioStepError from the first failing step
+ */
+export async function runScenario(
+  scenario: Scenario,
+  transport: ScenarioTransport,
+  wrap: StepWrapper = (_title, body) => body()
+): Promise<Record<string, unknown>> {
+  const variables: Record<string, unknown> = { ...scenario.variables };
+  for (const step of scenario.steps) {
+    Object.assign(variables, await wrap(step.name, () => runStep(step, transport, variables)));
+  }
+  return variables;
+}
@@ -0,0 +1,35 @@
+const WHOLE = /^\$\{(\w+)\}$/;
+const EMBEDDED = /\$\{(\w+)\}/g;
+
+function lookup(name: string, variables: Record<string, unknown>): unknown {
+  if (!Object.hasOwn(variables, name)) {
+    const known = Object.keys(variables);
+    throw new Error(`Unknown variable \${${name}} (defined: ${known.length > 0 ? known.join(', ') : 'none'})`);
+  }
+  return variables[name];
+}
+
+/**
+ * Replace `${name}` references in strings, deeply. A string that is exactly one
+ * reference takes the variable's value as is, so `"${userId}"` stays a number.
+ * @throws Error for a reference to an undefined variable
+ */
+export function interpolate<T>(value: T, variables: Record<string, unknown>): T {
+  if (typeof value === 'string') {
+    const whole = WHOLE.exec(value);
+    if (whole) {
+      return lookup(whole[1], variables) as T;
+    }
+    return value.replace(EMBEDDED, (_, name: string) => {
+      const resolved = lookup(name, variables);
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, variables)) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, variables)])) as T;
+  }
+  return value;
+}
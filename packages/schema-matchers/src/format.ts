@@ -0,0 +1,67 @@
+import type { ZodIssue } from 'zod';
+import type { RequestInfo } from './subject';
+
+const MAX_VALUE_LENGTH = 80;
+
+/**
+ * Render a Zod path as `products[0].price`
+ */
+export function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) {
+    return '(root)';
+  }
+  return path
+    .map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`))
+    .join('');
+}
+
+function valueAt(body: unknown, path: Array<string | number>): unknown {
+  return path.reduce<unknown>(
+    (value, segment) =>
+      value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined,
+    body
+  );
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 3)}...` : text;
+}
+
+/**
+ * Union failures hide the useful detail in `unionErrors`; list the issues of
+ * the branch that got furthest so the diff points at a real field
+ */
+function flatten(issues: ZodIssue[]): ZodIssue[] {
+  return issues.flatMap(issue => {
+    if (issue.code !== 'invalid_union') {
+      return [issue];
+    }
+    const closest = [...issue.unionErrors].sort((a, b) => a.issues.length - b.issues.length)[0];
+    return closest ? flatten(closest.issues) : [issue];
+  });
+}
+
+/**
+ * One line per issue: path, Zod message and the received value when present
+ */
+export function formatIssues(issues: ZodIssue[], body: unknown): string {
+  return flatten(issues)
+    .map(issue => {
+      const value = valueAt(body, issue.path);
+      const received = value === undefined ? '' : `\n      received: ${preview(value)}`;
+      return `  - ${formatPath(issue.path)}: ${issue.message}${received}`;
+    })
+    .join('\n');
+}
+
+/**
+ * `GET https://dummyjson.com/products/1 -> 200`, or `plain body` when unknown
+ */
+export function formatRequest(request?: RequestInfo): string {
+  if (!request?.url) {
+    return 'plain body';
+  }
+  const status = request.status === undefined ? '' : ` -> ${request.status}`;
+  return `${request.method ?? 'HTTP'} ${request.url}${status}`;
+}
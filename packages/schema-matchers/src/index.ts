@@ -0,0 +1,6 @@
+/**
+ * toMatchSchema core shared by the Playwright and Vitest expect extensions
+ */
+export * from './format';
+export * from './match-schema';
+export * from './subject';
@@ -0,0 +1,57 @@
+import type { ZodTypeAny } from 'zod';
+import { recordDrift } from '@saucedemo/contract-drift';
+import { formatIssues, formatRequest } from './format';
+import { resolveSubject, RequestResolver } from './subject';
+
+/**
+ * Matcher state both Playwright and Vitest pass as `this`
+ */
+export interface SchemaMatcherState {
+  isNot: boolean;
+}
+
+export interface SchemaMatcherResult {
+  pass: boolean;
+  message: () => string;
+  name: string;
+  actual?: unknown;
+}
+
+/**
+ * Build a `toMatchSchema(schema)` matcher for `expect.extend`.
+ * Accepts an APIResponse, AxiosResponse, supertest response or plain body and,
+ * on failure, prints the request plus a path-by-path list of Zod issues.
+ * @param resolveRequest - Supplies request details the response object lacks
+ */
+export function createSchemaMatcher(resolveRequest?: RequestResolver) {
+  return async function toMatchSchema(
+    this: SchemaMatcherState,
+    received: unknown,
+    schema: ZodTypeAny
+  ): Promise<SchemaMatcherResult> {
+    const { body, request } = await resolveSubject(received, resolveRequest);
+    const result = schema.safeParse(body);
+    const hint = 'expect(received).toMatchSchema(schema)';
+    const source = formatRequest(request);
+
+    if (result.success) {
+      if (request?.url) {
+        recordDrift({ method: request.method, url: request.url, schema, body });
+      }
+      return {
+        pass: true,
+        name: 'toMatchSchema',
+        message: () => `${hint}\n\nExpected ${source} not to match the schema, but it did`,
+      };
+    }
+
+    const count = result.error.issues.length;
+    return {
+      pass: false,
+      name: 'toMatchSchema',
+      actual: body,
+      message: () =>
+        `${hint}\n\n${source}\n\n${count} schema issue${count === 1 ? '' : 's'}:\n${formatIssues(result.error.issues, body)}`,
+    };
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Request that produced the body under test, when it can be recovered
+ */
+export interface RequestInfo {
+  method?: string;
+  url?: string;
+  status?: number;
+}
+
+/**
+ * Body to validate plus the request it came from
+ */
+export interface SchemaSubject {
+  body: unknown;
+  request?: RequestInfo;
+}
+
+/**
+ * Looks up request details the response object itself does not expose
+ * (Playwright's APIResponse has no method)
+ */
+export type RequestResolver = (response: object) => RequestInfo | undefined;
+
+interface PlaywrightResponseLike {
+  url(): string;
+  status(): number;
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}
+
+interface AxiosResponseLike {
+  data: unknown;
+  status: number;
+  config: {
+    method?: string;
+    url?: string;
+    baseURL?: string;
+    params?: Record<string, unknown>;
+  };
+}
+
+interface SupertestResponseLike {
+  body: unknown;
+  status: number;
+  request: {
+    method?: string;
+    url?: string;
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPlaywrightResponse(value: unknown): value is PlaywrightResponseLike {
+  return isObject(value) && typeof value.url === 'function' && typeof value.json === 'function';
+}
+
+function isAxiosResponse(value: unknown): value is AxiosResponseLike {
+  return isObject(value) && 'data' in value && typeof value.status === 'number' && isObject(value.config);
+}
+
+function isSupertestResponse(value: unknown): value is SupertestResponseLike {
+  return isObject(value) && 'body' in value && typeof value.status === 'number' && isObject(value.request);
+}
+
+/**
+ * Rebuild the URL Axios requested from its config
+ */
+function axiosUrl({ url = '', baseURL, params }: AxiosResponseLike['config']): string {
+  const full = !baseURL || /^https?:\/\//.test(url)
+    ? url
+    : `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+
+  const query = new URLSearchParams(
+    Object.entries(params ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]): [string, string] => [key, String(value)])
+  ).toString();
+
+  return query ? `${full}${full.includes('?') ? '&' : '?'}${query}` : full;
+}
+
+/**
+ * Normalize an APIResponse, AxiosResponse, supertest response or plain body
+ */
+export async function resolveSubject(received: unknown, resolveRequest?: RequestResolver): Promise<SchemaSubject> {
+  if (isPlaywrightResponse(received)) {
+    const text = await received.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON - validate the raw text
+    }
+    return {
+      body,
+      request: { ...resolveRequest?.(received), url: received.url(), status: received.status() },
+    };
+  }
+
+  if (isAxiosResponse(received)) {
+    return {
+      body: received.data,
+      request: { method: received.config.method?.toUpperCase(), url: axiosUrl(received.config), status: received.status },
+    };
+  }
+
+  if (isSupertestResponse(received)) {
+    return {
+      body: received.body,
+      request: { method: received.request.method, url: received.request.url, status: received.status },
+    };
+  }
+
+  return { body: received };
+}
@@ -0,0 +1,88 @@
+import { personas } from '@saucedemo/auth-session';
+import {
+  addToCartRequestSchema,
+  addUserRequestSchema,
+  loginRequestSchema,
+  AddToCartRequest,
+  LoginRequest,
+  User,
+} from '@saucedemo/contracts';
+import { random } from './random';
+
+export type CartLine = AddToCartRequest['products'][number];
+
+/** Payload for POST /users/add */
+export type NewUser = Omit<User, 'id'>;
+
+/** Product ids present both on DummyJSON and in the mock server catalog */
+const PRODUCT_IDS = Array.from({ length: 30 }, (_, index) => index + 1);
+/** User ids present both on DummyJSON and in the mock server */
+const USER_IDS = Array.from({ length: 20 }, (_, index) => index + 1);
+
+const FIRST_NAMES = ['Ada', 'Grace', 'Alan', 'Linus', 'Margaret', 'Dennis', 'Barbara', 'Ken'];
+const LAST_NAMES = ['Lovelace', 'Hopper', 'Turing', 'Torvalds', 'Hamilton', 'Ritchie', 'Liskov', 'Thompson'];
+const HAIR_COLORS = ['Black', 'Brown', 'Blonde', 'Red', 'Gray'];
+const HAIR_TYPES = ['Curly', 'Straight', 'Wavy'];
+const EYE_COLORS = ['Amber', 'Blue', 'Brown', 'Green', 'Grey', 'Hazel'];
+const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
+
+/**
+ * One cart line: a catalog product with quantity 1-3
+ */
+export function aCartLine(overrides: Partial<CartLine> = {}): CartLine {
+  const rng = random();
+  return { id: rng.pick(PRODUCT_IDS), quantity: rng.int(1, 3), ...overrides };
+}
+
+/**
+ * POST /carts/add payload with 1-3 lines for distinct products
+ * @param lines - Number of generated lines (ignored when `products` is given)
+ */
+export function aCart(overrides: Partial<AddToCartRequest> & { lines?: number } = {}): AddToCartRequest {
+  const rng = random();
+  const { lines = rng.int(1, 3), ...fields } = overrides;
+  const products = rng.sample(PRODUCT_IDS, lines).map(id => aCartLine({ id }));
+
+  return addToCartRequestSchema.parse({ userId: rng.pick(USER_IDS), products, ...fields });
+}
+
+/**
+ * POST /users/add payload with every profile field populated
+ */
+export function aUser(overrides: Partial<NewUser> = {}): NewUser {
+  const rng = random();
+  const firstName = overrides.firstName ?? rng.pick(FIRST_NAMES);
+  const lastName = overrides.lastName ?? rng.pick(LAST_NAMES);
+  const username = `${firstName}${lastName[0]}${rng.int(100, 999)}`.toLowerCase();
+  const age = rng.int(18, 80);
+
+  const user: NewUser = {
+    firstName,
+    lastName,
+    maidenName: '',
+    age,
+    gender: rng.pick(['female', 'male']),
+    email: `${username}@x.dummyjson.com`,
+    phone: `+1 ${rng.int(200, 999)}-${rng.int(200, 999)}-${rng.int(1000, 9999)}`,
+    username,
+    birthDate: `${2024 - age}-${rng.int(1, 12)}-${rng.int(1, 28)}`,
+    image: `https://dummyjson.com/icon/${username}/128`,
+    bloodGroup: rng.pick(BLOOD_GROUPS),
+    height: rng.int(150, 200) + rng.int(0, 99) / 100,
+    weight: rng.int(50, 110) + rng.int(0, 99) / 100,
+    eyeColor: rng.pick(EYE_COLORS),
+    hair: { color: rng.pick(HAIR_COLORS), type: rng.pick(HAIR_TYPES) },
+    ...overrides,
+  };
+
+  addUserRequestSchema.parse(user);
+  return user;
+}
+
+/**
+ * POST /auth/login payload for one of the known personas
+ */
+export function aLogin(overrides: Partial<LoginRequest> = {}): LoginRequest {
+  const persona = random().pick(Object.values(personas));
+  return loginRequestSchema.parse({ ...persona, ...overrides });
+}
@@ -0,0 +1,5 @@
+/**
+ * Seeded test-data builders (TEST_DATA_SEED) for carts, users and logins
+ */
+export * from './builders';
+export * from './random';
@@ -0,0 +1,90 @@
+import { randomInt } from 'node:crypto';
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Float in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Integer in [min, max] */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(0, items.length - 1)];
+  }
+
+  /** `count` distinct items, in random order */
+  sample<T>(items: readonly T[], count: number): T[] {
+    const pool = [...items];
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, count);
+  }
+}
+
+/**
+ * Run-wide seed: TEST_DATA_SEED, or a random one generated (and exported to
+ * the environment, so workers share it) on first use
+ */
+export function runSeed(): number {
+  const configured = Number(process.env.TEST_DATA_SEED);
+  if (process.env.TEST_DATA_SEED && Number.isInteger(configured)) {
+    return configured >>> 0;
+  }
+
+  const seed = randomInt(0, 2 ** 31);
+  process.env.TEST_DATA_SEED = String(seed);
+  return seed;
+}
+
+/**
+ * Seed for one test, derived from the run seed and the test's title path so
+ * a test gets the same data regardless of order, sharding or worker
+ */
+export function seedFor(titlePath: string[], base = runSeed()): number {
+  let hash = base ^ 0x811c9dc5;
+  for (const char of titlePath.join(' > ')) {
+    hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+let current = new SeededRandom(seedFor([]));
+
+/**
+ * Reseed the generator the builders draw from
+ */
+export function useSeed(seed: number): void {
+  current = new SeededRandom(seed);
+}
+
+/**
+ * Generator the builders draw from
+ */
+export function random(): SeededRandom {
+  return current;
+}
+
+/**
+ * Line to print when a test fails, so the run can be replayed exactly
+ */
+export function seedMessage(): string {
+  return `Test data seed: TEST_DATA_SEED=${runSeed()} (replays this test's generated payloads)`;
+}
@@ -0,0 +1,8 @@
+/**
+ * Playwright and Vitest JSON results in one model, with a combined JUnit XML
+ * report and a Markdown summary
+ */
+export * from './junit';
+export * from './markdown';
+export * from './results';
+export * from './summary';
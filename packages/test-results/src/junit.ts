@@ -0,0 +1,71 @@
+import type { TestResult } from './results';
+
+function escape(text: string): string {
+  return (
+    text
+      // Control characters other than tab and newlines are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values)
+    .map(([name, value]) => ` ${name}="${escape(String(value))}"`)
+    .join('');
+}
+
+function testcase(result: TestResult, classname: string): string {
+  const name = result.titlePath.slice(1).join(' › ') || result.file;
+  const open = `    <testcase${attributes({ classname, name, time: seconds(result.duration) })}`;
+  const body: string[] = [];
+  if (result.retries > 0) {
+    body.push(`      <properties><property name="retries" value="${result.retries}"/></properties>`);
+  }
+  if (result.status === 'failed') {
+    const message = result.error?.split('\n')[0] ?? 'Test failed';
+    body.push(`      <failure${attributes({ message })}>${escape(result.error ?? '')}</failure>`);
+  } else if (result.status === 'skipped') {
+    body.push('      <skipped/>');
+  } else if (result.status === 'flaky' && result.error) {
+    body.push(`      <system-out>Passed on retry ${result.retries} after:\n${escape(result.error)}</system-out>`);
+  }
+  return body.length === 0 ? `${open}/>` : [`${open}>`, ...body, '    </testcase>'].join('\n');
+}
+
+/**
+ * JUnit XML with one `<testsuite>` per spec file (`playwright-api/auth.spec.ts`).
+ * Flaky tests pass; their retries are a `retries` property.
+ */
+export function formatJUnit(results: TestResult[], name = 'API Automation'): string {
+  const files = new Map<string, TestResult[]>();
+  for (const result of results) {
+    const key = `${result.suite}/${result.file}`;
+    files.set(key, [...(files.get(key) ?? []), result]);
+  }
+
+  const totals = (tests: TestResult[]) => ({
+    tests: tests.length,
+    failures: tests.filter(test => test.status === 'failed').length,
+    skipped: tests.filter(test => test.status === 'skipped').length,
+    time: seconds(tests.reduce((sum, test) => sum + test.duration, 0)),
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attributes({ name, ...totals(results) })}>`,
+    ...[...files].flatMap(([file, tests]) => [
+      `  <testsuite${attributes({ name: file, ...totals(tests) })}>`,
+      ...tests.map(test => testcase(test, file)),
+      '  </testsuite>',
+    ]),
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
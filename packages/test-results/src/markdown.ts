@@ -0,0 +1,68 @@
+import type { TestResult } from './results';
+import { summarizeResults, ResultCounts } from './summary';
+
+/** Lines of each failure message kept in the summary */
+const ERROR_LINES = 20;
+
+function duration(ms: number): string {
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function row(label: string, counts: ResultCounts): string {
+  const { tests, passed, failed, flaky, skipped } = counts;
+  return `| ${label} | ${tests} | ${passed} | ${failed} | ${flaky} | ${skipped} | ${duration(counts.duration)} |`;
+}
+
+function title(result: TestResult): string {
+  return [result.suite, ...result.titlePath].join(' › ');
+}
+
+function excerpt(error: string): string {
+  const lines = error.split('\n');
+  const kept = lines.slice(0, ERROR_LINES);
+  if (lines.length > ERROR_LINES) {
+    kept.push(`… ${lines.length - ERROR_LINES} more lines`);
+  }
+  // A fence longer than any backtick run in the message keeps it in the code block
+  const fence = '`'.repeat(Math.max(3, ...(error.match(/`+/g) ?? []).map(run => run.length + 1)));
+  return [fence, ...kept, fence].join('\n');
+}
+
+/**
+ * Markdown for a CI job summary: totals per suite, then every failed test with
+ * its error and every test that only passed on a retry
+ */
+export function formatResultsMarkdown(results: TestResult[]): string {
+  const summary = summarizeResults(results);
+  const { total } = summary;
+  const outcome =
+    total.failed > 0
+      ? `❌ **${total.failed} of ${total.tests} tests failed**`
+      : `✅ **All ${total.tests - total.skipped} tests passed**`;
+  const lines = [
+    '# API Automation Test Results',
+    '',
+    `${outcome} (${total.flaky} flaky, ${total.skipped} skipped) in ${duration(total.duration)}`,
+    '',
+    '| Suite | Tests | Passed | Failed | Flaky | Skipped | Duration |',
+    '|-------|------:|-------:|-------:|------:|--------:|---------:|',
+    ...Object.entries(summary.suites).map(([suite, counts]) => row(suite, counts)),
+    row('**Total**', total),
+  ];
+
+  if (summary.failed.length > 0) {
+    lines.push('', '## Failures');
+    for (const result of summary.failed) {
+      const attempts = result.retries > 0 ? ` (${result.retries + 1} attempts)` : '';
+      lines.push('', `### ${title(result)}${attempts}`, '', excerpt(result.error ?? 'No error message recorded'));
+    }
+  }
+  if (summary.flaky.length > 0) {
+    lines.push('', '## Flaky', '', ...summary.flaky.map(result => `- ${title(result)} (passed on retry ${result.retries})`));
+  }
+  return `${lines.join('\n')}\n`;
+}
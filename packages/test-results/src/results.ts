@@ -0,0 +1,139 @@
+import { readFileSync } from 'node:fs';
+import { basename } from 'node:path';
+
+/** `flaky`: failed, then passed on a retry */
+export type TestStatus = 'passed' | 'failed' | 'flaky' | 'skipped';
+
+/**
+ * One test from either suite's JSON results
+ */
+export interface TestResult {
+  /** Suite that ran it, e.g. `playwright-api` */
+  suite: string;
+  /** Spec file name, e.g. `auth.spec.ts` */
+  file: string;
+  /** Spec file name, describe titles and test title, like Playwright's `testInfo.titlePath` */
+  titlePath: string[];
+  status: TestStatus;
+  /** Milliseconds, all attempts */
+  duration: number;
+  retries: number;
+  /** Error messages of the last failed attempt */
+  error?: string;
+}
+
+interface PlaywrightError {
+  message?: string;
+  location?: { file: string };
+}
+
+interface PlaywrightTest {
+  expectedStatus: string;
+  status: 'expected' | 'unexpected' | 'flaky' | 'skipped';
+  results: { status: string; duration: number; retry: number; errors: PlaywrightError[] }[];
+}
+
+interface PlaywrightSuite {
+  title: string;
+  specs?: { title: string; tests: PlaywrightTest[] }[];
+  suites?: PlaywrightSuite[];
+}
+
+interface VitestResults {
+  testResults: {
+    name: string;
+    status: string;
+    message: string;
+    assertionResults: {
+      ancestorTitles: string[];
+      title: string;
+      status: string;
+      duration?: number | null;
+      failureMessages: string[];
+    }[];
+  }[];
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function errorText(messages: (string | undefined)[]): string | undefined {
+  const text = messages
+    .filter((message): message is string => Boolean(message))
+    .map(stripAnsi)
+    .join('\n\n');
+  return text || undefined;
+}
+
+const PLAYWRIGHT_STATUS: Record<PlaywrightTest['status'], TestStatus> = {
+  expected: 'passed',
+  unexpected: 'failed',
+  flaky: 'flaky',
+  skipped: 'skipped',
+};
+
+function playwrightTests(suite: PlaywrightSuite, titles: string[], name: string): TestResult[] {
+  return [
+    ...(suite.specs ?? []).flatMap(spec =>
+      spec.tests.map((test): TestResult => {
+        const failed = test.results.filter(result => !['passed', 'skipped'].includes(result.status)).pop();
+        const error = failed && errorText(failed.errors.map(entry => entry.message));
+        return {
+          suite: name,
+          file: titles[0],
+          titlePath: [...titles, spec.title],
+          status: test.expectedStatus === 'skipped' ? 'skipped' : PLAYWRIGHT_STATUS[test.status],
+          duration: test.results.reduce((sum, result) => sum + result.duration, 0),
+          retries: Math.max(0, ...test.results.map(result => result.retry)),
+          ...(error ? { error } : {}),
+        };
+      })
+    ),
+    ...(suite.suites ?? []).flatMap(child => playwrightTests(child, [...titles, child.title], name)),
+  ];
+}
+
+/**
+ * Tests of a Playwright JSON reporter file (`playwright-api/test-results.json`).
+ * Errors outside any test (global setup, a spec that fails to load) count as failed tests.
+ */
+export function readPlaywrightResults(file: string, suite = 'playwright-api'): TestResult[] {
+  const report = JSON.parse(readFileSync(file, 'utf8')) as { suites: PlaywrightSuite[]; errors?: PlaywrightError[] };
+  // Top-level suites are spec files, titled with their path under testDir
+  const tests = report.suites.flatMap(child => playwrightTests(child, [basename(child.title)], suite));
+  const errors = (report.errors ?? []).map((entry): TestResult => {
+    const name = entry.location ? basename(entry.location.file) : 'global setup';
+    return { suite, file: name, titlePath: [name], status: 'failed', duration: 0, retries: 0, error: errorText([entry.message]) };
+  });
+  return [...tests, ...errors];
+}
+
+/**
+ * Tests of a Vitest JSON reporter file (`supertest/test-results.json`).
+ * The reporter does not record retries, so they are always 0; a file that
+ * fails to load counts as one failed test.
+ */
+export function readVitestResults(file: string, suite = 'supertest'): TestResult[] {
+  const report = JSON.parse(readFileSync(file, 'utf8')) as VitestResults;
+  return report.testResults.flatMap((result): TestResult[] => {
+    const name = basename(result.name);
+    if (result.assertionResults.length === 0 && result.status === 'failed') {
+      return [
+        { suite, file: name, titlePath: [name], status: 'failed', duration: 0, retries: 0, error: errorText([result.message]) },
+      ];
+    }
+    return result.assertionResults.map((assertion): TestResult => {
+      const error = errorText(assertion.failureMessages);
+      return {
+        suite,
+        file: name,
+        titlePath: [name, ...assertion.ancestorTitles.filter(Boolean), assertion.title],
+        status: assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped',
+        duration: assertion.duration ?? 0,
+        retries: 0,
+        ...(error ? { error } : {}),
+      };
+    });
+  });
+}
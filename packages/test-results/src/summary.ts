@@ -0,0 +1,37 @@
+import type { TestResult, TestStatus } from './results';
+
+export interface ResultCounts extends Record<TestStatus, number> {
+  tests: number;
+  /** Milliseconds */
+  duration: number;
+}
+
+export interface ResultsSummary {
+  /** Per suite, in the order the suites were read */
+  suites: Record<string, ResultCounts>;
+  total: ResultCounts;
+  failed: TestResult[];
+  flaky: TestResult[];
+}
+
+function count(results: TestResult[]): ResultCounts {
+  const counts: ResultCounts = { tests: results.length, passed: 0, failed: 0, flaky: 0, skipped: 0, duration: 0 };
+  for (const result of results) {
+    counts[result.status] += 1;
+    counts.duration += result.duration;
+  }
+  return counts;
+}
+
+/**
+ * Totals per suite and overall, plus the failed and flaky tests
+ */
+export function summarizeResults(results: TestResult[]): ResultsSummary {
+  const suites = [...new Set(results.map(result => result.suite))];
+  return {
+    suites: Object.fromEntries(suites.map(suite => [suite, count(results.filter(result => result.suite === suite))])),
+    total: count(results),
+    failed: results.filter(result => result.status === 'failed'),
+    flaky: results.filter(result => result.status === 'flaky'),
+  };
+}
@@ -0,0 +1,162 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+/**
+ * Request as the client is about to send it
+ */
+export interface OutgoingRequest {
+  method: string;
+  /** Absolute URL, or a path relative to the client's base URL */
+  url: string;
+  /** Extra query parameters not already in `url` */
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  /** Parsed JSON body or raw string */
+  body?: unknown;
+}
+
+/**
+ * Response in the shape cassettes store it
+ */
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text when the body is not JSON */
+  body: unknown;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface Interaction {
+  key: string;
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export interface CassetteFile {
+  name: string;
+  recordedAt: string;
+  interactions: Interaction[];
+}
+
+/**
+ * Thrown in replay mode when a request has no recorded interaction
+ */
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * JSON with object keys sorted, so `{a, b}` and `{b, a}` bodies match
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? '';
+}
+
+/**
+ * Parse a string body as JSON when possible
+ */
+export function normalizeBody(body: unknown): unknown {
+  if (typeof body !== 'string') {
+    return body;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Split a request into path and sorted query string
+ */
+export function splitUrl(url: string, params: Record<string, unknown> = {}): { path: string; query: string } {
+  const parsed = new URL(url, 'http://cassette.local');
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      parsed.searchParams.append(key, String(value));
+    }
+  }
+  parsed.searchParams.sort();
+  return { path: parsed.pathname, query: parsed.searchParams.toString() };
+}
+
+/**
+ * Match key: method, path, sorted query and normalized body
+ */
+export function interactionKey(request: Pick<RecordedRequest, 'method' | 'path' | 'query' | 'body'>): string {
+  const query = request.query ? `?${request.query}` : '';
+  const body = request.body === undefined ? '' : ` ${stableStringify(request.body)}`;
+  return `${request.method.toUpperCase()} ${request.path}${query}${body}`;
+}
+
+/**
+ * Interactions of one test. Replay hands out the recorded responses of a key
+ * in recording order and fails once they are used up.
+ */
+export class Cassette {
+  private readonly used = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly file: string,
+    readonly interactions: Interaction[] = []
+  ) {}
+
+  static load(name: string, file: string): Cassette {
+    if (!existsSync(file)) {
+      throw new CassetteMismatchError(`Cassette not found: ${file} (record it with VCR_MODE=record)`);
+    }
+    const stored = JSON.parse(readFileSync(file, 'utf8')) as CassetteFile;
+    return new Cassette(name, file, stored.interactions);
+  }
+
+  add(interaction: Interaction): void {
+    this.interactions.push(interaction);
+  }
+
+  take(key: string): RecordedResponse {
+    const matches = this.interactions.filter(interaction => interaction.key === key);
+    if (matches.length === 0) {
+      const recorded = [...new Set(this.interactions.map(interaction => interaction.key))];
+      throw new CassetteMismatchError(
+        `No recorded interaction for "${key}" in cassette ${this.file}\n` +
+          `Recorded:\n${recorded.map(entry => `  ${entry}`).join('\n') || '  (none)'}`
+      );
+    }
+
+    const index = this.used.get(key) ?? 0;
+    if (index >= matches.length) {
+      throw new CassetteMismatchError(
+        `"${key}" was recorded ${matches.length} time(s) but requested again in cassette ${this.file}`
+      );
+    }
+    this.used.set(key, index + 1);
+    return matches[index].response;
+  }
+
+  save(): void {
+    const stored: CassetteFile = { name: this.name, recordedAt: new Date().toISOString(), interactions: this.interactions };
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, `${JSON.stringify(stored, null, 2)}\n`);
+  }
+}
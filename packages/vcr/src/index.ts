@@ -0,0 +1,6 @@
+/**
+ * VCR-style record/replay for the Playwright and Axios clients (VCR_MODE=record|replay)
+ */
+export * from './cassette';
+export * from './tokens';
+export * from './vcr';
@@ -0,0 +1,86 @@
+import { randomBytes } from 'node:crypto';
+import { loginResponseSchema, refreshResponseSchema } from '@saucedemo/contracts';
+
+const PLACEHOLDER_HEADER = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+interface PlaceholderClaims {
+  redacted: string;
+  iat?: number;
+  exp?: number;
+}
+
+function readClaims(token: string): Record<string, unknown> | undefined {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+function encode(claims: PlaceholderClaims, signature: string): string {
+  return `${PLACEHOLDER_HEADER}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.${signature}`;
+}
+
+/**
+ * Access/refresh tokens carried by a login or refresh response body
+ */
+export function tokensIn(body: unknown): string[] {
+  const login = loginResponseSchema.safeParse(body);
+  if (login.success) {
+    return [login.data.accessToken, login.data.refreshToken];
+  }
+  const refresh = refreshResponseSchema.safeParse(body);
+  return refresh.success ? [refresh.data.accessToken, refresh.data.refreshToken] : [];
+}
+
+/**
+ * Maps live tokens to the placeholders stored in cassettes, and back.
+ *
+ * Recording swaps each real token for an unsigned placeholder JWT that keeps
+ * only `iat`/`exp`. Replaying re-mints placeholders with a fresh `exp` (same
+ * lifetime), so session expiry logic behaves as it did when recording, and
+ * maps them back to the placeholder when they are sent in a later request.
+ */
+export class TokenVault {
+  private readonly placeholders = new Map<string, string>();
+
+  /** Record mode: register a real token and return its placeholder */
+  redact(token: string): string {
+    let placeholder = this.placeholders.get(token);
+    if (!placeholder) {
+      const claims = readClaims(token);
+      placeholder = encode(
+        {
+          redacted: randomBytes(6).toString('hex'),
+          iat: typeof claims?.iat === 'number' ? claims.iat : undefined,
+          exp: typeof claims?.exp === 'number' ? claims.exp : undefined,
+        },
+        'redacted'
+      );
+      this.placeholders.set(token, placeholder);
+    }
+    return placeholder;
+  }
+
+  /** Replay mode: turn a stored placeholder into a live token valid from now */
+  remint(placeholder: string): string {
+    const claims = readClaims(placeholder) as PlaceholderClaims | undefined;
+    if (!claims?.redacted) {
+      return placeholder;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const lifetime = claims.exp !== undefined && claims.iat !== undefined ? claims.exp - claims.iat : undefined;
+    const token = encode(
+      { redacted: claims.redacted, iat: now, exp: lifetime === undefined ? undefined : now + lifetime },
+      'replayed'
+    );
+    this.placeholders.set(token, placeholder);
+    return token;
+  }
+
+  /** Placeholder for a live token, if it is known */
+  placeholderFor(value: string): string | undefined {
+    return this.placeholders.get(value);
+  }
+}
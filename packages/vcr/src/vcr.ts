@@ -0,0 +1,157 @@
+import { join, resolve } from 'node:path';
+import {
+  interactionKey,
+  normalizeBody,
+  splitUrl,
+  Cassette,
+  CassetteMismatchError,
+  OutgoingRequest,
+  RecordedRequest,
+  RecordedResponse,
+} from './cassette';
+import { tokensIn, TokenVault } from './tokens';
+
+export type VcrMode = 'off' | 'record' | 'replay';
+
+export const DEFAULT_CASSETTE_DIR = 'cassettes';
+
+const REDACTED_AUTHORIZATION = 'Bearer <redacted>';
+
+/**
+ * VCR_MODE=record|replay (anything else: off)
+ */
+export function vcrMode(): VcrMode {
+  const mode = process.env.VCR_MODE?.toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+/**
+ * Cassette root (VCR_CASSETTE_DIR, default: ./cassettes of the running suite)
+ */
+export function cassetteDirectory(): string {
+  return resolve(process.env.VCR_CASSETTE_DIR || DEFAULT_CASSETTE_DIR);
+}
+
+/**
+ * Cassette file for a test: `<dir>/<file>/<describe>/<title>.json`, with unsafe characters replaced
+ * @param titlePath - Spec file followed by describe and test titles
+ */
+export function cassettePath(titlePath: string[], dir = cassetteDirectory()): string {
+  const [file, ...titles] = titlePath.map(part => part.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, ''));
+  const name = titles.pop() ?? 'hooks';
+  return join(dir, file, ...titles, `${name}.json`);
+}
+
+function replaceStrings(value: unknown, replace: (text: string) => string | undefined): unknown {
+  if (typeof value === 'string') {
+    return replace(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceStrings(item, replace));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, replaceStrings(item, replace)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Process-wide recorder/player. Clients route every request through
+ * `handle`; test hooks `insert` a cassette per test and `eject` it afterwards.
+ */
+export class Vcr {
+  private readonly stack: Cassette[] = [];
+  private readonly vault = new TokenVault();
+
+  constructor(readonly mode: VcrMode = vcrMode()) {}
+
+  get enabled(): boolean {
+    return this.mode !== 'off';
+  }
+
+  /**
+   * Make a cassette current (loading it from disk in replay mode)
+   */
+  insert(name: string, file: string): void {
+    if (this.enabled) {
+      this.stack.push(this.mode === 'replay' ? Cassette.load(name, file) : new Cassette(name, file));
+    }
+  }
+
+  /**
+   * Drop the current cassette, writing it to disk in record mode
+   */
+  eject(): void {
+    const cassette = this.stack.pop();
+    if (cassette && this.mode === 'record') {
+      cassette.save();
+    }
+  }
+
+  /**
+   * Send (record/off) or replay a request
+   * @param send - Performs the real request
+   */
+  async handle(request: OutgoingRequest, send: () => Promise<RecordedResponse>): Promise<RecordedResponse> {
+    const cassette = this.stack[this.stack.length - 1];
+    if (!this.enabled || (!cassette && this.mode === 'record')) {
+      return send();
+    }
+
+    const recorded = this.redactRequest(request);
+    const key = interactionKey(recorded);
+
+    if (this.mode === 'replay') {
+      if (!cassette) {
+        throw new CassetteMismatchError(`No cassette inserted for "${key}"`);
+      }
+      return this.remintResponse(cassette.take(key));
+    }
+
+    const response = await send();
+    cassette.add({ key, request: recorded, response: this.redactResponse(response) });
+    return response;
+  }
+
+  private redactRequest({ method, url, params, headers, body }: OutgoingRequest): RecordedRequest {
+    const { path, query } = splitUrl(url, params);
+    const redactedHeaders = headers
+      ? Object.fromEntries(
+          Object.entries(headers).map(([name, value]) => [
+            name,
+            name.toLowerCase() === 'authorization' ? REDACTED_AUTHORIZATION : value,
+          ])
+        )
+      : undefined;
+
+    return {
+      method: method.toUpperCase(),
+      path,
+      query,
+      ...(redactedHeaders ? { headers: redactedHeaders } : {}),
+      ...(body === undefined ? {} : { body: replaceStrings(normalizeBody(body), text => this.vault.placeholderFor(text)) }),
+    };
+  }
+
+  private redactResponse(response: RecordedResponse): RecordedResponse {
+    for (const token of tokensIn(response.body)) {
+      this.vault.redact(token);
+    }
+    return { ...response, body: replaceStrings(response.body, text => this.vault.placeholderFor(text)) };
+  }
+
+  private remintResponse(response: RecordedResponse): RecordedResponse {
+    const placeholders = new Set(tokensIn(response.body));
+    return {
+      ...response,
+      body: replaceStrings(response.body, text => (placeholders.has(text) ? this.vault.remint(text) : undefined)),
+    };
+  }
+}
+
+/**
+ * Shared instance for the current worker
+ */
+export const vcr = new Vcr();
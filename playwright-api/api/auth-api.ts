@@ -0,0 +1,45 @@
+import type { APIResponse } from '@playwright/test';
+import {
+  endpoints,
+  loginResponseSchema,
+  refreshResponseSchema,
+  userSchema,
+  LoginRequest,
+  LoginResponse,
+  RefreshRequest,
+  RefreshResponse,
+  User,
+} from '@saucedemo/contracts';
+import { BaseApi } from './base-api';
+
+/**
+ * Typed client for /auth endpoints
+ */
+export class AuthApi extends BaseApi {
+  /** POST /auth/login */
+  loginResponse(credentials: Partial<LoginRequest>): Promise<APIResponse> {
+    return this.request.post(endpoints.auth.login, { data: credentials });
+  }
+
+  async login(credentials: LoginRequest): Promise<LoginResponse> {
+    return this.parse(await this.loginResponse(credentials), loginResponseSchema);
+  }
+
+  /** GET /auth/me - requires an authenticated context */
+  meResponse(): Promise<APIResponse> {
+    return this.request.get(endpoints.auth.me);
+  }
+
+  async me(): Promise<User> {
+    return this.parse(await this.meResponse(), userSchema);
+  }
+
+  /** POST /auth/refresh */
+  refreshResponse(body: Partial<RefreshRequest>): Promise<APIResponse> {
+    return this.request.post(endpoints.auth.refresh, { data: body });
+  }
+
+  async refresh(body: RefreshRequest): Promise<RefreshResponse> {
+    return this.parse(await this.refreshResponse(body), refreshResponseSchema);
+  }
+}
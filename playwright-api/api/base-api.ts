@@ -0,0 +1,46 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { recordDrift } from '@saucedemo/contract-drift';
+import { requestInfo } from './request-info';
+
+/**
+ * Thrown by typed domain methods when the API answers with a non-2xx status
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly response: APIResponse,
+    public readonly body: unknown
+  ) {
+    super(`${response.status()} ${response.statusText()} from ${response.url()}: ${JSON.stringify(body)}`);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Base class for the typed domain clients.
+ * Typed methods return Zod-validated data; the matching `*Response` methods
+ * return the raw APIResponse so negative tests can assert on status codes.
+ */
+export abstract class BaseApi {
+  constructor(protected readonly request: APIRequestContext) {}
+
+  /**
+   * Validate a response body against a schema (and record drift when enabled)
+   * @param expectedStatus - Exact status required; any 2xx when omitted
+   * @throws ApiError when the response status is not the expected one
+   */
+  protected async parse<T>(
+    response: APIResponse,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    expectedStatus?: number
+  ): Promise<T> {
+    const body = await response.json().catch(() => undefined);
+    if (expectedStatus ? response.status() !== expectedStatus : !response.ok()) {
+      throw new ApiError(response, body);
+    }
+
+    const data = schema.parse(body);
+    recordDrift({ method: requestInfo(response)?.method, url: response.url(), schema, body });
+    return data;
+  }
+}
@@ -0,0 +1,74 @@
+import type { APIResponse } from '@playwright/test';
+import {
+  cartListSchema,
+  cartSchema,
+  deletedCartSchema,
+  endpoints,
+  toQueryParams,
+  AddToCartRequest,
+  Cart,
+  CartList,
+  DeletedCart,
+  ListQuery,
+  UpdateCartRequest,
+} from '@saucedemo/contracts';
+import { BaseApi } from './base-api';
+
+/**
+ * Typed client for /carts endpoints
+ */
+export class CartsApi extends BaseApi {
+  /** GET /carts */
+  listResponse(query?: ListQuery): Promise<APIResponse> {
+    return this.request.get(endpoints.carts.base, { params: toQueryParams(query) });
+  }
+
+  async list(query?: ListQuery): Promise<CartList> {
+    return this.parse(await this.listResponse(query), cartListSchema);
+  }
+
+  /** GET /carts/:id */
+  getResponse(id: number): Promise<APIResponse> {
+    return this.request.get(endpoints.carts.single(id));
+  }
+
+  async get(id: number): Promise<Cart> {
+    return this.parse(await this.getResponse(id), cartSchema);
+  }
+
+  /** GET /carts/user/:userId */
+  byUserResponse(userId: number): Promise<APIResponse> {
+    return this.request.get(endpoints.carts.user(userId));
+  }
+
+  async byUser(userId: number): Promise<CartList> {
+    return this.parse(await this.byUserResponse(userId), cartListSchema);
+  }
+
+  /** POST /carts/add */
+  addResponse(cart: Partial<AddToCartRequest>): Promise<APIResponse> {
+    return this.request.post(endpoints.carts.add, { data: cart });
+  }
+
+  async add(cart: AddToCartRequest): Promise<Cart> {
+    return this.parse(await this.addResponse(cart), cartSchema, 201);
+  }
+
+  /** PUT /carts/:id */
+  updateResponse(id: number, update: Partial<UpdateCartRequest>): Promise<APIResponse> {
+    return this.request.put(endpoints.carts.update(id), { data: update });
+  }
+
+  async update(id: number, update: UpdateCartRequest): Promise<Cart> {
+    return this.parse(await this.updateResponse(id, update), cartSchema);
+  }
+
+  /** DELETE /carts/:id */
+  deleteResponse(id: number): Promise<APIResponse> {
+    return this.request.delete(endpoints.carts.delete(id));
+  }
+
+  async delete(id: number): Promise<DeletedCart> {
+    return this.parse(await this.deleteResponse(id), deletedCartSchema);
+  }
+}
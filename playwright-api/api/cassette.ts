@@ -0,0 +1,124 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import { normalizeBody, vcr, RecordedResponse } from '@saucedemo/vcr';
+import { bodyOf, methodOf, urlOf, RequestOptions } from './request-info';
+
+const REQUEST_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'fetch']);
+
+/**
+ * APIResponse served from a cassette
+ */
+class ReplayedResponse implements APIResponse {
+  private readonly raw: string;
+
+  constructor(private readonly recorded: RecordedResponse, private readonly absoluteUrl: string) {
+    this.raw = typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body) ?? '';
+  }
+
+  async body(): Promise<Buffer> {
+    return Buffer.from(this.raw);
+  }
+
+  async dispose(): Promise<void> {}
+
+  async [Symbol.asyncDispose](): Promise<void> {}
+
+  headers(): { [key: string]: string } {
+    return { ...this.recorded.headers };
+  }
+
+  headersArray(): Array<{ name: string; value: string }> {
+    return Object.entries(this.recorded.headers).map(([name, value]) => ({ name, value }));
+  }
+
+  async json(): Promise<unknown> {
+    return JSON.parse(this.raw);
+  }
+
+  ok(): boolean {
+    return this.recorded.status >= 200 && this.recorded.status <= 299;
+  }
+
+  async securityDetails(): Promise<null> {
+    return null;
+  }
+
+  async serverAddr(): Promise<null> {
+    return null;
+  }
+
+  status(): number {
+    return this.recorded.status;
+  }
+
+  statusText(): string {
+    return this.recorded.statusText;
+  }
+
+  async text(): Promise<string> {
+    return this.raw;
+  }
+
+  timing(): ReturnType<APIResponse['timing']> {
+    const now = Date.now();
+    return {
+      startTime: now,
+      domainLookupStart: -1,
+      domainLookupEnd: -1,
+      connectStart: -1,
+      secureConnectionStart: -1,
+      connectEnd: -1,
+      requestStart: 0,
+      responseStart: 0,
+      responseEnd: 0,
+    };
+  }
+
+  url(): string {
+    return this.absoluteUrl;
+  }
+}
+
+/**
+ * Wrap a context so its requests are recorded to, or replayed from, the
+ * current VCR cassette (VCR_MODE=record|replay). Without VCR_MODE the
+ * context is returned untouched.
+ * @param baseURL - Base URL of the context, used to resolve replayed response URLs
+ */
+export function withCassette(context: APIRequestContext, baseURL: string): APIRequestContext {
+  if (!vcr.enabled) {
+    return context;
+  }
+
+  return new Proxy(context, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      if (typeof property !== 'string' || !REQUEST_METHODS.has(property)) {
+        return value.bind(target);
+      }
+
+      return async (urlOrRequest: unknown, options: RequestOptions = {}) => {
+        const url = urlOf(urlOrRequest, options.params);
+        let live: APIResponse | undefined;
+
+        const recorded = await vcr.handle(
+          { method: methodOf(property, urlOrRequest, options), url, headers: options.headers, body: bodyOf(options.data) },
+          async () => {
+            const response: APIResponse = await value.call(target, urlOrRequest, options);
+            live = response;
+            return {
+              status: response.status(),
+              statusText: response.statusText(),
+              headers: response.headers(),
+              body: normalizeBody(await response.text()),
+            };
+          }
+        );
+
+        return live ?? new ReplayedResponse(recorded, new URL(url, baseURL).toString());
+      };
+    },
+  });
+}
@@ -1,4 +1,17 @@
 import { request, APIRequestContext } from '@playwright/test';
+import type { AuthSession } from '@saucedemo/auth-session';
+import { withCassette } from './cassette';
+import { withHttpLog } from './http-log';
+import { withRequestInfo } from './request-info';
+import { withResilience } from './resilience';
+
+/**
+ * Layer VCR, the HTTP log (per attempt), the resilience policy and request
+ * tracking over a new context
+ */
+function decorate(context: APIRequestContext, baseURL: string, headers: Record<string, string>): APIRequestContext {
+  return withRequestInfo(withResilience(withHttpLog(withCassette(context, baseURL), baseURL, headers), baseURL));
+}
 
 /**
  * Creates an API request context with default configuration
@@ -6,31 +19,70 @@ import { request, APIRequestContext } from '@playwright/test';
  * @returns Configured APIRequestContext
  */
 export async function createAPIContext(baseURL?: string): Promise<APIRequestContext> {
-  return await request.newContext({
-    baseURL: baseURL || process.env.API_BASE_URL || 'https://dummyjson.com',
-    extraHTTPHeaders: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-    },
-  });
+  const url = baseURL || process.env.API_BASE_URL || 'https://dummyjson.com';
+
+  const extraHTTPHeaders = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
+
+  return decorate(await request.newContext({ baseURL: url, extraHTTPHeaders }), url, extraHTTPHeaders);
 }
 
 /**
- * Creates an authenticated API request context with bearer token
- * @param token - Authentication token
+ * Creates an authenticated API request context
+ * @param auth - Bearer token, or an AuthSession that supplies a fresh token per
+ * request and transparently refreshes it when the API answers 401
  * @param baseURL - Base URL for the API
  * @returns Configured APIRequestContext with auth header
  */
 export async function createAuthenticatedContext(
-  token: string,
+  auth: string | AuthSession,
   baseURL?: string
 ): Promise<APIRequestContext> {
-  return await request.newContext({
-    baseURL: baseURL || process.env.API_BASE_URL || 'https://dummyjson.com',
-    extraHTTPHeaders: {
-      'Content-Type': 'application/json',
-      'Accept': 'application/json',
-      'Authorization': `Bearer ${token}`,
+  if (typeof auth !== 'string') {
+    return withSession(await createAPIContext(baseURL), auth);
+  }
+
+  const url = baseURL || process.env.API_BASE_URL || 'https://dummyjson.com';
+
+  const extraHTTPHeaders = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    'Authorization': `Bearer ${auth}`,
+  };
+
+  return decorate(await request.newContext({ baseURL: url, extraHTTPHeaders }), url, extraHTTPHeaders);
+}
+
+const REQUEST_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'fetch']);
+
+/**
+ * Wrap a context so every request carries the session's current token
+ * and is retried once with a refreshed token after a 401
+ */
+function withSession(context: APIRequestContext, session: AuthSession): APIRequestContext {
+  return new Proxy(context, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      if (typeof property !== 'string' || !REQUEST_METHODS.has(property)) {
+        return value.bind(target);
+      }
+
+      return async (urlOrRequest: unknown, options: { headers?: Record<string, string> } = {}) => {
+        const send = (token: string) =>
+          value.call(target, urlOrRequest, {
+            ...options,
+            headers: { ...options.headers, Authorization: `Bearer ${token}` },
+          });
+
+        const token = await session.getAccessToken();
+        const response = await send(token);
+        return response.status() === 401 ? send(await session.refresh(token)) : response;
+      };
     },
   });
 }
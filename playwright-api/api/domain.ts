@@ -0,0 +1,31 @@
+import type { APIRequestContext } from '@playwright/test';
+import { AuthApi } from './auth-api';
+import { CartsApi } from './carts-api';
+import { ProductsApi } from './products-api';
+import { UsersApi } from './users-api';
+
+export { ApiError } from './base-api';
+export { AuthApi, CartsApi, ProductsApi, UsersApi };
+
+/**
+ * One typed client per DummyJSON resource, sharing a request context
+ */
+export interface DomainApis {
+  auth: AuthApi;
+  products: ProductsApi;
+  carts: CartsApi;
+  users: UsersApi;
+}
+
+/**
+ * Create all typed domain clients on top of an APIRequestContext
+ * @param request - Context from createAPIContext / createAuthenticatedContext
+ */
+export function createDomainApis(request: APIRequestContext): DomainApis {
+  return {
+    auth: new AuthApi(request),
+    products: new ProductsApi(request),
+    carts: new CartsApi(request),
+    users: new UsersApi(request),
+  };
+}
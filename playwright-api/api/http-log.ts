@@ -0,0 +1,49 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import { httpLog, HttpLog } from '@saucedemo/http-log';
+import { bodyOf, methodOf, urlOf, RequestOptions } from './request-info';
+
+const REQUEST_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'fetch']);
+
+/**
+ * Wrap a context so every request is recorded in the per-test HTTP log
+ * @param baseURL - Base URL of the context, used to log absolute URLs
+ * @param headers - The context's extraHTTPHeaders, logged with each request's own headers
+ */
+export function withHttpLog(
+  context: APIRequestContext,
+  baseURL: string,
+  headers: Record<string, string> = {},
+  log: HttpLog = httpLog
+): APIRequestContext {
+  return new Proxy(context, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      if (typeof property !== 'string' || !REQUEST_METHODS.has(property)) {
+        return value.bind(target);
+      }
+
+      return async (urlOrRequest: unknown, options: RequestOptions = {}) => {
+        const exchange = log.begin({
+          method: methodOf(property, urlOrRequest, options),
+          url: new URL(urlOf(urlOrRequest, options.params), baseURL).toString(),
+          headers: { ...headers, ...options.headers },
+          body: bodyOf(options.data),
+        });
+
+        let response: APIResponse;
+        try {
+          response = await value.call(target, urlOrRequest, options);
+        } catch (error) {
+          exchange.error(error);
+          throw error;
+        }
+
+        exchange.response({ status: response.status(), headers: response.headers(), body: await response.text() });
+        return response;
+      };
+    },
+  });
+}
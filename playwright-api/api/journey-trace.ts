@@ -0,0 +1,43 @@
+import { request } from '@playwright/test';
+import { personas } from '@saucedemo/auth-session';
+import { HttpLog, Redactor, redactionOptions } from '@saucedemo/http-log';
+import { createDomainApis } from './domain';
+import { withHttpLog } from './http-log';
+import { checkoutJourneys } from './journeys';
+
+/**
+ * A checkout journey as the requests it sent, in order
+ */
+export interface TracedJourney {
+  name: string;
+  requests: { method: string; url: string; body?: unknown; status?: number }[];
+}
+
+/**
+ * Run each checkout journey once (as emilys) and trace its requests for the
+ * Postman export. Headers are left out; bodies are kept unredacted so a
+ * journey's own login replays with its credentials.
+ * @param baseURL - API to run against, normally the mock server
+ */
+export async function traceCheckoutJourneys(baseURL: string): Promise<TracedJourney[]> {
+  const log = new HttpLog(new Redactor(redactionOptions({ fields: [] })));
+  const headers = { 'Content-Type': 'application/json', 'Accept': 'application/json' };
+  const context = withHttpLog(await request.newContext({ baseURL, extraHTTPHeaders: headers }), baseURL, headers, log);
+
+  try {
+    const apis = createDomainApis(context);
+    const user = await apis.auth.login(personas.emilys);
+    const traced: TracedJourney[] = [];
+    for (const { name, run } of checkoutJourneys) {
+      log.clear();
+      await run(apis, user);
+      traced.push({
+        name,
+        requests: log.entries.map(({ method, url, status, request }) => ({ method, url, body: request.body, status })),
+      });
+    }
+    return traced;
+  } finally {
+    await context.dispose();
+  }
+}
@@ -0,0 +1,108 @@
+import type { Cart, Category, LoginRequest, LoginResponse, Product, ProductList } from '@saucedemo/contracts';
+import { aCart, aCartLine, aLogin } from '@saucedemo/test-data';
+import type { DomainApis } from './domain';
+
+/**
+ * Multi-step shopper journeys shared by checkout.spec.ts (run once, with
+ * assertions on the results) and the load runner (run repeatedly by virtual users).
+ * Each step throws ApiError on an unexpected status.
+ */
+
+/**
+ * Login > Browse > Product details > Add to cart
+ */
+export async function loginBrowseAddToCart(
+  apis: DomainApis,
+  credentials: LoginRequest = aLogin()
+): Promise<{ login: LoginResponse; products: ProductList; product: Product; cart: Cart }> {
+  const login = await apis.auth.login(credentials);
+  const products = await apis.products.list();
+  const product = await apis.products.get(products.products[0].id);
+  const cart = await apis.carts.add({
+    userId: login.id,
+    products: [{ id: product.id, quantity: 2 }],
+  });
+
+  return { login, products, product, cart };
+}
+
+/**
+ * Browse the first page > Add its first three products with seeded quantities
+ */
+export async function multiProductCheckout(apis: DomainApis, user: LoginResponse): Promise<{ cart: Cart }> {
+  const products = await apis.products.list({ limit: 10 });
+  const lines = products.products.slice(0, 3).map(p => aCartLine({ id: p.id }));
+  const cart = await apis.carts.add(aCart({ userId: user.id, products: lines }));
+
+  return { cart };
+}
+
+/**
+ * Search > Select the first result > Add to cart
+ */
+export async function searchAddToCart(
+  apis: DomainApis,
+  user: LoginResponse,
+  term = 'phone'
+): Promise<{ results: ProductList; product: Product; cart: Cart }> {
+  const results = await apis.products.search(term);
+  const product = await apis.products.get(results.products[0].id);
+  const cart = await apis.carts.add({
+    userId: user.id,
+    products: [{ id: product.id, quantity: 1 }],
+  });
+
+  return { results, product, cart };
+}
+
+/**
+ * Categories > Browse the first category > Add its first product to cart
+ */
+export async function categoryAddToCart(
+  apis: DomainApis,
+  user: LoginResponse
+): Promise<{ categories: Category[]; category: ProductList; cart: Cart }> {
+  const categories = await apis.products.categories();
+  const category = await apis.products.byCategory(categories[0].slug);
+  const cart = await apis.carts.add({
+    userId: user.id,
+    products: [{ id: category.products[0].id, quantity: 1 }],
+  });
+
+  return { categories, category, cart };
+}
+
+/**
+ * Add to cart > Update the quantity
+ */
+export async function updateCartQuantity(apis: DomainApis, user: LoginResponse): Promise<{ cart: Cart }> {
+  await apis.carts.add({
+    userId: user.id,
+    products: [{ id: 1, quantity: 1 }],
+  });
+
+  // Note: DummyJSON only allows updates to pre-existing carts (IDs 1-30)
+  // Using cart ID 1 instead of the mock ID returned from add
+  const cart = await apis.carts.update(1, {
+    merge: false,
+    products: [{ id: 1, quantity: 5 }],
+  });
+
+  return { cart };
+}
+
+/**
+ * A named journey, run by the load runner and traced into the Postman export
+ */
+export interface CheckoutJourney {
+  name: string;
+  run: (apis: DomainApis, user: LoginResponse) => Promise<unknown>;
+}
+
+export const checkoutJourneys: CheckoutJourney[] = [
+  { name: 'Login > Browse > Add to Cart', run: apis => loginBrowseAddToCart(apis) },
+  { name: 'Multi-Product Checkout', run: multiProductCheckout },
+  { name: 'Search > Select > Add to Cart', run: (apis, user) => searchAddToCart(apis, user) },
+  { name: 'Category Browse > Add to Cart', run: categoryAddToCart },
+  { name: 'Update Cart Quantity', run: updateCartQuantity },
+];
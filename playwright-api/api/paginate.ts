@@ -0,0 +1,39 @@
+import type { APIRequestContext } from '@playwright/test';
+import { toQueryParams, ListQuery } from '@saucedemo/contracts';
+import { paginateList, ListItem, ListPage, PaginateOptions } from '@saucedemo/pagination';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { BaseApi } from './base-api';
+
+/**
+ * Fetches single list pages through BaseApi.parse, so pages get the same
+ * status check, validation and drift recording as the typed clients
+ */
+class ListPages<P extends ListPage> extends BaseApi {
+  constructor(
+    request: APIRequestContext,
+    private readonly listEndpoint: string,
+    private readonly schema: ZodType<P, ZodTypeDef, unknown>
+  ) {
+    super(request);
+  }
+
+  async fetch(query: ListQuery): Promise<P> {
+    return this.parse(await this.request.get(this.listEndpoint, { params: toQueryParams(query) }), this.schema);
+  }
+}
+
+/**
+ * Iterate every item of a list endpoint, validating each page
+ * @example
+ * for await (const cart of paginate(request, endpoints.carts.base, cartListSchema, { pageSize: 10 })) { ... }
+ * @throws ApiError on a non-2xx page, ZodError on a page that breaks the schema
+ */
+export function paginate<P extends ListPage>(
+  request: APIRequestContext,
+  listEndpoint: string,
+  schema: ZodType<P, ZodTypeDef, unknown>,
+  options?: PaginateOptions
+): AsyncGenerator<ListItem<P>, void, undefined> {
+  const pages = new ListPages(request, listEndpoint, schema);
+  return paginateList(query => pages.fetch(query), options);
+}
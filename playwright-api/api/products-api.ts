@@ -0,0 +1,64 @@
+import type { APIResponse } from '@playwright/test';
+import {
+  categoryListSchema,
+  endpoints,
+  productListSchema,
+  productSchema,
+  searchQuery,
+  toQueryParams,
+  Category,
+  ListQuery,
+  Product,
+  ProductList,
+} from '@saucedemo/contracts';
+import { BaseApi } from './base-api';
+
+/**
+ * Typed client for /products endpoints
+ */
+export class ProductsApi extends BaseApi {
+  /** GET /products */
+  listResponse(query?: ListQuery): Promise<APIResponse> {
+    return this.request.get(endpoints.products.base, { params: toQueryParams(query) });
+  }
+
+  async list(query?: ListQuery): Promise<ProductList> {
+    return this.parse(await this.listResponse(query), productListSchema);
+  }
+
+  /** GET /products/:id */
+  getResponse(id: number): Promise<APIResponse> {
+    return this.request.get(endpoints.products.single(id));
+  }
+
+  async get(id: number): Promise<Product> {
+    return this.parse(await this.getResponse(id), productSchema);
+  }
+
+  /** GET /products/search?q= */
+  searchResponse(term: string, query?: ListQuery): Promise<APIResponse> {
+    return this.request.get(endpoints.products.search, { params: searchQuery(term, query) });
+  }
+
+  async search(term: string, query?: ListQuery): Promise<ProductList> {
+    return this.parse(await this.searchResponse(term, query), productListSchema);
+  }
+
+  /** GET /products/categories */
+  categoriesResponse(): Promise<APIResponse> {
+    return this.request.get(endpoints.products.categories);
+  }
+
+  async categories(): Promise<Category[]> {
+    return this.parse(await this.categoriesResponse(), categoryListSchema);
+  }
+
+  /** GET /products/category/:category */
+  byCategoryResponse(category: string, query?: ListQuery): Promise<APIResponse> {
+    return this.request.get(endpoints.products.category(category), { params: toQueryParams(query) });
+  }
+
+  async byCategory(category: string, query?: ListQuery): Promise<ProductList> {
+    return this.parse(await this.byCategoryResponse(category, query), productListSchema);
+  }
+}
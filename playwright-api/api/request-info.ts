@@ -0,0 +1,88 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import type { RequestInfo } from '@saucedemo/schema-matchers';
+
+const METHOD_NAMES = ['get', 'post', 'put', 'patch', 'delete', 'head'];
+
+const requests = new WeakMap<APIResponse, RequestInfo>();
+
+/**
+ * Method and URL of the request behind a response made through a tracked context
+ */
+export function requestInfo(response: object): RequestInfo | undefined {
+  return requests.get(response as APIResponse);
+}
+
+/**
+ * HTTP method of a call to one of the context's request methods
+ */
+export function methodOf(name: string, urlOrRequest: unknown, options?: { method?: string }): string {
+  if (name !== 'fetch') {
+    return name.toUpperCase();
+  }
+  if (options?.method) {
+    return options.method.toUpperCase();
+  }
+  const request = urlOrRequest as { method?: () => string };
+  return typeof request?.method === 'function' ? request.method() : 'GET';
+}
+
+/**
+ * Options accepted by the context's request methods that affect what is sent
+ */
+export interface RequestOptions {
+  method?: string;
+  params?: string | URLSearchParams | Record<string, string | number | boolean>;
+  headers?: Record<string, string>;
+  data?: unknown;
+}
+
+/**
+ * Request URL (as given, possibly relative) with `params` appended
+ */
+export function urlOf(urlOrRequest: unknown, params: RequestOptions['params']): string {
+  const request = urlOrRequest as { url?: () => string };
+  const url = typeof request?.url === 'function' ? request.url() : String(urlOrRequest);
+  if (!params) {
+    return url;
+  }
+
+  const search = typeof params === 'string'
+    ? params
+    : new URLSearchParams(
+        params instanceof URLSearchParams
+          ? params
+          : Object.entries(params).map(([key, value]): [string, string] => [key, String(value)])
+      ).toString();
+  return search ? `${url}${url.includes('?') ? '&' : '?'}${search}` : url;
+}
+
+/**
+ * Request `data` with buffers decoded as text
+ */
+export function bodyOf(data: unknown): unknown {
+  return Buffer.isBuffer(data) ? data.toString('utf8') : data;
+}
+
+/**
+ * Wrap a context so each APIResponse remembers the method that produced it;
+ * APIResponse itself only exposes the URL
+ */
+export function withRequestInfo(context: APIRequestContext): APIRequestContext {
+  return new Proxy(context, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      if (typeof property !== 'string' || (property !== 'fetch' && !METHOD_NAMES.includes(property))) {
+        return value.bind(target);
+      }
+
+      return async (urlOrRequest: unknown, options?: { method?: string }) => {
+        const response: APIResponse = await value.call(target, urlOrRequest, options);
+        requests.set(response, { method: methodOf(property, urlOrRequest, options), url: response.url() });
+        return response;
+      };
+    },
+  });
+}
@@ -0,0 +1,62 @@
+import { test } from '@playwright/test';
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import { formatRetry, ResilientExecutor, AttemptInspector, RetryLogger } from '@saucedemo/resilience';
+import { methodOf } from './request-info';
+
+const REQUEST_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'head', 'fetch']);
+
+/**
+ * Log a retry to the test output and, inside a test, as an `http-retry` annotation in the report
+ */
+const logRetry: RetryLogger = event => {
+  const message = formatRetry(event);
+  console.warn(message);
+  try {
+    test.info().annotations.push({ type: 'http-retry', description: message });
+  } catch {
+    // Not inside a test (e.g. global setup)
+  }
+};
+
+/**
+ * Worker-wide executor; its per-host circuit breakers are shared by every context
+ */
+export const executor = new ResilientExecutor(undefined, { logger: logRetry });
+
+const inspectPlaywright: AttemptInspector<APIResponse> = {
+  response: response => ({ status: response.status(), retryAfter: response.headers()['retry-after'] }),
+  // Playwright reports network failures as "apiRequestContext.get: read ECONNRESET"
+  error: error => ({ code: error instanceof Error ? /\b(E[A-Z]{3,})\b/.exec(error.message)?.[1] : undefined }),
+};
+
+/**
+ * Wrap a context so each request runs under the resilience policy
+ * (idempotent retries with backoff, Retry-After, per-host circuit breaker)
+ * @param baseURL - Base URL of the context, used to resolve the breaker's host
+ */
+export function withResilience(
+  context: APIRequestContext,
+  baseURL: string,
+  resilient: ResilientExecutor = executor
+): APIRequestContext {
+  return new Proxy(context, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      if (typeof property !== 'string' || !REQUEST_METHODS.has(property)) {
+        return value.bind(target);
+      }
+
+      return (urlOrRequest: unknown, options?: { method?: string }) => {
+        const url = new URL(typeof urlOrRequest === 'string' ? urlOrRequest : baseURL, baseURL).toString();
+        return resilient.execute(
+          { method: methodOf(property, urlOrRequest, options), url },
+          () => value.call(target, urlOrRequest, options) as Promise<APIResponse>,
+          inspectPlaywright
+        );
+      };
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import type { APIRequestContext } from '@playwright/test';
+import type { ScenarioTransport } from '@saucedemo/scenarios';
+
+/**
+ * Sends scenario steps through a (decorated) APIRequestContext, so they get
+ * the same base URL, HTTP log, VCR and resilience layers as the specs
+ */
+export function playwrightScenarioTransport(request: APIRequestContext): ScenarioTransport {
+  return {
+    async send({ method, path, query, headers, body }) {
+      const response = await request.fetch(path, { method, params: query, headers, data: body });
+      return { status: response.status(), body: await response.json().catch(() => undefined) };
+    },
+  };
+}
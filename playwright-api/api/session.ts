@@ -0,0 +1,27 @@
+import { SessionManager, AuthTransport } from '@saucedemo/auth-session';
+import { createAPIContext } from './client';
+
+/**
+ * Sends session traffic (login, refresh, /auth/me) through a short-lived
+ * APIRequestContext so it follows the same base URL and headers as the specs
+ */
+export const playwrightAuthTransport: AuthTransport = {
+  async send({ method, path, body, token }) {
+    const context = await createAPIContext();
+    try {
+      const response = await context.fetch(path, {
+        method,
+        data: body,
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      });
+      return { status: response.status(), body: await response.json().catch(() => undefined) };
+    } finally {
+      await context.dispose();
+    }
+  },
+};
+
+/**
+ * Worker-wide session cache: each persona logs in once per worker
+ */
+export const sessions = new SessionManager(playwrightAuthTransport);
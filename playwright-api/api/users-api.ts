@@ -0,0 +1,88 @@
+import type { APIResponse } from '@playwright/test';
+import {
+  addedUserSchema,
+  deletedUserSchema,
+  endpoints,
+  filterQuery,
+  searchQuery,
+  toQueryParams,
+  userListSchema,
+  userSchema,
+  AddedUser,
+  AddUserRequest,
+  DeletedUser,
+  FieldPath,
+  ListQuery,
+  UpdateUserRequest,
+  User,
+  UserList,
+} from '@saucedemo/contracts';
+import { BaseApi } from './base-api';
+
+/**
+ * Typed client for /users endpoints
+ */
+export class UsersApi extends BaseApi {
+  /** GET /users */
+  listResponse(query?: ListQuery): Promise<APIResponse> {
+    return this.request.get(endpoints.users.base, { params: toQueryParams(query) });
+  }
+
+  async list(query?: ListQuery): Promise<UserList> {
+    return this.parse(await this.listResponse(query), userListSchema);
+  }
+
+  /** GET /users/:id */
+  getResponse(id: number): Promise<APIResponse> {
+    return this.request.get(endpoints.users.single(id));
+  }
+
+  async get(id: number): Promise<User> {
+    return this.parse(await this.getResponse(id), userSchema);
+  }
+
+  /** GET /users/search?q= */
+  searchResponse(term: string, query?: ListQuery): Promise<APIResponse> {
+    return this.request.get(endpoints.users.search, { params: searchQuery(term, query) });
+  }
+
+  async search(term: string, query?: ListQuery): Promise<UserList> {
+    return this.parse(await this.searchResponse(term, query), userListSchema);
+  }
+
+  /** GET /users/filter?key=&value= (nested keys like `hair.color`) */
+  filterResponse(key: FieldPath<User>, value: string | number | boolean, query?: ListQuery): Promise<APIResponse> {
+    return this.request.get(endpoints.users.filter, { params: filterQuery<User>(key, value, query) });
+  }
+
+  async filter(key: FieldPath<User>, value: string | number | boolean, query?: ListQuery): Promise<UserList> {
+    return this.parse(await this.filterResponse(key, value, query), userListSchema);
+  }
+
+  /** POST /users/add */
+  addResponse(user: Partial<AddUserRequest>): Promise<APIResponse> {
+    return this.request.post(endpoints.users.add, { data: user });
+  }
+
+  async add(user: AddUserRequest): Promise<AddedUser> {
+    return this.parse(await this.addResponse(user), addedUserSchema, 201);
+  }
+
+  /** PUT /users/:id */
+  updateResponse(id: number, update: UpdateUserRequest): Promise<APIResponse> {
+    return this.request.put(endpoints.users.update(id), { data: update });
+  }
+
+  async update(id: number, update: UpdateUserRequest): Promise<User> {
+    return this.parse(await this.updateResponse(id, update), userSchema);
+  }
+
+  /** DELETE /users/:id */
+  deleteResponse(id: number): Promise<APIResponse> {
+    return this.request.delete(endpoints.users.delete(id));
+  }
+
+  async delete(id: number): Promise<DeletedUser> {
+    return this.parse(await this.deleteResponse(id), deletedUserSchema);
+  }
+}
@@ -0,0 +1,37 @@
+import { finishCoverageSession, startCoverageSession } from '@saucedemo/api-coverage';
+import { finishDriftSession, startDriftSession } from '@saucedemo/contract-drift';
+import { finishLatencySession, startLatencySession } from '@saucedemo/latency';
+import { runSeed } from '@saucedemo/test-data';
+import { startMockServer, RunningMockServer } from '../mock-server/src/server';
+
+/**
+ * Starts the offline DummyJSON stand-in when API_MODE=mock and points
+ * API_BASE_URL at it. Workers inherit the variable, so `createAPIContext`
+ * and `use.baseURL` pick it up without any spec changes.
+ * With CONTRACT_DRIFT=1, also collects drift from every worker into one report.
+ * Fixes TEST_DATA_SEED for the run so every worker derives the same test data.
+ * Collects request latencies from every worker into a p50/p95/max report, and
+ * the endpoint/method/status of every request into the coverage matrix shared
+ * with the other suite.
+ * @returns Teardown that stops the server and writes the drift, latency and coverage reports
+ * (failing the run on a budget breach with LATENCY_ENFORCE=1)
+ */
+export default async function globalSetup(): Promise<() => Promise<void>> {
+  startDriftSession();
+  startLatencySession();
+  startCoverageSession('playwright-api');
+  runSeed();
+
+  let server: RunningMockServer | undefined;
+  if (process.env.API_MODE === 'mock') {
+    server = await startMockServer({ port: Number(process.env.MOCK_SERVER_PORT ?? 0) });
+    process.env.API_BASE_URL = server.url;
+  }
+
+  return async () => {
+    await server?.close();
+    finishDriftSession();
+    finishCoverageSession();
+    finishLatencySession();
+  };
+}
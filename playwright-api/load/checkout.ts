@@ -0,0 +1,75 @@
+import type { LoginResponse } from '@saucedemo/contracts';
+import {
+  assertLocalTarget,
+  formatLoadReport,
+  loadOptions,
+  runLoad,
+  summarizeLoad,
+  writeLoadReport,
+  Journey,
+} from '@saucedemo/load';
+import { aLogin } from '@saucedemo/test-data';
+import { startMockServer, RunningMockServer } from '../../mock-server/src/server';
+import { createAPIContext } from '../api/client';
+import { createDomainApis, DomainApis } from '../api/domain';
+import { checkoutJourneys } from '../api/journeys';
+
+/**
+ * Load test of the checkout.spec.ts journeys: `npm run load:mock` starts the
+ * mock server and runs LOAD_VUS virtual users for LOAD_DURATION seconds
+ * (LOAD_RAMP_UP, LOAD_THINK_MS). Writes load-report/report.{json,md}.
+ */
+
+interface VirtualUser {
+  apis: DomainApis;
+  /** Logged in once per virtual user with a seeded persona */
+  user: LoginResponse;
+  dispose: () => Promise<void>;
+}
+
+const journeys: Journey<VirtualUser>[] = checkoutJourneys.map(({ name, run }) => ({
+  name,
+  run: ({ apis, user }) => run(apis, user),
+}));
+
+let server: RunningMockServer | undefined;
+if (process.env.API_MODE === 'mock') {
+  server = await startMockServer({ port: Number(process.env.MOCK_SERVER_PORT ?? 0) });
+  process.env.API_BASE_URL = server.url;
+}
+
+try {
+  const baseURL = process.env.API_BASE_URL || 'https://dummyjson.com';
+  assertLocalTarget(baseURL);
+
+  const options = loadOptions();
+  console.log(
+    `Running ${journeys.length} checkout journeys as ${options.virtualUsers} virtual users ` +
+      `for ${options.durationMs / 1000}s against ${baseURL}`
+  );
+
+  const result = await runLoad<VirtualUser>(
+    {
+      journeys,
+      async setup() {
+        const context = await createAPIContext(baseURL);
+        const apis = createDomainApis(context);
+        try {
+          return { apis, user: await apis.auth.login(aLogin()), dispose: () => context.dispose() };
+        } catch (error) {
+          await context.dispose();
+          throw error;
+        }
+      },
+      teardown: ({ dispose }) => dispose(),
+    },
+    options
+  );
+
+  const report = summarizeLoad(result);
+  const path = writeLoadReport(report);
+  console.log(`\n${formatLoadReport(report)}`);
+  console.log(`Load report written to ${path}`);
+} finally {
+  await server?.close();
+}
@@ -1,7 +1,10 @@
-import { test, expect, APIRequestContext } from '@playwright/test';
-import { createAPIContext } from '../api/client';
-import { endpoints } from '../api/endpoints';
-import { loginResponseSchema, errorResponseSchema } from '../api/schema';
+import type { APIRequestContext } from '@playwright/test';
+import { endpoints, loginResponseSchema, errorResponseSchema, refreshResponseSchema } from '@saucedemo/contracts';
+import { AuthSession, AuthTransport, personas } from '@saucedemo/auth-session';
+import { createAPIContext, createAuthenticatedContext } from '../api/client';
+import { AuthApi } from '../api/domain';
+import { playwrightAuthTransport, sessions } from '../api/session';
+import { test, expect } from './fixtures';
 
 let apiContext: APIRequestContext;
 
@@ -117,3 +120,99 @@ test.describe('Authentication API Tests', () => {
     expect(validatedData.refreshToken).toMatch(/^[\w-]+\.[\w-]+\.[\w-]+$/);
   });
 });
+
+test.describe('Auth Session & Token Refresh Tests', () => {
+  let anonContext: APIRequestContext;
+
+  test.beforeAll(async () => {
+    anonContext = await createAPIContext();
+  });
+
+  test.afterAll(async () => {
+    await anonContext.dispose();
+  });
+
+  test('GET /auth/me - retrieve current user for a persona session', async () => {
+    const user = await sessions.session('emilys').me();
+
+    expect(user.username).toBe('emilys');
+    expect(user.id).toBe(sessions.session('emilys').profile?.id);
+  });
+
+  test('GET /auth/me - authenticated context carries the session token', async () => {
+    const authContext = await createAuthenticatedContext(sessions.session('michaelw'));
+    const user = await new AuthApi(authContext).me();
+    await authContext.dispose();
+
+    expect(user.username).toBe('michaelw');
+  });
+
+  test('GET /auth/me - fail without token', async () => {
+    const response = await anonContext.get(endpoints.auth.me);
+
+    expect(response.status()).toBe(401);
+    expect(errorResponseSchema.parse(await response.json()).message).toBeDefined();
+  });
+
+  test('POST /auth/refresh - issue new tokens from a refresh token', async () => {
+    const loginResponse = await anonContext.post(endpoints.auth.login, { data: personas.emilys });
+    const { refreshToken } = loginResponseSchema.parse(await loginResponse.json());
+
+    const response = await anonContext.post(endpoints.auth.refresh, {
+      data: { refreshToken, expiresInMins: 30 },
+    });
+
+    expect(response.status()).toBe(200);
+    const tokens = refreshResponseSchema.parse(await response.json());
+    expect(tokens.accessToken).toMatch(/^[\w-]+\.[\w-]+\.[\w-]+$/);
+  });
+
+  test('POST /auth/refresh - fail with invalid refresh token', async () => {
+    const response = await anonContext.post(endpoints.auth.refresh, {
+      data: { refreshToken: 'not.a.token' },
+    });
+
+    expect(response.ok()).toBeFalsy();
+    expect([401, 403]).toContain(response.status());
+  });
+
+  test('Session - refresh token before access token expiry', async () => {
+    const calls: string[] = [];
+    const counting: AuthTransport = {
+      send: (request) => {
+        calls.push(request.path);
+        return playwrightAuthTransport.send(request);
+      },
+    };
+
+    // A skew longer than the token lifetime makes every cached token "expiring"
+    const session = new AuthSession(counting, personas.emilys, { expiresInMins: 1, refreshSkewMs: 120_000 });
+    await session.getAccessToken();
+    await session.getAccessToken();
+
+    expect(calls).toEqual([endpoints.auth.login, endpoints.auth.refresh]);
+  });
+
+  test('Session - retry with refreshed token after 401', async () => {
+    const calls: string[] = [];
+    const corruptingFirstLogin: AuthTransport = {
+      send: async (request) => {
+        calls.push(request.path);
+        const response = await playwrightAuthTransport.send(request);
+        if (request.path === endpoints.auth.login) {
+          const body = loginResponseSchema.parse(response.body);
+          return { ...response, body: { ...body, accessToken: `${body.accessToken}x` } };
+        }
+        return response;
+      },
+    };
+
+    const session = new AuthSession(corruptingFirstLogin, personas.emilys);
+    const authContext = await createAuthenticatedContext(session);
+    const response = await authContext.get(endpoints.auth.me);
+    await authContext.dispose();
+
+    expect(response.status()).toBe(200);
+    expect(calls).toEqual([endpoints.auth.login, endpoints.auth.refresh]);
+  });
+});
@@ -1,119 +1,78 @@
-import { test, expect, APIRequestContext } from '@playwright/test';
-import { createAPIContext, createAuthenticatedContext } from '../api/client';
-import { endpoints } from '../api/endpoints';
-import { cartSchema, cartListSchema, loginResponseSchema } from '../api/schema';
-
-let apiContext: APIRequestContext;
-let authToken: string;
+import { cartListSchema, endpoints } from '@saucedemo/contracts';
+import { collect } from '@saucedemo/pagination';
+import { aCart } from '@saucedemo/test-data';
+import { paginate } from '../api/paginate';
+import { test, expect } from './fixtures';
 
 test.describe('Cart API Tests', () => {
-  test.beforeAll(async () => {
-    // Create context and get auth token
-    apiContext = await createAPIContext();
-    
-    // Login to get a token for authenticated requests
-    const loginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'emilys',
-        password: 'emilyspass',
-      },
-    });
-    
-    const loginData = loginResponseSchema.parse(await loginResponse.json());
-    authToken = loginData.accessToken;
-  });
+  test('GET /carts - retrieve all carts', async ({ apis }) => {
+    // Typed methods validate status and schema
+    const cartList = await apis.carts.list();
 
-  test.afterAll(async () => {
-    await apiContext.dispose();
+    expect(cartList.carts).toBeDefined();
+    expect(cartList.carts.length).toBeGreaterThan(0);
+    expect(cartList.total).toBeGreaterThan(0);
   });
 
-  test('GET /carts - retrieve all carts', async () => {
-    const response = await apiContext.get(endpoints.carts.base);
+  test('GET /carts - paginate every cart across pages', async ({ apis, anonApi }) => {
+    const { total } = await apis.carts.list({ limit: 1 });
+    const carts = await collect(paginate(anonApi, endpoints.carts.base, cartListSchema, { pageSize: 7, concurrency: 3 }));
 
-    expect(response.ok()).toBeTruthy();
-    expect(response.status()).toBe(200);
-
-    const responseBody = await response.json();
-    
-    // Validate response schema
-    const validatedData = cartListSchema.parse(responseBody);
-    
-    expect(validatedData.carts).toBeDefined();
-    expect(validatedData.carts.length).toBeGreaterThan(0);
-    expect(validatedData.total).toBeGreaterThan(0);
+    expect(carts).toHaveLength(total);
+    expect(new Set(carts.map(cart => cart.id)).size).toBe(total);
   });
 
-  test('GET /carts/:id - retrieve single cart by ID', async () => {
+  test('GET /carts/:id - retrieve single cart by ID', async ({ apis }) => {
     const cartId = 1;
-    const response = await apiContext.get(endpoints.carts.single(cartId));
-
-    expect(response.status()).toBe(200);
-
-    const responseBody = await response.json();
-    const validatedCart = cartSchema.parse(responseBody);
-    
-    expect(validatedCart.id).toBe(cartId);
-    expect(validatedCart.products).toBeDefined();
-    expect(validatedCart.products.length).toBeGreaterThan(0);
-    expect(validatedCart.total).toBeGreaterThan(0);
-    expect(validatedCart.userId).toBeDefined();
+    const cart = await apis.carts.get(cartId);
+
+    expect(cart.id).toBe(cartId);
+    expect(cart.products).toBeDefined();
+    expect(cart.products.length).toBeGreaterThan(0);
+    expect(cart.total).toBeGreaterThan(0);
+    expect(cart.userId).toBeDefined();
   });
 
-  test('GET /carts/:id - fail with non-existent cart ID', async () => {
-    const response = await apiContext.get(endpoints.carts.single(99999));
+  test('GET /carts/:id - fail with non-existent cart ID', async ({ apis }) => {
+    const response = await apis.carts.getResponse(99999);
 
     expect(response.ok()).toBeFalsy();
     expect(response.status()).toBe(404);
   });
 
-  test('GET /carts/user/:userId - retrieve carts by user ID', async () => {
+  test('GET /carts/user/:userId - retrieve carts by user ID', async ({ apis }) => {
     const userId = 5;
-    const response = await apiContext.get(endpoints.carts.user(userId));
+    const cartList = await apis.carts.byUser(userId);
 
-    expect(response.status()).toBe(200);
+    expect(cartList.carts).toBeDefined();
 
-    const responseBody = await response.json();
-    const validatedData = cartListSchema.parse(responseBody);
-    
-    expect(validatedData.carts).toBeDefined();
-    
     // Verify all carts belong to the requested user
-    validatedData.carts.forEach(cart => {
+    cartList.carts.forEach(cart => {
       expect(cart.userId).toBe(userId);
     });
   });
 
-  test('POST /carts/add - add a new cart', async () => {
-    const newCart = {
-      userId: 1,
-      products: [
-        {
-          id: 1,
-          quantity: 2,
-        },
-        {
-          id: 5,
-          quantity: 1,
-        },
-      ],
-    };
+  test('GET /carts/user/:userId - retrieve carts for the authenticated persona', async ({ authedApis, user }) => {
+    const cartList = await authedApis.carts.byUser(user.id);
 
-    const response = await apiContext.post(endpoints.carts.add, {
-      data: newCart,
+    cartList.carts.forEach(cart => {
+      expect(cart.userId).toBe(user.id);
     });
+  });
+
+  test('POST /carts/add - add a new cart', async ({ apis }) => {
+    const newCart = aCart({ userId: 1, lines: 2 });
 
-    expect(response.status()).toBe(201);
+    // add() requires 201 Created
+    const cart = await apis.carts.add(newCart);
 
-    const responseBody = await response.json();
-    const validatedCart = cartSchema.parse(responseBody);
-    
-    expect(validatedCart.products).toBeDefined();
-    expect(validatedCart.userId).toBe(newCart.userId);
-    expect(validatedCart.totalProducts).toBe(2);
+    expect(cart.products).toBeDefined();
+    expect(cart.userId).toBe(newCart.userId);
+    expect(cart.totalProducts).toBe(2);
   });
 
-  test('POST /carts/add - add cart with single product', async () => {
-    const newCart = {
+  test('POST /carts/add - add cart with single product', async ({ apis }) => {
+    const cart = await apis.carts.add({
       userId: 2,
       products: [
         {
@@ -121,23 +80,14 @@ test.describe('Cart API Tests', () => {
           quantity: 3,
         },
       ],
-    };
-
-    const response = await apiContext.post(endpoints.carts.add, {
-      data: newCart,
     });
 
-    expect(response.status()).toBe(201);
-
-    const responseBody = await response.json();
-    const validatedCart = cartSchema.parse(responseBody);
-    
-    expect(validatedCart.totalProducts).toBe(1);
+    expect(cart.totalProducts).toBe(1);
   });
 
-  test('PUT /carts/:id - update an existing cart', async () => {
+  test('PUT /carts/:id - update an existing cart', async ({ apis }) => {
     const cartId = 1;
-    const updateData = {
+    const cart = await apis.carts.update(cartId, {
       merge: false,
       products: [
         {
@@ -145,39 +95,24 @@ test.describe('Cart API Tests', () => {
           quantity: 5,
         },
       ],
-    };
-
-    const response = await apiContext.put(endpoints.carts.update(cartId), {
-      data: updateData,
     });
 
-    expect(response.status()).toBe(200);
-
-    const responseBody = await response.json();
-    const validatedCart = cartSchema.parse(responseBody);
-    
-    expect(validatedCart.id).toBe(cartId);
-    expect(validatedCart.products).toBeDefined();
+    expect(cart.id).toBe(cartId);
+    expect(cart.products).toBeDefined();
   });
 
-  test('DELETE /carts/:id - delete a cart', async () => {
+  test('DELETE /carts/:id - delete a cart', async ({ apis }) => {
     const cartId = 1;
-    const response = await apiContext.delete(endpoints.carts.delete(cartId));
+    const deletedCart = await apis.carts.delete(cartId);
 
-    expect(response.status()).toBe(200);
-
-    const responseBody = await response.json();
-    
     // DummyJSON returns the deleted cart with isDeleted flag
-    expect(responseBody.id).toBe(cartId);
-    expect(responseBody.isDeleted).toBe(true);
+    expect(deletedCart.id).toBe(cartId);
+    expect(deletedCart.isDeleted).toBe(true);
   });
 
-  test('Validate cart schema fields', async () => {
-    const response = await apiContext.get(endpoints.carts.single(1));
-    const responseBody = await response.json();
-    const cart = cartSchema.parse(responseBody);
-    
+  test('Validate cart schema fields', async ({ apis }) => {
+    const cart = await apis.carts.get(1);
+
     // Verify all required fields are present
     expect(cart).toHaveProperty('id');
     expect(cart).toHaveProperty('products');
@@ -186,7 +121,7 @@ test.describe('Cart API Tests', () => {
     expect(cart).toHaveProperty('userId');
     expect(cart).toHaveProperty('totalProducts');
     expect(cart).toHaveProperty('totalQuantity');
-    
+
     // Verify product structure
     expect(cart.products[0]).toHaveProperty('id');
     expect(cart.products[0]).toHaveProperty('title');
@@ -195,37 +130,24 @@ test.describe('Cart API Tests', () => {
     expect(cart.products[0]).toHaveProperty('total');
   });
 
-  test('Cart workflow - login, add to cart, retrieve', async () => {
+  test('Cart workflow - login, add to cart, retrieve', async ({ apis }) => {
     // Step 1: Login
-    const loginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'emilys',
-        password: 'emilyspass',
-      },
+    const loginData = await apis.auth.login({
+      username: 'emilys',
+      password: 'emilyspass',
     });
-    
-    expect(loginResponse.status()).toBe(200);
-    const loginData = await loginResponse.json();
-    const token = loginData.accessToken;
 
     // Step 2: Add to cart
-    const addCartResponse = await apiContext.post(endpoints.carts.add, {
-      data: {
-        userId: loginData.id,
-        products: [
-          { id: 1, quantity: 1 },
-        ],
-      },
+    const addedCart = await apis.carts.add({
+      userId: loginData.id,
+      products: [
+        { id: 1, quantity: 1 },
+      ],
     });
-    
-    expect(addCartResponse.status()).toBe(201);
-    const cartData = await addCartResponse.json();
+    expect(addedCart.userId).toBe(loginData.id);
 
     // Step 3: Retrieve a pre-existing cart (DummyJSON only allows retrieval of carts 1-30)
-    const getCartResponse = await apiContext.get(endpoints.carts.single(1));
-    
-    expect(getCartResponse.status()).toBe(200);
-    const retrievedCart = cartSchema.parse(await getCartResponse.json());
+    const retrievedCart = await apis.carts.get(1);
     expect(retrievedCart.id).toBe(1);
   });
 });
@@ -1,322 +1,107 @@
-import { test, expect, APIRequestContext } from '@playwright/test';
-import { createAPIContext } from '../api/client';
-import { endpoints } from '../api/endpoints';
-import { loginResponseSchema, productSchema, cartSchema } from '../api/schema';
-
-let apiContext: APIRequestContext;
+import { aCart, aCartLine, aLogin } from '@saucedemo/test-data';
+import {
+  categoryAddToCart,
+  loginBrowseAddToCart,
+  multiProductCheckout,
+  searchAddToCart,
+  updateCartQuantity,
+} from '../api/journeys';
+import { test, expect } from './fixtures';
 
 test.describe('Checkout/End-to-End Flow Tests', () => {
-  test.beforeAll(async () => {
-    apiContext = await createAPIContext();
-  });
-
-  test.afterAll(async () => {
-    await apiContext.dispose();
+  test('Complete E2E Checkout Flow - Login > Browse > Add to Cart', async ({ apis }) => {
+    // Login (seeded persona) > Browse > Product details > Add to cart
+    const { login, products, product, cart } = await loginBrowseAddToCart(apis, aLogin());
+
+    expect(login.accessToken).toBeDefined();
+    expect(products.products.length).toBeGreaterThan(0);
+    expect(product.id).toBe(products.products[0].id);
+    expect(cart.userId).toBe(login.id);
+    expect(cart.products.length).toBeGreaterThan(0);
+    expect(cart.total).toBeGreaterThan(0);
   });
 
-  test('Complete E2E Checkout Flow - Login > Browse > Add to Cart', async () => {
-    // Step 1: User Authentication
-    const loginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'emilys',
-        password: 'emilyspass',
-      },
-    });
+  test.describe('as michaelw', () => {
+    test.use({ persona: 'michaelw' });
 
-    expect(loginResponse.status()).toBe(200);
-    const loginData = loginResponseSchema.parse(await loginResponse.json());
-    
-    expect(loginData.accessToken).toBeDefined();
-    const authToken = loginData.accessToken;
-    const userId = loginData.id;
+    test('Multi-Product Checkout Flow', async ({ authedApis, user }) => {
+      // Authenticated as michaelw via the persona fixture; adds three products with seeded quantities
+      const { cart } = await multiProductCheckout(authedApis, user);
 
-    // Step 2: Browse Products
-    const productsResponse = await apiContext.get(endpoints.products.base);
-    expect(productsResponse.status()).toBe(200);
-    
-    const productsData = await productsResponse.json();
-    expect(productsData.products.length).toBeGreaterThan(0);
-
-    // Step 3: Get Product Details
-    const productId = productsData.products[0].id;
-    const productResponse = await apiContext.get(endpoints.products.single(productId));
-    expect(productResponse.status()).toBe(200);
-    
-    const product = productSchema.parse(await productResponse.json());
-    expect(product.id).toBe(productId);
-
-    // Step 4: Add to Cart
-    const cartResponse = await apiContext.post(endpoints.carts.add, {
-      data: {
-        userId: userId,
-        products: [
-          {
-            id: productId,
-            quantity: 2,
-          },
-        ],
-      },
+      expect(cart.products.length).toBe(3);
+      expect(cart.totalProducts).toBe(3);
+      expect(cart.total).toBeGreaterThan(0);
+      expect(cart.discountedTotal).toBeLessThanOrEqual(cart.total);
     });
-
-    expect(cartResponse.status()).toBe(201);
-    const cartData = cartSchema.parse(await cartResponse.json());
-    
-    expect(cartData.userId).toBe(userId);
-    expect(cartData.products.length).toBeGreaterThan(0);
-    expect(cartData.total).toBeGreaterThan(0);
   });
 
-  test('Multi-Product Checkout Flow', async () => {
-    // Step 1: Login
-    const loginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'michaelw',
-        password: 'michaelwpass',
-      },
-    });
-
-    const loginData = await loginResponse.json();
-    const userId = loginData.id;
-
-    // Step 2: Browse and select multiple products
-    const productsResponse = await apiContext.get(endpoints.products.limit(10));
-    const productsData = await productsResponse.json();
-
-    const selectedProducts = productsData.products.slice(0, 3).map((p: any) => ({
-      id: p.id,
-      quantity: Math.floor(Math.random() * 3) + 1,
-    }));
+  test('Search > Select > Add to Cart Flow', async ({ authedApis: apis, user }) => {
+    // Authenticated as emilys via the persona fixture
+    const { results, product, cart } = await searchAddToCart(apis, user, 'phone');
 
-    // Step 3: Add multiple items to cart
-    const cartResponse = await apiContext.post(endpoints.carts.add, {
-      data: {
-        userId: userId,
-        products: selectedProducts,
-      },
-    });
-
-    expect(cartResponse.status()).toBe(201);
-    const cartData = cartSchema.parse(await cartResponse.json());
-    
-    expect(cartData.products.length).toBe(3);
-    expect(cartData.totalProducts).toBe(3);
-    expect(cartData.total).toBeGreaterThan(0);
-    expect(cartData.discountedTotal).toBeLessThanOrEqual(cartData.total);
+    expect(results.products.length).toBeGreaterThan(0);
+    expect(cart.products[0].id).toBe(product.id);
   });
 
-  test('Search > Select > Add to Cart Flow', async () => {
-    // Step 1: Login
-    const loginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'emilys',
-        password: 'emilyspass',
-      },
-    });
-
-    const loginData = await loginResponse.json();
-
-    // Step 2: Search for specific product
-    const searchTerm = 'phone';
-    const searchResponse = await apiContext.get(
-      `${endpoints.products.search}?q=${searchTerm}`
-    );
-    
-    expect(searchResponse.status()).toBe(200);
-    const searchData = await searchResponse.json();
-    expect(searchData.products.length).toBeGreaterThan(0);
-
-    // Step 3: Select first search result
-    const selectedProduct = searchData.products[0];
-    const productResponse = await apiContext.get(
-      endpoints.products.single(selectedProduct.id)
-    );
-    
-    const product = productSchema.parse(await productResponse.json());
+  test('Category Browse > Add to Cart Flow', async ({ authedApis: apis, user }) => {
+    // Authenticated as emilys via the persona fixture; the add itself requires a 201
+    const { categories, category, cart } = await categoryAddToCart(apis, user);
 
-    // Step 4: Add to cart
-    const cartResponse = await apiContext.post(endpoints.carts.add, {
-      data: {
-        userId: loginData.id,
-        products: [
-          {
-            id: product.id,
-            quantity: 1,
-          },
-        ],
-      },
-    });
-
-    expect(cartResponse.status()).toBe(201);
-    const cartData = await cartResponse.json();
-    expect(cartData.products[0].id).toBe(product.id);
-  });
-
-  test('Category Browse > Add to Cart Flow', async () => {
-    // Step 1: Login
-    const loginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'emilys',
-        password: 'emilyspass',
-      },
-    });
-
-    const loginData = await loginResponse.json();
-
-    // Step 2: Get categories
-    const categoriesResponse = await apiContext.get(endpoints.products.categories);
-    expect(categoriesResponse.status()).toBe(200);
-    
-    const categories = await categoriesResponse.json();
     expect(categories.length).toBeGreaterThan(0);
-
-    // Step 3: Browse products in first category
-    const category = categories[0];
-    const categoryProductsResponse = await apiContext.get(
-      endpoints.products.category(category.slug)
-    );
-    
-    expect(categoryProductsResponse.status()).toBe(200);
-    const categoryProducts = await categoryProductsResponse.json();
-
-    // Step 4: Add product from category to cart
-    const productToAdd = categoryProducts.products[0];
-    const cartResponse = await apiContext.post(endpoints.carts.add, {
-      data: {
-        userId: loginData.id,
-        products: [
-          {
-            id: productToAdd.id,
-            quantity: 1,
-          },
-        ],
-      },
-    });
-
-    expect(cartResponse.status()).toBe(201);
+    expect(cart.products[0].id).toBe(category.products[0].id);
   });
 
-  test('Update Cart Quantity Flow', async () => {
-    // Step 1: Login and create cart
-    const loginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'emilys',
-        password: 'emilyspass',
-      },
-    });
-
-    const loginData = await loginResponse.json();
+  test('Update Cart Quantity Flow', async ({ authedApis: apis, user }) => {
+    // Authenticated as emilys via the persona fixture; updates pre-existing cart 1
+    const { cart } = await updateCartQuantity(apis, user);
 
-    // Step 2: Add to cart
-    const cartResponse = await apiContext.post(endpoints.carts.add, {
-      data: {
-        userId: loginData.id,
-        products: [
-          { id: 1, quantity: 1 },
-        ],
-      },
-    });
-
-    const cartData = await cartResponse.json();
-    // Note: DummyJSON only allows updates to pre-existing carts (IDs 1-30)
-    // Using cart ID 1 instead of the mock ID returned from add
-    const cartId = 1;
-
-    // Step 3: Update cart quantity
-    const updateResponse = await apiContext.put(endpoints.carts.update(cartId), {
-      data: {
-        merge: false,
-        products: [
-          { id: 1, quantity: 5 },
-        ],
-      },
-    });
-
-    expect(updateResponse.status()).toBe(200);
-    const updatedCart = await updateResponse.json();
-    
-    // Verify quantity was updated
-    expect(updatedCart.id).toBe(cartId);
+    expect(cart.id).toBe(1);
   });
 
-  test('Complete Flow with Error Handling', async () => {
+  test('Complete Flow with Error Handling', async ({ apis }) => {
     // Step 1: Attempt login with invalid credentials
-    const invalidLoginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'invalid',
-        password: 'invalid',
-      },
+    const invalidLoginResponse = await apis.auth.loginResponse({
+      username: 'invalid',
+      password: 'invalid',
     });
 
     expect(invalidLoginResponse.status()).toBe(400);
 
     // Step 2: Successful login
-    const validLoginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'emilys',
-        password: 'emilyspass',
-      },
+    const loginData = await apis.auth.login({
+      username: 'emilys',
+      password: 'emilyspass',
     });
 
-    expect(validLoginResponse.status()).toBe(200);
-    const loginData = await validLoginResponse.json();
-
     // Step 3: Attempt to get non-existent product
-    const invalidProductResponse = await apiContext.get(
-      endpoints.products.single(99999)
-    );
-    
+    const invalidProductResponse = await apis.products.getResponse(99999);
+
     expect(invalidProductResponse.status()).toBe(404);
 
     // Step 4: Get valid product and add to cart
-    const validProductResponse = await apiContext.get(endpoints.products.single(1));
-    expect(validProductResponse.status()).toBe(200);
-
-    const product = await validProductResponse.json();
+    const product = await apis.products.get(1);
 
-    const cartResponse = await apiContext.post(endpoints.carts.add, {
-      data: {
-        userId: loginData.id,
-        products: [
-          { id: product.id, quantity: 1 },
-        ],
-      },
+    const cartResponse = await apis.carts.addResponse({
+      userId: loginData.id,
+      products: [
+        { id: product.id, quantity: 1 },
+      ],
     });
 
     expect(cartResponse.status()).toBe(201);
   });
 
-  test('Verify Cart Total Calculation', async () => {
+  test('Verify Cart Total Calculation', async ({ authedApis: apis, user }) => {
     // Step 1: Get product price
-    const productResponse = await apiContext.get(endpoints.products.single(1));
-    const product = productSchema.parse(await productResponse.json());
-    const productPrice = product.price;
-
-    // Step 2: Login
-    const loginResponse = await apiContext.post(endpoints.auth.login, {
-      data: {
-        username: 'emilys',
-        password: 'emilyspass',
-      },
-    });
-
-    const loginData = await loginResponse.json();
+    const product = await apis.products.get(1);
 
-    // Step 3: Add multiple quantities to cart
-    const quantity = 3;
-    const cartResponse = await apiContext.post(endpoints.carts.add, {
-      data: {
-        userId: loginData.id,
-        products: [
-          { id: product.id, quantity: quantity },
-        ],
-      },
-    });
+    // Step 2: Add a seeded quantity to cart (as the emilys persona)
+    const line = aCartLine({ id: product.id });
+    const cartData = await apis.carts.add(aCart({ userId: user.id, products: [line] }));
 
-    const cartData = cartSchema.parse(await cartResponse.json());
-    
     // Verify total calculations
     expect(cartData.total).toBeGreaterThan(0);
     expect(cartData.discountedTotal).toBeLessThanOrEqual(cartData.total);
-    expect(cartData.totalQuantity).toBe(quantity);
+    expect(cartData.totalQuantity).toBe(line.quantity);
   });
 });
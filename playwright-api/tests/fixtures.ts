@@ -0,0 +1,151 @@
+import { test as base, expect as baseExpect, APIRequestContext } from '@playwright/test';
+import { recordCoverage, setCoverageTest } from '@saucedemo/api-coverage';
+import type { PersonaName } from '@saucedemo/auth-session';
+import { httpLog as exchanges, httpLogAlways, HttpLog } from '@saucedemo/http-log';
+import type { LoginResponse } from '@saucedemo/contracts';
+import { recordLatency } from '@saucedemo/latency';
+import { createSchemaMatcher } from '@saucedemo/schema-matchers';
+import { seedFor, seedMessage, useSeed } from '@saucedemo/test-data';
+import { cassettePath, vcr } from '@saucedemo/vcr';
+import { createAPIContext, createAuthenticatedContext } from '../api/client';
+import { createDomainApis, DomainApis } from '../api/domain';
+import { requestInfo } from '../api/request-info';
+import { sessions } from '../api/session';
+
+// Every logged request also feeds the run's latency and coverage reports
+exchanges.subscribe(recordLatency);
+exchanges.subscribe(recordCoverage);
+
+export interface AuthedApiOptions {
+  persona: PersonaName;
+}
+
+/**
+ * Per-test identity fixtures. They resolve to worker-cached sessions and
+ * contexts, so switching persona with test.use({ persona }) in a describe
+ * block costs no extra login and no new worker.
+ */
+export interface ApiTestFixtures {
+  /** Identity used by `user` and `authedApis` (default: emilys) */
+  persona: PersonaName;
+  /** Typed domain clients authenticated as `persona` */
+  authedApis: DomainApis;
+  /** Login profile of `persona` (id, username, tokens) */
+  user: LoginResponse;
+  /** Automatic: records/replays the test's traffic as a cassette when VCR_MODE is set */
+  cassette: void;
+  /** Automatic: seeds the test-data builders per test and reports the seed on failure */
+  testDataSeed: number;
+  /**
+   * Automatic: the test's redacted HTTP exchanges, attached to the report on
+   * failure (or always with HTTP_LOG=always) with cURL/HTTPie reproductions
+   */
+  httpLog: HttpLog;
+}
+
+/**
+ * Worker-scoped API fixtures. Contexts are created on first use and
+ * disposed automatically when the worker shuts down.
+ */
+export interface ApiWorkerFixtures {
+  /** Unauthenticated request context */
+  anonApi: APIRequestContext;
+  /** Session-backed context for a persona, cached per persona */
+  authedApi: (options: AuthedApiOptions) => Promise<APIRequestContext>;
+  /** Typed domain clients over `anonApi` */
+  apis: DomainApis;
+}
+
+export const test = base.extend<ApiTestFixtures, ApiWorkerFixtures>({
+  persona: ['emilys', { option: true }],
+
+  cassette: [async ({}, use, testInfo) => {
+    if (!vcr.enabled) {
+      await use();
+      return;
+    }
+
+    // Each cassette holds its own login, so replay does not depend on test order
+    sessions.reset();
+    vcr.insert(testInfo.titlePath.join(' > '), cassettePath(testInfo.titlePath));
+    try {
+      await use();
+    } finally {
+      vcr.eject();
+    }
+  }, { auto: true }],
+
+  testDataSeed: [async ({}, use, testInfo) => {
+    const seed = seedFor(testInfo.titlePath);
+    useSeed(seed);
+    await use(seed);
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      testInfo.annotations.push({ type: 'test-data-seed', description: seedMessage() });
+      console.error(seedMessage());
+    }
+  }, { auto: true }],
+
+  httpLog: [async ({}, use, testInfo) => {
+    exchanges.clear();
+    setCoverageTest(testInfo.titlePath);
+    await use(exchanges);
+    setCoverageTest();
+
+    const failed = testInfo.status !== testInfo.expectedStatus;
+    if ((failed || httpLogAlways()) && exchanges.entries.length > 0) {
+      await testInfo.attach('http-log.json', { body: JSON.stringify(exchanges, null, 2), contentType: 'application/json' });
+      await testInfo.attach('http-log.txt', { body: exchanges.format(), contentType: 'text/plain' });
+    }
+    if (failed && exchanges.entries.length > 0) {
+      await testInfo.attach('reproduce.curl.sh', { body: exchanges.reproduction('curl'), contentType: 'text/plain' });
+      await testInfo.attach('reproduce.httpie.sh', { body: exchanges.reproduction('httpie'), contentType: 'text/plain' });
+    }
+  }, { auto: true }],
+
+  anonApi: [async ({}, use) => {
+    const context = await createAPIContext();
+    await use(context);
+    await context.dispose();
+  }, { scope: 'worker' }],
+
+  authedApi: [async ({}, use) => {
+    const contexts = new Map<PersonaName, Promise<APIRequestContext>>();
+
+    await use(({ persona }) => {
+      let context = contexts.get(persona);
+      if (!context) {
+        context = createAuthenticatedContext(sessions.session(persona));
+        contexts.set(persona, context);
+      }
+      return context;
+    });
+
+    await Promise.all([...contexts.values()].map(async context => (await context).dispose()));
+  }, { scope: 'worker' }],
+
+  apis: [async ({ anonApi }, use) => {
+    await use(createDomainApis(anonApi));
+  }, { scope: 'worker' }],
+
+  authedApis: async ({ authedApi, persona }, use) => {
+    await use(createDomainApis(await authedApi({ persona })));
+  },
+
+  user: async ({ persona }, use) => {
+    const session = sessions.session(persona);
+    await session.getAccessToken();
+    const profile = session.profile;
+    if (!profile) {
+      throw new Error(`Session for persona "${persona}" has no login profile after authenticating`);
+    }
+    await use(profile);
+  },
+});
+
+/**
+ * `expect` with `await expect(responseOrBody).toMatchSchema(schema)`
+ */
+export const expect = baseExpect.extend({
+  toMatchSchema: createSchemaMatcher(requestInfo),
+});
@@ -0,0 +1,40 @@
+import type { APIRequestContext } from '@playwright/test';
+import { endpoints, searchQuery, toQueryParams, ListQuery } from '@saucedemo/contracts';
+import {
+  assertLimitHonoured,
+  assertPagesPartitionList,
+  assertSearchMatches,
+  propertyParameters,
+  ProductListSource,
+} from '@saucedemo/list-properties';
+import { test } from './fixtures';
+
+function productSource(context: APIRequestContext): ProductListSource {
+  const get = async (path: string, params: Record<string, string | number>) => {
+    const response = await context.get(path, { params });
+    if (response.status() !== 200) {
+      throw new Error(`GET ${response.url()} -> ${response.status()}`);
+    }
+    return response.json();
+  };
+
+  return {
+    list: (query: ListQuery) => get(endpoints.products.base, toQueryParams(query)),
+    search: (term: string, query: ListQuery) => get(endpoints.products.search, searchQuery(term, query)),
+  };
+}
+
+// Cases are generated from the test-data seed, so a failure replays with its TEST_DATA_SEED
+test.describe('Inventory/Products Property Tests', () => {
+  test('GET /products - pages never overlap and concatenate to the full list', async ({ anonApi, testDataSeed }) => {
+    await assertPagesPartitionList(productSource(anonApi), propertyParameters(testDataSeed));
+  });
+
+  test('GET /products - skip/limit return the exact slice at boundaries', async ({ anonApi, testDataSeed }) => {
+    await assertLimitHonoured(productSource(anonApi), propertyParameters(testDataSeed));
+  });
+
+  test('GET /products/search - every result contains the query term', async ({ anonApi, testDataSeed }) => {
+    await assertSearchMatches(productSource(anonApi), propertyParameters(testDataSeed));
+  });
+});
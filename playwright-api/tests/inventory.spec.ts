@@ -1,7 +1,9 @@
-import { test, expect, APIRequestContext } from '@playwright/test';
+import type { APIRequestContext } from '@playwright/test';
+import { endpoints, categoryListSchema, productSchema, productListSchema } from '@saucedemo/contracts';
+import { collect } from '@saucedemo/pagination';
 import { createAPIContext } from '../api/client';
-import { endpoints } from '../api/endpoints';
-import { productSchema, productListSchema } from '../api/schema';
+import { paginate } from '../api/paginate';
+import { test, expect } from './fixtures';
 
 let apiContext: APIRequestContext;
 
@@ -116,10 +118,24 @@ test.describe('Inventory/Products API Tests', () => {
     expect(validatedData.products.length).toBeLessThanOrEqual(limit);
   });
 
+  test('GET /products - paginate across pages up to maxItems', async () => {
+    const products = await collect(
+      paginate(apiContext, endpoints.products.base, productListSchema, {
+        pageSize: 20,
+        maxItems: 45,
+        concurrency: 2,
+        query: { sortBy: 'id', order: 'asc' },
+      })
+    );
+
+    expect(products.map(product => product.id)).toEqual(Array.from({ length: 45 }, (_, index) => index + 1));
+  });
+
   test('GET /products/categories - retrieve all product categories', async () => {
     const response = await apiContext.get(endpoints.products.categories);
 
     expect(response.status()).toBe(200);
+    await expect(response).toMatchSchema(categoryListSchema);
 
     const responseBody = await response.json();
     
@@ -150,6 +166,8 @@ test.describe('Inventory/Products API Tests', () => {
 
   test('Validate product schema fields', async () => {
     const response = await apiContext.get(endpoints.products.single(1));
+    await expect(response).toMatchSchema(productSchema);
+
     const responseBody = await response.json();
     const product = productSchema.parse(responseBody);
     
@@ -172,4 +190,19 @@ test.describe('Inventory/Products API Tests', () => {
     expect(typeof product.price).toBe('number');
     expect(Array.isArray(product.images)).toBeTruthy();
   });
+
+  test('toMatchSchema - report each invalid field with its path', async () => {
+    const response = await apiContext.get(endpoints.products.single(1));
+    const broken = { ...productSchema.parse(await response.json()), price: 'free', images: [42] };
+
+    await expect(response).toMatchSchema(productSchema);
+    await expect(broken).not.toMatchSchema(productSchema);
+
+    const failure = await expect(broken)
+      .toMatchSchema(productSchema)
+      .catch((error: Error) => error);
+
+    expect(String(failure)).toContain('price: Expected number, received string');
+    expect(String(failure)).toContain('images[0]: Expected string, received number');
+  });
 });
@@ -0,0 +1,14 @@
+import { loadScenarios, runScenario } from '@saucedemo/scenarios';
+import { playwrightScenarioTransport } from '../api/scenarios';
+import { test } from './fixtures';
+
+/**
+ * One test per file in the shared scenarios/ directory (SCENARIOS_DIR), one step per request
+ */
+test.describe('Scenario Files', () => {
+  for (const { file, scenario } of loadScenarios()) {
+    test(`${scenario.name} (${file})`, async ({ anonApi }) => {
+      await runScenario(scenario, playwrightScenarioTransport(anonApi), (title, body) => test.step(title, body));
+    });
+  }
+});
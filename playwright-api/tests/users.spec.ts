@@ -0,0 +1,126 @@
+import { endpoints } from '@saucedemo/contracts';
+import { aUser } from '@saucedemo/test-data';
+import { test, expect } from './fixtures';
+
+test.describe('Users API Tests', () => {
+  test('GET /users - retrieve first page of users', async ({ apis }) => {
+    const userList = await apis.users.list();
+
+    expect(userList.users.length).toBeGreaterThan(0);
+    expect(userList.total).toBeGreaterThanOrEqual(userList.users.length);
+    expect(userList.skip).toBe(0);
+  });
+
+  test('GET /users - paginate with limit and skip', async ({ apis }) => {
+    const firstPage = await apis.users.list({ limit: 5 });
+    const secondPage = await apis.users.list({ limit: 5, skip: 5 });
+
+    expect(firstPage.users).toHaveLength(5);
+    expect(secondPage.skip).toBe(5);
+    expect(secondPage.users[0].id).toBe(firstPage.users[4].id + 1);
+  });
+
+  test('GET /users - sort by age descending', async ({ apis }) => {
+    const { users } = await apis.users.list({ sortBy: 'age', order: 'desc', limit: 10 });
+    const ages = users.map(user => user.age);
+
+    expect(ages).toEqual([...ages].sort((a, b) => b - a));
+  });
+
+  test('GET /users/:id - retrieve single user by ID', async ({ apis }) => {
+    const user = await apis.users.get(1);
+
+    expect(user.id).toBe(1);
+    expect(user.username).toBe('emilys');
+    expect(user.hair?.color).toBeDefined();
+  });
+
+  test('GET /users/:id - fail with non-existent user ID', async ({ apis }) => {
+    const response = await apis.users.getResponse(99999);
+
+    expect(response.status()).toBe(404);
+    expect((await response.json()).message).toContain('99999');
+  });
+
+  test('GET /users/search - find users by name', async ({ apis }) => {
+    const { users } = await apis.users.search('Emily');
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(users[0].firstName).toBe('Emily');
+  });
+
+  test('GET /users/search - no results for unknown term', async ({ apis }) => {
+    const userList = await apis.users.search('zzzz-no-such-user');
+
+    expect(userList.users).toHaveLength(0);
+    expect(userList.total).toBe(0);
+  });
+
+  test('GET /users/filter - filter by nested key hair.color', async ({ apis }) => {
+    const { users } = await apis.users.filter('hair.color', 'Brown');
+
+    expect(users.length).toBeGreaterThan(0);
+    users.forEach(user => {
+      expect(user.hair?.color).toBe('Brown');
+    });
+  });
+
+  test('GET /users/filter - filter by top-level key', async ({ apis }) => {
+    const { users } = await apis.users.filter('gender', 'female', { limit: 3 });
+
+    expect(users.length).toBeLessThanOrEqual(3);
+    users.forEach(user => {
+      expect(user.gender).toBe('female');
+    });
+  });
+
+  test('GET /users/filter - fail without a value', async ({ anonApi }) => {
+    const response = await anonApi.get(endpoints.users.filter, { params: { key: 'gender' } });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('POST /users/add - add a new user', async ({ apis }) => {
+    const newUser = aUser();
+    const user = await apis.users.add(newUser);
+
+    expect(user.id).toBeGreaterThan(0);
+    expect(user.firstName).toBe(newUser.firstName);
+    expect(user.age).toBe(newUser.age);
+  });
+
+  test('POST /users/add - fail without last name', async ({ apis }) => {
+    const response = await apis.users.addResponse({ firstName: 'Ada' });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('PUT /users/:id - update an existing user', async ({ apis }) => {
+    const user = await apis.users.update(2, { lastName: 'Owais', hair: { color: 'Black', type: 'Wavy' } });
+
+    expect(user.id).toBe(2);
+    expect(user.lastName).toBe('Owais');
+    expect(user.hair?.color).toBe('Black');
+    expect(user.username).toBe('michaelw');
+  });
+
+  test('PUT /users/:id - fail with non-existent user ID', async ({ apis }) => {
+    const response = await apis.users.updateResponse(99999, { lastName: 'Nobody' });
+
+    expect(response.status()).toBe(404);
+  });
+
+  test('DELETE /users/:id - delete a user', async ({ apis }) => {
+    const user = await apis.users.delete(3);
+
+    expect(user.id).toBe(3);
+    expect(user.isDeleted).toBe(true);
+    expect(user.deletedOn).toBeDefined();
+  });
+
+  test('DELETE /users/:id - fail with non-existent user ID', async ({ apis }) => {
+    const response = await apis.users.deleteResponse(99999);
+
+    expect(response.status()).toBe(404);
+  });
+});
@@ -0,0 +1,64 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, join, relative } from 'node:path';
+import * as contracts from '@saucedemo/contracts';
+
+/**
+ * Fails the build when a suite keeps its own copy of the shared contract
+ * instead of importing it from `@saucedemo/contracts`.
+ *
+ * Flags:
+ *  - files named `schema.ts`, `schemas.ts` or `endpoints.ts`
+ *  - relative imports of such modules
+ *  - local `export const` declarations that shadow a contract export
+ */
+
+const ROOT = join(import.meta.dirname, '..');
+const SUITES = ['playwright-api', 'supertest', 'mock-server'];
+const LOCAL_COPY = /^(schemas?|endpoints)$/;
+const IGNORED_DIRS = new Set(['node_modules', 'playwright-report', 'test-results', 'dist']);
+
+const contractNames = new Set(Object.keys(contracts));
+
+function listSources(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return IGNORED_DIRS.has(entry.name) ? [] : listSources(path);
+    }
+    return entry.name.endsWith('.ts') ? [path] : [];
+  });
+}
+
+function findViolations(file: string): string[] {
+  const violations: string[] = [];
+  const source = readFileSync(file, 'utf8');
+
+  if (LOCAL_COPY.test(basename(file, '.ts'))) {
+    violations.push('local contract module - move it to packages/contracts');
+  }
+
+  for (const [, specifier] of source.matchAll(/from\s+['"](\.{1,2}\/[^'"]+)['"]/g)) {
+    if (LOCAL_COPY.test(basename(specifier).replace(/\.[jt]s$/, ''))) {
+      violations.push(`imports local copy '${specifier}' - import from '@saucedemo/contracts'`);
+    }
+  }
+
+  for (const [, name] of source.matchAll(/export\s+const\s+(\w+)/g)) {
+    if (contractNames.has(name)) {
+      violations.push(`redeclares contract export '${name}'`);
+    }
+  }
+
+  return violations;
+}
+
+const report = SUITES.flatMap(suite => listSources(join(ROOT, suite))).flatMap(file =>
+  findViolations(file).map(violation => `${relative(ROOT, file)}: ${violation}`)
+);
+
+if (report.length > 0) {
+  console.error(`Shared contract check failed:\n  ${report.join('\n  ')}`);
+  process.exit(1);
+}
+
+console.log(`Shared contract check passed (${contractNames.size} contract exports).`);
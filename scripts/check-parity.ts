@@ -0,0 +1,57 @@
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+import { readCoverageHits } from '@saucedemo/api-coverage';
+import { compareSuites, formatParityReport, parityShortfalls, parityThreshold } from '@saucedemo/parity';
+import { readPlaywrightResults, readVitestResults } from '@saucedemo/test-results';
+
+/**
+ * Reports which scenarios and routes only one suite covers, from both suites'
+ * JSON results and the coverage hits in `api-coverage/`:
+ *   npm run check:parity -- [--threshold <percent>] [--playwright <results.json>] [--vitest <results.json>] [--coverage <dir>]
+ *
+ * Writes `dist/parity/parity.json` and `parity.md` (override with PARITY_OUTPUT).
+ * With --threshold or PARITY_THRESHOLD, exits 1 when scenario or route parity is below it.
+ */
+
+const ROOT = join(import.meta.dirname, '..');
+
+const { values } = parseArgs({
+  options: {
+    threshold: { type: 'string' },
+    playwright: { type: 'string', default: join(ROOT, 'playwright-api', 'test-results.json') },
+    vitest: { type: 'string', default: join(ROOT, 'supertest', 'test-results.json') },
+    coverage: { type: 'string', default: process.env.API_COVERAGE_DIR ?? join(ROOT, 'api-coverage') },
+  },
+});
+if (values.threshold !== undefined) {
+  process.env.PARITY_THRESHOLD = values.threshold;
+}
+const threshold = parityThreshold();
+
+for (const file of [values.playwright, values.vitest]) {
+  if (!existsSync(file)) {
+    console.error(`No results at ${relative(ROOT, file)}; run both suites first.`);
+    process.exit(1);
+  }
+}
+
+const report = compareSuites(
+  { 'playwright-api': readPlaywrightResults(values.playwright), supertest: readVitestResults(values.vitest) },
+  readCoverageHits(values.coverage)
+);
+const markdown = formatParityReport(report);
+
+const output = process.env.PARITY_OUTPUT ?? join(ROOT, 'dist', 'parity');
+mkdirSync(output, { recursive: true });
+writeFileSync(join(output, 'parity.json'), `${JSON.stringify(report, null, 2)}\n`);
+writeFileSync(join(output, 'parity.md'), markdown);
+console.log(markdown);
+// stdout is only the report, so CI can append it to the job summary as is
+console.error(`Parity report written to ${relative(ROOT, output)}.`);
+
+const shortfalls = threshold === undefined ? [] : parityShortfalls(report, threshold);
+if (shortfalls.length > 0) {
+  console.error(shortfalls.join('\n'));
+  process.exit(1);
+}
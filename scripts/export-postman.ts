@@ -0,0 +1,36 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { buildPostmanCollection, buildPostmanEnvironment } from '@saucedemo/postman';
+import { loadScenarios } from '@saucedemo/scenarios';
+import { startMockServer } from '../mock-server/src/server';
+import { traceCheckoutJourneys } from '../playwright-api/api/journey-trace';
+
+/**
+ * Writes a Postman v2.1 collection of the operation catalog, the scenario
+ * files and the checkout journeys (traced against the mock server), plus an
+ * environment for API_BASE_URL and the tokens, to `dist/postman/` (override
+ * with POSTMAN_OUTPUT).
+ */
+
+const ROOT = join(import.meta.dirname, '..');
+const output = process.env.POSTMAN_OUTPUT ?? join(ROOT, 'dist', 'postman');
+
+const server = await startMockServer();
+const journeys = await traceCheckoutJourneys(server.url).finally(() => server.close());
+
+const collection = buildPostmanCollection({ scenarios: loadScenarios(join(ROOT, 'scenarios')), journeys });
+const environment = buildPostmanEnvironment(process.env.API_BASE_URL);
+
+mkdirSync(output, { recursive: true });
+writeFileSync(join(output, 'dummyjson.postman_collection.json'), `${JSON.stringify(collection, null, 2)}\n`);
+writeFileSync(join(output, 'dummyjson.postman_environment.json'), `${JSON.stringify(environment, null, 2)}\n`);
+
+const runnable = ['Scenarios', 'Journeys'];
+const folders = (name: string) => collection.item.find(folder => folder.name === name)?.item?.length ?? 0;
+const requestCount = collection.item
+  .filter(folder => !runnable.includes(folder.name))
+  .reduce((count, folder) => count + (folder.item?.length ?? 0), 0);
+console.log(
+  `Postman collection written to ${relative(ROOT, output)} ` +
+    `(${requestCount} requests, ${folders('Scenarios')} scenarios, ${folders('Journeys')} journeys).`
+);
@@ -0,0 +1,19 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { buildOpenApiDocument } from '@saucedemo/contracts';
+
+/**
+ * Writes the OpenAPI 3.1 document generated from `@saucedemo/contracts`
+ * to `dist/openapi.json` (override with OPENAPI_OUTPUT).
+ */
+
+const ROOT = join(import.meta.dirname, '..');
+const output = process.env.OPENAPI_OUTPUT ?? join(ROOT, 'dist', 'openapi.json');
+
+const document = buildOpenApiDocument({ serverUrl: process.env.API_BASE_URL });
+
+mkdirSync(join(output, '..'), { recursive: true });
+writeFileSync(output, `${JSON.stringify(document, null, 2)}\n`);
+
+const operationCount = Object.values(document.paths).reduce((count, path) => count + Object.keys(path).length, 0);
+console.log(`OpenAPI document written to ${relative(ROOT, output)} (${operationCount} operations).`);
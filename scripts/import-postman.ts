@@ -0,0 +1,67 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  importPostmanCollection,
+  parsePostmanCollection,
+  renderSpec,
+  PostmanEnvironment,
+  PostmanFormatError,
+  SpecTarget,
+} from '@saucedemo/postman';
+
+/**
+ * Generates spec files from a Postman v2.1 collection:
+ *   npm run import:postman -- <collection.json> [--environment <env.json>] [--target playwright|vitest]
+ *
+ * Writes `playwright-api/tests/postman-<name>.spec.ts` and/or
+ * `supertest/src/tests/postman-<name>.test.ts` (both by default).
+ */
+
+const ROOT = join(import.meta.dirname, '..');
+const OUTPUTS: Record<SpecTarget, (slug: string) => string> = {
+  playwright: slug => join(ROOT, 'playwright-api', 'tests', `postman-${slug}.spec.ts`),
+  vitest: slug => join(ROOT, 'supertest', 'src', 'tests', `postman-${slug}.test.ts`),
+};
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: { environment: { type: 'string' }, target: { type: 'string' } },
+});
+const targets = (values.target ? [values.target] : Object.keys(OUTPUTS)) as SpecTarget[];
+if (positionals.length !== 1 || targets.some(target => !Object.hasOwn(OUTPUTS, target))) {
+  console.error('Usage: npm run import:postman -- <collection.json> [--environment <env.json>] [--target playwright|vitest]');
+  process.exit(1);
+}
+
+let imported;
+try {
+  const collection = parsePostmanCollection(readFileSync(positionals[0], 'utf8'));
+  const environment: PostmanEnvironment | undefined = values.environment
+    ? JSON.parse(readFileSync(values.environment, 'utf8'))
+    : undefined;
+  const variables = Object.fromEntries(
+    (environment?.values ?? []).filter(entry => entry.enabled && entry.value !== '').map(entry => [entry.key, entry.value])
+  );
+  imported = importPostmanCollection(collection, { variables });
+} catch (error) {
+  if (!(error instanceof PostmanFormatError)) {
+    throw error;
+  }
+  console.error(`${positionals[0]}: ${error.message}`);
+  process.exit(1);
+}
+
+const slug = imported.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'collection';
+for (const target of targets) {
+  const output = OUTPUTS[target](slug);
+  mkdirSync(join(output, '..'), { recursive: true });
+  writeFileSync(output, renderSpec(imported, target));
+  console.log(`Spec written to ${relative(ROOT, output)}.`);
+}
+
+const skipped = imported.requests.filter(request => !request.runnable).length;
+const unmatched = imported.requests.filter(request => !request.endpoint).length;
+console.log(
+  `Imported ${imported.requests.length} requests (${unmatched} without an endpoints entry, ${skipped} skipped for unresolved variables).`
+);
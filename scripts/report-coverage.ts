@@ -0,0 +1,16 @@
+import { join, relative } from 'node:path';
+import { formatCoverageSummary, writeCoverageReport } from '@saucedemo/api-coverage';
+
+/**
+ * Rebuilds the endpoint × method × status matrix from the hits both suites
+ * recorded under `api-coverage/raw/<suite>/` (override with API_COVERAGE_DIR),
+ * e.g. after CI downloads each job's hits into one directory.
+ */
+
+const ROOT = join(import.meta.dirname, '..');
+const dir = process.env.API_COVERAGE_DIR ?? join(ROOT, 'api-coverage');
+
+const matrix = writeCoverageReport(dir);
+
+console.log(formatCoverageSummary(matrix));
+console.log(`Coverage matrix written to ${relative(ROOT, join(dir, 'coverage.html'))} and coverage.json.`);
@@ -0,0 +1,53 @@
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  formatJUnit,
+  formatResultsMarkdown,
+  readPlaywrightResults,
+  readVitestResults,
+  summarizeResults,
+  TestResult,
+} from '@saucedemo/test-results';
+
+/**
+ * Combines both suites' JSON results into one JUnit XML report and a Markdown
+ * summary for the CI job summary:
+ *   npm run report:results -- [--playwright <results.json>] [--vitest <results.json>]
+ *
+ * Writes `dist/results/junit.xml` and `summary.md` (override with RESULTS_OUTPUT)
+ * and prints the summary to stdout. Exits 1 when a test failed or a suite has no results.
+ */
+
+const ROOT = join(import.meta.dirname, '..');
+
+const { values } = parseArgs({
+  options: {
+    playwright: { type: 'string', default: join(ROOT, 'playwright-api', 'test-results.json') },
+    vitest: { type: 'string', default: join(ROOT, 'supertest', 'test-results.json') },
+  },
+});
+
+const readers: [string, (file: string) => TestResult[]][] = [
+  [values.playwright, readPlaywrightResults],
+  [values.vitest, readVitestResults],
+];
+const missing = readers.filter(([file]) => !existsSync(file)).map(([file]) => relative(ROOT, file));
+const results = readers.filter(([file]) => existsSync(file)).flatMap(([file, read]) => read(file));
+
+const markdown = [
+  formatResultsMarkdown(results),
+  ...missing.map(file => `> ⚠️ No results at \`${file}\`; that suite did not finish.\n`),
+].join('\n');
+
+const output = process.env.RESULTS_OUTPUT ?? join(ROOT, 'dist', 'results');
+mkdirSync(output, { recursive: true });
+writeFileSync(join(output, 'junit.xml'), formatJUnit(results));
+writeFileSync(join(output, 'summary.md'), markdown);
+console.log(markdown);
+// stdout is only the summary, so CI can append it to the job summary as is
+console.error(`JUnit report written to ${relative(ROOT, join(output, 'junit.xml'))}.`);
+
+if (summarizeResults(results).total.failed > 0 || missing.length > 0) {
+  process.exit(1);
+}
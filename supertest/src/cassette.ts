@@ -0,0 +1,85 @@
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { normalizeBody, vcr, RecordedResponse } from '@saucedemo/vcr';
+
+const sendOverNetwork: AxiosAdapter = axios.getAdapter(axios.defaults.adapter);
+
+/**
+ * Axios headers as a plain name -> value record
+ */
+export function headersOf(headers: InternalAxiosRequestConfig['headers'] | AxiosResponse['headers']): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(AxiosHeaders.from(headers as AxiosHeaders).toJSON()).map(([name, value]) => [
+      name,
+      Array.isArray(value) ? value.join(', ') : String(value),
+    ])
+  );
+}
+
+function toRecorded(response: AxiosResponse): RecordedResponse {
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: headersOf(response.headers),
+    body: normalizeBody(response.data),
+  };
+}
+
+/**
+ * Settle a replayed response the way Axios settles a real one
+ */
+function settle(recorded: RecordedResponse, config: InternalAxiosRequestConfig): AxiosResponse {
+  const response: AxiosResponse = {
+    data: typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body),
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: AxiosHeaders.from(recorded.headers),
+    config,
+    request: {},
+  };
+
+  if (!config.validateStatus || config.validateStatus(response.status)) {
+    return response;
+  }
+  throw new AxiosError(
+    `Request failed with status code ${response.status}`,
+    response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response
+  );
+}
+
+/**
+ * Axios adapter that records to, or replays from, the current VCR cassette
+ * (VCR_MODE=record|replay). Without VCR_MODE it is the default adapter.
+ * Error responses are recorded too; network failures are not.
+ */
+export const cassetteAdapter: AxiosAdapter = async (config) => {
+  if (!vcr.enabled) {
+    return sendOverNetwork(config);
+  }
+
+  let live: AxiosResponse | undefined;
+  let failure: unknown;
+
+  const recorded = await vcr.handle(
+    { method: config.method ?? 'get', url: axios.getUri(config), headers: headersOf(config.headers), body: config.data },
+    async () => {
+      try {
+        live = await sendOverNetwork(config);
+      } catch (error) {
+        if (!axios.isAxiosError(error) || !error.response) {
+          throw error;
+        }
+        failure = error;
+        return toRecorded(error.response);
+      }
+      return toRecorded(live);
+    }
+  );
+
+  if (failure) {
+    throw failure;
+  }
+  return live ?? settle(recorded, config);
+};
@@ -1,10 +1,20 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { AuthSession } from '@saucedemo/auth-session';
+import { cassetteAdapter } from './cassette';
+import { loggingAdapter } from './http-log';
+import { resilientAdapter } from './resilience';
 
 /**
  * Base API URL
  */
 const BASE_URL = process.env.API_BASE_URL || 'https://dummyjson.com';
 
+/**
+ * Transport shared by every instance: retry/breaker policy over the per-test
+ * HTTP log over the VCR adapter, so each attempt is logged
+ */
+const adapter = resilientAdapter(loggingAdapter(cassetteAdapter));
+
 /**
  * Axios client with default configuration
  */
@@ -15,37 +25,78 @@ export const api: AxiosInstance = axios.create({
     'Accept': 'application/json',
   },
   timeout: 30000,
+  adapter,
 });
 
 /**
- * Create an authenticated axios instance with bearer token
- * @param token - Authentication token
+ * Create an authenticated axios instance
+ * @param auth - Bearer token, or an AuthSession that supplies a fresh token per
+ * request and transparently refreshes it when the API answers 401
  * @returns Configured axios instance with auth header
  */
-export function createAuthenticatedClient(token: string): AxiosInstance {
+export function createAuthenticatedClient(auth: string | AuthSession): AxiosInstance {
+  if (typeof auth !== 'string') {
+    return withSession(auth);
+  }
+
   return axios.create({
     baseURL: BASE_URL,
     headers: {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
-      'Authorization': `Bearer ${token}`,
+      'Authorization': `Bearer ${auth}`,
     },
     timeout: 30000,
+    adapter,
   });
 }
 
+type SessionRequestConfig = InternalAxiosRequestConfig & { sessionRetried?: boolean };
+
 /**
- * Request interceptor for logging
+ * Axios instance whose requests carry the session's current token and are
+ * retried once with a refreshed token after a 401 (thrown or, with a custom
+ * validateStatus, resolved)
  */
-api.interceptors.request.use(
-  (config) => {
-    // You can add request logging here if needed
+function withSession(session: AuthSession): AxiosInstance {
+  const client = axios.create({
+    baseURL: BASE_URL,
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    timeout: 30000,
+    adapter,
+  });
+
+  client.interceptors.request.use(async (config) => {
+    config.headers.Authorization = `Bearer ${await session.getAccessToken()}`;
     return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
+  });
+
+  const retryUnauthorized = async (config?: SessionRequestConfig): Promise<AxiosResponse | undefined> => {
+    if (!config || config.sessionRetried) {
+      return undefined;
+    }
+
+    config.sessionRetried = true;
+    await session.refresh(String(config.headers.Authorization).replace(/^Bearer\s+/, ''));
+    return client.request(config);
+  };
+
+  client.interceptors.response.use(
+    async (response) => (response.status === 401 && (await retryUnauthorized(response.config))) || response,
+    async (error: AxiosError) => {
+      const retried = error.response?.status === 401 ? await retryUnauthorized(error.config) : undefined;
+      if (!retried) {
+        throw error;
+      }
+      return retried;
+    }
+  );
+
+  return client;
+}
 
 /**
  * Response interceptor for error handling
@@ -0,0 +1,70 @@
+import { afterAll, afterEach, beforeAll, beforeEach } from 'vitest';
+import { basename } from 'node:path';
+import { recordCoverage, setCoverageTest } from '@saucedemo/api-coverage';
+import { harMode, harPath, httpLog, httpLogAlways, HarBuilder } from '@saucedemo/http-log';
+import { recordLatency } from '@saucedemo/latency';
+import { titlePath } from './title-path';
+
+/**
+ * Registered as a Vitest setup file: starts an empty HTTP log per test and
+ * prints it (redacted) when the test fails, or after every test with HTTP_LOG=always.
+ * Failed tests also print cURL and HTTPie commands for their last requests.
+ *
+ * HAR export (HAR_MODE): `failed` (default) writes har/<file>/<describe>/<test>.har
+ * for each failed test; `file` writes har/<file>.har with one page per test.
+ */
+
+// Every logged request also feeds the run's latency and coverage reports
+httpLog.subscribe(recordLatency);
+httpLog.subscribe(recordCoverage);
+
+const mode = harMode();
+let fileHar: HarBuilder | undefined;
+let file = '';
+/** Entries of the current log already added to fileHar */
+let added = 0;
+
+beforeAll((suite) => {
+  file = basename(suite.file?.filepath ?? suite.name);
+  fileHar = mode === 'file' ? new HarBuilder() : undefined;
+  httpLog.clear();
+  added = 0;
+});
+
+beforeEach(({ task, onTestFailed }) => {
+  // Whatever was logged since the last test came from hooks
+  fileHar?.add(httpLog.entries.slice(added));
+  httpLog.clear();
+  added = 0;
+  setCoverageTest(titlePath(task));
+
+  onTestFailed(() => {
+    if (!httpLogAlways()) {
+      console.error(httpLog.format());
+    }
+    if (httpLog.entries.length > 0) {
+      console.error(`Reproduce with cURL:\n${httpLog.reproduction('curl')}`);
+      console.error(`Reproduce with HTTPie:\n${httpLog.reproduction('httpie')}`);
+    }
+    if (mode === 'failed' && httpLog.entries.length > 0) {
+      const path = new HarBuilder().page(titlePath(task).join(' > '), httpLog.entries).write(harPath(titlePath(task)));
+      console.error(`HAR: ${path}`);
+    }
+  });
+});
+
+afterEach(({ task }) => {
+  setCoverageTest();
+  if (httpLogAlways()) {
+    console.log(httpLog.format());
+  }
+  fileHar?.page(titlePath(task).join(' > '), httpLog.entries);
+  added = httpLog.entries.length;
+});
+
+afterAll(() => {
+  fileHar?.add(httpLog.entries.slice(added));
+  if (fileHar && fileHar.size > 0) {
+    fileHar.write(harPath([file]));
+  }
+});
@@ -0,0 +1,35 @@
+import axios, { AxiosAdapter, AxiosResponse } from 'axios';
+import { httpLog, HttpLog } from '@saucedemo/http-log';
+import { headersOf } from './cassette';
+
+function responseOf(response: AxiosResponse) {
+  return { status: response.status, headers: headersOf(response.headers), body: response.data };
+}
+
+/**
+ * Wrap an adapter so every attempt (retries included) is recorded in the
+ * per-test HTTP log with the headers actually sent, after the interceptors
+ */
+export function loggingAdapter(adapter: AxiosAdapter, log: HttpLog = httpLog): AxiosAdapter {
+  return async (config) => {
+    const exchange = log.begin({
+      method: config.method ?? 'get',
+      url: axios.getUri(config),
+      headers: headersOf(config.headers),
+      body: config.data,
+    });
+
+    try {
+      const response = await adapter(config);
+      exchange.response(responseOf(response));
+      return response;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        exchange.response(responseOf(error.response));
+      } else {
+        exchange.error(error);
+      }
+      throw error;
+    }
+  };
+}
@@ -0,0 +1,21 @@
+import { expect } from 'vitest';
+import type { ZodTypeAny } from 'zod';
+import { createSchemaMatcher } from '@saucedemo/schema-matchers';
+
+/**
+ * Registered as a Vitest setup file, so every test can
+ * `await expect(responseOrBody).toMatchSchema(schema)`
+ */
+expect.extend({
+  toMatchSchema: createSchemaMatcher(),
+});
+
+interface SchemaMatchers<R = unknown> {
+  /** Validate an AxiosResponse, supertest response or plain body against a Zod schema */
+  toMatchSchema(schema: ZodTypeAny): Promise<R>;
+}
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends SchemaMatchers<T> {}
+  interface AsymmetricMatchersContaining extends SchemaMatchers {}
+}
@@ -0,0 +1,45 @@
+import type { AxiosInstance } from 'axios';
+import { toQueryParams, ListQuery } from '@saucedemo/contracts';
+import { paginateList, ListItem, ListPage, PaginateOptions } from '@saucedemo/pagination';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { api } from './client';
+import { BaseService } from './services/base-service';
+import { unwrap } from './services/result';
+
+export interface AxiosPaginateOptions extends PaginateOptions {
+  /** Axios instance to page through (default: the shared `api`) */
+  client?: AxiosInstance;
+}
+
+/**
+ * Fetches single list pages through BaseService.send, so pages get the same
+ * status check, validation and drift recording as the typed services
+ */
+class ListPages<P extends ListPage> extends BaseService {
+  constructor(
+    client: AxiosInstance,
+    private readonly listEndpoint: string,
+    private readonly schema: ZodType<P, ZodTypeDef, unknown>
+  ) {
+    super(client);
+  }
+
+  async fetch(query: ListQuery): Promise<P> {
+    return unwrap(await this.send({ method: 'GET', url: this.listEndpoint, params: toQueryParams(query) }, this.schema));
+  }
+}
+
+/**
+ * Iterate every item of a list endpoint, validating each page
+ * @example
+ * for await (const cart of paginate(endpoints.carts.base, cartListSchema, { pageSize: 10 })) { ... }
+ * @throws Error (from `unwrap`) on a page with an unexpected status or schema violation
+ */
+export function paginate<P extends ListPage>(
+  listEndpoint: string,
+  schema: ZodType<P, ZodTypeDef, unknown>,
+  { client = api, ...options }: AxiosPaginateOptions = {}
+): AsyncGenerator<ListItem<P>, void, undefined> {
+  const pages = new ListPages(client, listEndpoint, schema);
+  return paginateList(query => pages.fetch(query), options);
+}
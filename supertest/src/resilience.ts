@@ -0,0 +1,25 @@
+import axios, { AxiosAdapter, AxiosResponse } from 'axios';
+import { ResilientExecutor, AttemptInspector } from '@saucedemo/resilience';
+
+/**
+ * Worker-wide executor; its per-host circuit breakers are shared by every Axios instance
+ */
+export const executor = new ResilientExecutor();
+
+const inspectAxios: AttemptInspector<AxiosResponse> = {
+  response: (response) => ({ status: response.status, retryAfter: response.headers['retry-after'] }),
+  error: (error) =>
+    axios.isAxiosError(error) && error.response
+      ? { status: error.response.status, retryAfter: error.response.headers['retry-after'] }
+      : {},
+};
+
+/**
+ * Wrap an adapter so each request runs under the resilience policy. Retries
+ * happen below the interceptors, so the session's 401 handling sees only the
+ * final attempt; every retry is logged with console.warn.
+ */
+export function resilientAdapter(adapter: AxiosAdapter, resilient: ResilientExecutor = executor): AxiosAdapter {
+  return (config) =>
+    resilient.execute({ method: config.method ?? 'get', url: axios.getUri(config) }, () => adapter(config), inspectAxios);
+}
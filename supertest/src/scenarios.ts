@@ -0,0 +1,19 @@
+import type { ScenarioTransport } from '@saucedemo/scenarios';
+import { api } from './client';
+
+/**
+ * Sends scenario steps through the shared Axios instance without throwing on error statuses
+ */
+export const axiosScenarioTransport: ScenarioTransport = {
+  async send({ method, path, query, headers, body }) {
+    const response = await api.request({
+      method,
+      url: path,
+      params: query,
+      headers,
+      data: body,
+      validateStatus: () => true,
+    });
+    return { status: response.status, body: response.data };
+  },
+};
@@ -0,0 +1,33 @@
+import {
+  endpoints,
+  loginResponseSchema,
+  refreshResponseSchema,
+  userSchema,
+  LoginRequest,
+  LoginResponse,
+  RefreshRequest,
+  RefreshResponse,
+  User,
+} from '@saucedemo/contracts';
+import { BaseService } from './base-service';
+import { ApiResult } from './result';
+
+/**
+ * Typed service for /auth endpoints
+ */
+export class AuthService extends BaseService {
+  /** POST /auth/login - accepts partial credentials so negative cases type-check */
+  login(credentials: Partial<LoginRequest>): Promise<ApiResult<LoginResponse>> {
+    return this.send({ method: 'POST', url: endpoints.auth.login, data: credentials }, loginResponseSchema);
+  }
+
+  /** GET /auth/me - requires an authenticated client */
+  me(): Promise<ApiResult<User>> {
+    return this.send({ method: 'GET', url: endpoints.auth.me }, userSchema);
+  }
+
+  /** POST /auth/refresh */
+  refresh(body: Partial<RefreshRequest>): Promise<ApiResult<RefreshResponse>> {
+    return this.send({ method: 'POST', url: endpoints.auth.refresh, data: body }, refreshResponseSchema);
+  }
+}
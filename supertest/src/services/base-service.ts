@@ -0,0 +1,60 @@
+import type { AxiosInstance, AxiosRequestConfig } from 'axios';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { recordDrift } from '@saucedemo/contract-drift';
+import { CassetteMismatchError } from '@saucedemo/vcr';
+import { api } from '../client';
+import { ApiResult } from './result';
+
+/**
+ * Base class for the typed service layer over the Axios client.
+ * Requests never throw on HTTP errors: every outcome is an ApiResult.
+ */
+export abstract class BaseService {
+  constructor(protected readonly client: AxiosInstance = api) {}
+
+  /**
+   * Send a request and validate the body against a schema
+   * @param expectedStatus - Exact status required; any 2xx when omitted
+   */
+  protected async send<T>(
+    config: AxiosRequestConfig,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    expectedStatus?: number
+  ): Promise<ApiResult<T>> {
+    let response;
+    try {
+      response = await this.client.request({ ...config, validateStatus: () => true });
+    } catch (error) {
+      if (error instanceof CassetteMismatchError) {
+        throw error;
+      }
+      return {
+        ok: false,
+        status: 0,
+        error: { kind: 'network', message: error instanceof Error ? error.message : String(error) },
+      };
+    }
+
+    const { status, data } = response;
+    const statusOk = expectedStatus ? status === expectedStatus : status >= 200 && status < 300;
+    if (!statusOk) {
+      return {
+        ok: false,
+        status,
+        error: { kind: 'http', message: data?.message ?? `Unexpected status ${status}`, body: data },
+      };
+    }
+
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+      return {
+        ok: false,
+        status,
+        error: { kind: 'schema', message: 'Response does not match schema', body: data, issues: parsed.error.issues },
+      };
+    }
+
+    recordDrift({ method: config.method, url: this.client.getUri(config), schema, body: data });
+    return { ok: true, status, data: parsed.data };
+  }
+}
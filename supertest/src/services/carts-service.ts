@@ -0,0 +1,50 @@
+import {
+  cartListSchema,
+  cartSchema,
+  deletedCartSchema,
+  endpoints,
+  toQueryParams,
+  AddToCartRequest,
+  Cart,
+  CartList,
+  DeletedCart,
+  ListQuery,
+  UpdateCartRequest,
+} from '@saucedemo/contracts';
+import { BaseService } from './base-service';
+import { ApiResult } from './result';
+
+/**
+ * Typed service for /carts endpoints
+ */
+export class CartsService extends BaseService {
+  /** GET /carts */
+  list(query?: ListQuery): Promise<ApiResult<CartList>> {
+    return this.send({ method: 'GET', url: endpoints.carts.base, params: toQueryParams(query) }, cartListSchema);
+  }
+
+  /** GET /carts/:id */
+  get(id: number): Promise<ApiResult<Cart>> {
+    return this.send({ method: 'GET', url: endpoints.carts.single(id) }, cartSchema);
+  }
+
+  /** GET /carts/user/:userId */
+  byUser(userId: number): Promise<ApiResult<CartList>> {
+    return this.send({ method: 'GET', url: endpoints.carts.user(userId) }, cartListSchema);
+  }
+
+  /** POST /carts/add - succeeds only with 201 Created */
+  add(cart: Partial<AddToCartRequest>): Promise<ApiResult<Cart>> {
+    return this.send({ method: 'POST', url: endpoints.carts.add, data: cart }, cartSchema, 201);
+  }
+
+  /** PUT /carts/:id */
+  update(id: number, update: Partial<UpdateCartRequest>): Promise<ApiResult<Cart>> {
+    return this.send({ method: 'PUT', url: endpoints.carts.update(id), data: update }, cartSchema);
+  }
+
+  /** DELETE /carts/:id */
+  delete(id: number): Promise<ApiResult<DeletedCart>> {
+    return this.send({ method: 'DELETE', url: endpoints.carts.delete(id) }, deletedCartSchema);
+  }
+}
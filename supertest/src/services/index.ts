@@ -0,0 +1,38 @@
+import type { AxiosInstance } from 'axios';
+import { api, createAuthenticatedClient } from '../client';
+import { AuthService } from './auth-service';
+import { CartsService } from './carts-service';
+import { ProductsService } from './products-service';
+import { UsersService } from './users-service';
+
+export * from './result';
+export { AuthService, CartsService, ProductsService, UsersService };
+
+/**
+ * One typed service per DummyJSON resource, sharing an Axios instance
+ */
+export interface Services {
+  auth: AuthService;
+  products: ProductsService;
+  carts: CartsService;
+  users: UsersService;
+}
+
+/**
+ * Create all services over an Axios instance (the shared `api` by default)
+ */
+export function createServices(client: AxiosInstance = api): Services {
+  return {
+    auth: new AuthService(client),
+    products: new ProductsService(client),
+    carts: new CartsService(client),
+    users: new UsersService(client),
+  };
+}
+
+/**
+ * Create all services over a bearer-token client
+ */
+export function createAuthenticatedServices(token: string): Services {
+  return createServices(createAuthenticatedClient(token));
+}
@@ -0,0 +1,50 @@
+import {
+  categoryListSchema,
+  endpoints,
+  productListSchema,
+  productSchema,
+  searchQuery,
+  toQueryParams,
+  Category,
+  ListQuery,
+  Product,
+  ProductList,
+} from '@saucedemo/contracts';
+import { BaseService } from './base-service';
+import { ApiResult } from './result';
+
+/**
+ * Typed service for /products endpoints
+ */
+export class ProductsService extends BaseService {
+  /** GET /products */
+  list(query?: ListQuery): Promise<ApiResult<ProductList>> {
+    return this.send({ method: 'GET', url: endpoints.products.base, params: toQueryParams(query) }, productListSchema);
+  }
+
+  /** GET /products/:id */
+  get(id: number): Promise<ApiResult<Product>> {
+    return this.send({ method: 'GET', url: endpoints.products.single(id) }, productSchema);
+  }
+
+  /** GET /products/search?q= */
+  search(term: string, query?: ListQuery): Promise<ApiResult<ProductList>> {
+    return this.send(
+      { method: 'GET', url: endpoints.products.search, params: searchQuery(term, query) },
+      productListSchema
+    );
+  }
+
+  /** GET /products/categories */
+  categories(): Promise<ApiResult<Category[]>> {
+    return this.send({ method: 'GET', url: endpoints.products.categories }, categoryListSchema);
+  }
+
+  /** GET /products/category/:category */
+  byCategory(category: string, query?: ListQuery): Promise<ApiResult<ProductList>> {
+    return this.send(
+      { method: 'GET', url: endpoints.products.category(category), params: toQueryParams(query) },
+      productListSchema
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import type { ZodIssue } from 'zod';
+
+/**
+ * Why a service call did not produce validated data
+ *  - http: the API answered with an unexpected status
+ *  - schema: the status was right but the body broke the contract
+ *  - network: no response was received
+ */
+export interface ServiceError {
+  kind: 'http' | 'schema' | 'network';
+  message: string;
+  body?: unknown;
+  issues?: ZodIssue[];
+}
+
+export interface ApiSuccess<T> {
+  ok: true;
+  status: number;
+  data: T;
+}
+
+export interface ApiFailure {
+  ok: false;
+  status: number;
+  error: ServiceError;
+}
+
+/**
+ * Discriminated result returned by every service method
+ */
+export type ApiResult<T> = ApiSuccess<T> | ApiFailure;
+
+/**
+ * Return the data of a successful result
+ * @throws Error describing the failure otherwise
+ */
+export function unwrap<T>(result: ApiResult<T>): T {
+  if (!result.ok) {
+    throw new Error(`Expected success but got ${result.status} (${result.error.kind}): ${result.error.message}`);
+  }
+  return result.data;
+}
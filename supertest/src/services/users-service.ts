@@ -0,0 +1,63 @@
+import {
+  addedUserSchema,
+  deletedUserSchema,
+  endpoints,
+  filterQuery,
+  searchQuery,
+  toQueryParams,
+  userListSchema,
+  userSchema,
+  AddedUser,
+  AddUserRequest,
+  DeletedUser,
+  FieldPath,
+  ListQuery,
+  UpdateUserRequest,
+  User,
+  UserList,
+} from '@saucedemo/contracts';
+import { BaseService } from './base-service';
+import { ApiResult } from './result';
+
+/**
+ * Typed service for /users endpoints
+ */
+export class UsersService extends BaseService {
+  /** GET /users */
+  list(query?: ListQuery): Promise<ApiResult<UserList>> {
+    return this.send({ method: 'GET', url: endpoints.users.base, params: toQueryParams(query) }, userListSchema);
+  }
+
+  /** GET /users/:id */
+  get(id: number): Promise<ApiResult<User>> {
+    return this.send({ method: 'GET', url: endpoints.users.single(id) }, userSchema);
+  }
+
+  /** GET /users/search?q= */
+  search(term: string, query?: ListQuery): Promise<ApiResult<UserList>> {
+    return this.send({ method: 'GET', url: endpoints.users.search, params: searchQuery(term, query) }, userListSchema);
+  }
+
+  /** GET /users/filter?key=&value= (nested keys like `hair.color`) */
+  filter(key: FieldPath<User>, value: string | number | boolean, query?: ListQuery): Promise<ApiResult<UserList>> {
+    return this.send(
+      { method: 'GET', url: endpoints.users.filter, params: filterQuery<User>(key, value, query) },
+      userListSchema
+    );
+  }
+
+  /** POST /users/add - succeeds only with 201 Created */
+  add(user: Partial<AddUserRequest>): Promise<ApiResult<AddedUser>> {
+    return this.send({ method: 'POST', url: endpoints.users.add, data: user }, addedUserSchema, 201);
+  }
+
+  /** PUT /users/:id */
+  update(id: number, update: UpdateUserRequest): Promise<ApiResult<User>> {
+    return this.send({ method: 'PUT', url: endpoints.users.update(id), data: update }, userSchema);
+  }
+
+  /** DELETE /users/:id */
+  delete(id: number): Promise<ApiResult<DeletedUser>> {
+    return this.send({ method: 'DELETE', url: endpoints.users.delete(id) }, deletedUserSchema);
+  }
+}
@@ -0,0 +1,24 @@
+import { SessionManager, AuthTransport } from '@saucedemo/auth-session';
+import { api } from './client';
+
+/**
+ * Sends session traffic (login, refresh, /auth/me) through the shared Axios
+ * instance without throwing on error statuses
+ */
+export const axiosAuthTransport: AuthTransport = {
+  async send({ method, path, body, token }) {
+    const response = await api.request({
+      method,
+      url: path,
+      data: body,
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      validateStatus: () => true,
+    });
+    return { status: response.status, body: response.data };
+  },
+};
+
+/**
+ * Worker-wide session cache: each persona logs in once per test worker
+ */
+export const sessions = new SessionManager(axiosAuthTransport);
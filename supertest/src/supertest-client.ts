@@ -0,0 +1,107 @@
+import supertest from 'supertest';
+import type { ClientRequest } from 'node:http';
+import { httpLog, HttpLog, HttpTimings } from '@saucedemo/http-log';
+
+const REQUEST_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'del', 'head', 'options']);
+
+/** Fields of superagent's node Request this plugin reads once the request is sent */
+interface SentRequest {
+  method: string;
+  url: string;
+  req: ClientRequest;
+  _data?: unknown;
+}
+
+function headersOf(headers: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : String(value)])
+  );
+}
+
+type Phase = 'socket' | 'lookup' | 'connect' | 'finish' | 'response';
+
+/**
+ * Time the phases of a request from its socket events
+ * @returns Reads the timings once the response body has arrived
+ */
+function observeTimings(req: ClientRequest): () => HttpTimings {
+  const start = performance.now();
+  const at: Partial<Record<Phase, number>> = {};
+  const mark = (phase: Phase) => () => {
+    at[phase] ??= performance.now();
+  };
+
+  req.once('socket', (socket) => {
+    mark('socket')();
+    socket.once('lookup', mark('lookup'));
+    socket.once('connect', mark('connect'));
+  });
+  req.once('finish', mark('finish'));
+  req.once('response', mark('response'));
+
+  return () => {
+    const end = performance.now();
+    const span = (from?: number, to?: number) => (from === undefined || to === undefined ? -1 : Math.round(to - from));
+    return {
+      blocked: span(start, at.socket),
+      dns: span(at.socket, at.lookup),
+      connect: span(at.lookup ?? at.socket, at.connect),
+      send: span(at.connect ?? at.socket, at.finish),
+      wait: span(at.finish, at.response),
+      receive: span(at.response, end),
+    };
+  };
+}
+
+/**
+ * superagent plugin that records the request in the per-test HTTP log with
+ * the headers it was actually sent with
+ */
+function logTo(log: HttpLog) {
+  return (test: supertest.Test) => {
+    test.once('request', (sent: SentRequest) => {
+      const exchange = log.begin({
+        method: sent.method,
+        url: sent.url,
+        headers: headersOf(sent.req.getHeaders()),
+        body: sent._data ?? undefined,
+      });
+      const timings = observeTimings(sent.req);
+      let settled = false;
+
+      test.once('response', (response: supertest.Response) => {
+        settled = true;
+        exchange.response({
+          status: response.status,
+          headers: headersOf(response.headers),
+          body: response.text,
+          timings: timings(),
+        });
+      });
+      test.once('error', (error: unknown) => {
+        if (!settled) {
+          exchange.error(error);
+        }
+      });
+    });
+  };
+}
+
+/**
+ * `supertest(baseURL)` whose requests land in the per-test HTTP log (and so
+ * in failure output, cURL reproductions and HAR files) like Axios traffic
+ */
+export function request(baseURL: string, log: HttpLog = httpLog): ReturnType<typeof supertest> {
+  const agent = supertest(baseURL);
+  return new Proxy(agent, {
+    get(target, property) {
+      const value = Reflect.get(target, property);
+      if (typeof value !== 'function' || typeof property !== 'string' || !REQUEST_METHODS.has(property)) {
+        return value;
+      }
+      return (...args: unknown[]) => (value.apply(target, args) as supertest.Test).use(logTo(log));
+    },
+  });
+}
@@ -0,0 +1,14 @@
+import { beforeEach } from 'vitest';
+import { seedFor, seedMessage, useSeed } from '@saucedemo/test-data';
+import { titlePath } from './title-path';
+
+/**
+ * Registered as a Vitest setup file: seeds the test-data builders per test
+ * and prints the run seed when a test fails
+ */
+beforeEach(({ task, onTestFailed }) => {
+  useSeed(seedFor(titlePath(task)));
+  onTestFailed(() => {
+    console.error(seedMessage());
+  });
+});
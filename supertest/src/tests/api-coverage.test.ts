@@ -0,0 +1,99 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  buildCoverageMatrix,
+  coverageHit,
+  endpointNameOf,
+  formatCoverageSummary,
+  readCoverageHits,
+  recordCoverage,
+  writeCoverageReport,
+  CoverageHit,
+} from '@saucedemo/api-coverage';
+import { operations } from '@saucedemo/contracts';
+
+const hit = (suite: string, method: string, url: string, status: number): CoverageHit =>
+  coverageHit({ method, url, status }, suite)!;
+
+describe('API Coverage Tests', () => {
+  const env = { dir: process.env.API_COVERAGE_DIR, suite: process.env.API_COVERAGE_SUITE };
+
+  afterEach(() => {
+    process.env.API_COVERAGE_DIR = env.dir;
+    process.env.API_COVERAGE_SUITE = env.suite;
+  });
+
+  test('names each operation after its endpoints entry, picking update/delete by method', () => {
+    const names = Object.fromEntries(operations.map((operation) => [operation.id, endpointNameOf(operation)]));
+
+    expect(names).toMatchObject({
+      getCurrentUser: 'auth.me',
+      listProducts: 'products.base',
+      getCart: 'carts.single',
+      updateCart: 'carts.update',
+      deleteCart: 'carts.delete',
+      filterUsers: 'users.filter',
+    });
+  });
+
+  test('labels requests with their operation template and skips requests without a response', () => {
+    expect(coverageHit({ method: 'get', url: 'http://localhost:3000/carts/7?select=id', status: 200 }, 'supertest')).toEqual({
+      suite: 'supertest',
+      method: 'GET',
+      path: '/carts/{id}',
+      operation: 'getCart',
+      status: 200,
+    });
+    expect(coverageHit({ method: 'GET', url: '/health', status: 200 }, 'supertest')).toEqual({
+      suite: 'supertest',
+      method: 'GET',
+      path: '/health',
+      status: 200,
+    });
+    expect(coverageHit({ method: 'GET', url: '/products' }, 'supertest')).toBeUndefined();
+  });
+
+  test('counts hits per status and suite, with zero cells for untested documented statuses', () => {
+    const matrix = buildCoverageMatrix([
+      hit('playwright-api', 'GET', '/products/1', 200),
+      hit('supertest', 'GET', '/products/2', 200),
+      hit('supertest', 'GET', '/products/3', 500),
+      hit('supertest', 'GET', '/health', 200),
+    ]);
+    const getProduct = matrix.rows.find((row) => row.operation === 'getProduct')!;
+
+    expect(matrix.suites).toEqual(['playwright-api', 'supertest']);
+    expect(getProduct.cells).toEqual([
+      { status: 200, documented: true, hits: { 'playwright-api': 1, supertest: 1 }, total: 2 },
+      { status: 404, documented: true, hits: {}, total: 0 },
+      { status: 500, documented: false, hits: { supertest: 1 }, total: 1 },
+    ]);
+    expect(matrix.undocumented).toEqual([{ method: 'GET', path: '/health', statuses: { 200: 1 }, total: 1 }]);
+    expect(matrix.summary.operations).toEqual({ covered: 1, total: operations.length });
+    expect(formatCoverageSummary(matrix)).toContain('Untested: POST /auth/login (auth.login), GET /auth/me (auth.me)');
+  });
+
+  test('merges the hits of every suite into coverage.json and coverage.html', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'api-coverage-'));
+    process.env.API_COVERAGE_DIR = dir;
+
+    process.env.API_COVERAGE_SUITE = 'playwright-api';
+    recordCoverage({ method: 'POST', url: '/auth/login', status: 200 });
+    process.env.API_COVERAGE_SUITE = 'supertest';
+    recordCoverage({ method: 'GET', url: '/users/filter?key=age&value=30', status: 200 });
+    recordCoverage({ method: 'GET', url: '/users', status: undefined });
+
+    expect(readCoverageHits(dir)).toHaveLength(2);
+
+    const matrix = writeCoverageReport(dir);
+    const json = JSON.parse(readFileSync(join(dir, 'coverage.json'), 'utf8'));
+    const html = readFileSync(join(dir, 'coverage.html'), 'utf8');
+
+    expect(json.summary).toEqual(matrix.summary);
+    expect(matrix.summary.operations.covered).toBe(2);
+    expect(html).toContain('<tr class="untested-route"><td><code>auth.me</code></td>');
+    expect(html).toContain('<tr><td><code>users.filter</code></td>');
+  });
+});
@@ -1,9 +1,14 @@
 import { describe, test, expect, beforeAll } from 'vitest';
-import { api } from '../client';
-import { endpoints } from '../endpoints';
-import { loginResponseSchema, errorResponseSchema } from '../schemas';
+import { AuthSession, AuthTransport, personas } from '@saucedemo/auth-session';
+import { endpoints, loginResponseSchema, errorResponseSchema } from '@saucedemo/contracts';
+import { api, createAuthenticatedClient } from '../client';
+import { createServices, unwrap } from '../services';
+import { axiosAuthTransport, sessions } from '../session';
+import { request } from '../supertest-client';
 
 describe('Authentication API Tests - Axios', () => {
+  const { auth } = createServices();
+
   test('POST /auth/login - successful login with valid credentials', async () => {
     const response = await api.post(endpoints.auth.login, {
       username: 'emilys',
@@ -37,49 +42,42 @@ describe('Authentication API Tests - Axios', () => {
   });
 
   test('POST /auth/login - fail with invalid credentials', async () => {
-    try {
-      await api.post(endpoints.auth.login, {
-        username: 'invaliduser',
-        password: 'wrongpassword',
-      });
-      // Should not reach here
-      expect(true).toBe(false);
-    } catch (error: any) {
-      expect(error.response.status).toBe(400);
-      const validatedError = errorResponseSchema.parse(error.response.data);
+    const result = await auth.login({
+      username: 'invaliduser',
+      password: 'wrongpassword',
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(400);
+    if (!result.ok) {
+      const validatedError = errorResponseSchema.parse(result.error.body);
       expect(validatedError.message).toBeDefined();
     }
   });
 
   test('POST /auth/login - fail with missing username', async () => {
-    try {
-      await api.post(endpoints.auth.login, {
-        password: 'somepassword',
-      });
-      expect(true).toBe(false);
-    } catch (error: any) {
-      expect(error.response.status).toBe(400);
-    }
+    const result = await auth.login({
+      password: 'somepassword',
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(400);
   });
 
   test('POST /auth/login - fail with missing password', async () => {
-    try {
-      await api.post(endpoints.auth.login, {
-        username: 'emilys',
-      });
-      expect(true).toBe(false);
-    } catch (error: any) {
-      expect(error.response.status).toBe(400);
-    }
+    const result = await auth.login({
+      username: 'emilys',
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(400);
   });
 
   test('POST /auth/login - fail with empty credentials', async () => {
-    try {
-      await api.post(endpoints.auth.login, {});
-      expect(true).toBe(false);
-    } catch (error: any) {
-      expect(error.response.status).toBe(400);
-    }
+    const result = await auth.login({});
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(400);
   });
 
   test('POST /auth/login - verify token format', async () => {
@@ -96,8 +94,86 @@ describe('Authentication API Tests - Axios', () => {
   });
 });
 
+describe('Auth Session & Token Refresh Tests - Axios', () => {
+  const { auth } = createServices();
+
+  test('GET /auth/me - retrieve current user for a persona session', async () => {
+    const user = await sessions.session('emilys').me();
+
+    expect(user.username).toBe('emilys');
+    expect(user.id).toBe(sessions.session('emilys').profile?.id);
+  });
+
+  test('GET /auth/me - authenticated client carries the session token', async () => {
+    const client = createAuthenticatedClient(sessions.session('michaelw'));
+    const user = unwrap(await createServices(client).auth.me());
+
+    expect(user.username).toBe('michaelw');
+  });
+
+  test('GET /auth/me - fail without token', async () => {
+    const result = await auth.me();
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(401);
+  });
+
+  test('POST /auth/refresh - issue new tokens from a refresh token', async () => {
+    const { refreshToken } = unwrap(await auth.login(personas.emilys));
+
+    const result = await auth.refresh({ refreshToken, expiresInMins: 30 });
+
+    expect(result.status).toBe(200);
+    expect(unwrap(result).accessToken).toMatch(/^[\w-]+\.[\w-]+\.[\w-]+$/);
+  });
+
+  test('POST /auth/refresh - fail with invalid refresh token', async () => {
+    const result = await auth.refresh({ refreshToken: 'not.a.token' });
+
+    expect(result.ok).toBe(false);
+    expect([401, 403]).toContain(result.status);
+  });
+
+  test('Session - refresh token before access token expiry', async () => {
+    const calls: string[] = [];
+    const counting: AuthTransport = {
+      send: (request) => {
+        calls.push(request.path);
+        return axiosAuthTransport.send(request);
+      },
+    };
+
+    // A skew longer than the token lifetime makes every cached token "expiring"
+    const session = new AuthSession(counting, personas.emilys, { expiresInMins: 1, refreshSkewMs: 120_000 });
+    await session.getAccessToken();
+    await session.getAccessToken();
+
+    expect(calls).toEqual([endpoints.auth.login, endpoints.auth.refresh]);
+  });
+
+  test('Session - retry with refreshed token after 401', async () => {
+    const calls: string[] = [];
+    const corruptingFirstLogin: AuthTransport = {
+      send: async (request) => {
+        calls.push(request.path);
+        const response = await axiosAuthTransport.send(request);
+        if (request.path === endpoints.auth.login) {
+          const body = loginResponseSchema.parse(response.body);
+          return { ...response, body: { ...body, accessToken: `${body.accessToken}x` } };
+        }
+        return response;
+      },
+    };
+
+    const client = createAuthenticatedClient(new AuthSession(corruptingFirstLogin, personas.emilys));
+    const response = await client.get(endpoints.auth.me);
+
+    expect(response.status).toBe(200);
+    expect(calls).toEqual([endpoints.auth.login, endpoints.auth.refresh]);
+  });
+});
+
 describe('Authentication API Tests - Supertest', () => {
-  const request = require('supertest');
   const baseURL = process.env.API_BASE_URL || 'https://dummyjson.com';
 
   test('POST /auth/login - supertest successful login', async () => {
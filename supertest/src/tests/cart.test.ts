@@ -1,22 +1,24 @@
 import { describe, test, expect, beforeAll } from 'vitest';
+import { endpoints, cartSchema, cartListSchema } from '@saucedemo/contracts';
+import { collect } from '@saucedemo/pagination';
+import { aCart } from '@saucedemo/test-data';
 import { api } from '../client';
-import { endpoints } from '../endpoints';
-import { cartSchema, cartListSchema, loginResponseSchema } from '../schemas';
+import { paginate } from '../paginate';
+import { createServices } from '../services';
+import { sessions } from '../session';
+import { request } from '../supertest-client';
 
 let authToken: string;
 let userId: number;
 
 describe('Cart API Tests - Axios', () => {
-  beforeAll(async () => {
-    // Login to get a token for authenticated requests
-    const loginResponse = await api.post(endpoints.auth.login, {
-      username: 'emilys',
-      password: 'emilyspass',
-    });
+  const { carts } = createServices();
 
-    const loginData = loginResponseSchema.parse(loginResponse.data);
-    authToken = loginData.accessToken;
-    userId = loginData.id;
+  beforeAll(async () => {
+    // Reuse the worker's cached session instead of logging in again
+    const session = sessions.session('emilys');
+    authToken = await session.getAccessToken();
+    userId = session.profile!.id;
   });
 
   test('GET /carts - retrieve all carts', async () => {
@@ -32,6 +34,14 @@ describe('Cart API Tests - Axios', () => {
     expect(validatedData.total).toBeGreaterThan(0);
   });
 
+  test('GET /carts - paginate every cart across pages', async () => {
+    const { total } = cartListSchema.parse((await api.get(endpoints.carts.base, { params: { limit: 1 } })).data);
+    const carts = await collect(paginate(endpoints.carts.base, cartListSchema, { pageSize: 7, concurrency: 3 }));
+
+    expect(carts).toHaveLength(total);
+    expect(new Set(carts.map((cart) => cart.id)).size).toBe(total);
+  });
+
   test('GET /carts/:id - retrieve single cart by ID', async () => {
     const cartId = 1;
     const response = await api.get(endpoints.carts.single(cartId));
@@ -48,12 +58,10 @@ describe('Cart API Tests - Axios', () => {
   });
 
   test('GET /carts/:id - fail with non-existent cart ID', async () => {
-    try {
-      await api.get(endpoints.carts.single(99999));
-      expect(true).toBe(false);
-    } catch (error: any) {
-      expect(error.response.status).toBe(404);
-    }
+    const result = await carts.get(99999);
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(404);
   });
 
   test('GET /carts/user/:userId - retrieve carts by user ID', async () => {
@@ -73,19 +81,7 @@ describe('Cart API Tests - Axios', () => {
   });
 
   test('POST /carts/add - add a new cart', async () => {
-    const newCart = {
-      userId: 1,
-      products: [
-        {
-          id: 1,
-          quantity: 2,
-        },
-        {
-          id: 5,
-          quantity: 1,
-        },
-      ],
-    };
+    const newCart = aCart({ userId: 1, lines: 2 });
 
     const response = await api.post(endpoints.carts.add, newCart);
 
@@ -202,7 +198,6 @@ describe('Cart API Tests - Axios', () => {
 });
 
 describe('Cart API Tests - Supertest', () => {
-  const request = require('supertest');
   const baseURL = process.env.API_BASE_URL || 'https://dummyjson.com';
 
   test('GET /carts - supertest retrieve all carts', async () => {
@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'vitest';
+import { aggregateDrift, detectDrift, endpointLabel } from '@saucedemo/contract-drift';
+import { endpoints, cartSchema, productListSchema, userSchema } from '@saucedemo/contracts';
+import { api } from '../client';
+
+describe('Contract Drift Detection Tests', () => {
+  test('reports unknown fields with sample values', async () => {
+    const response = await api.get(endpoints.users.single(1));
+    const findings = detectDrift(userSchema, { ...response.data, nickname: 'Em' });
+
+    expect(findings).toContainEqual({ kind: 'unknown-field', path: 'nickname', samples: ['Em'] });
+  });
+
+  test('reports missing optional fields on nested array items', async () => {
+    const response = await api.get(endpoints.carts.single(1));
+    const findings = detectDrift(cartSchema, response.data);
+
+    // GET /carts returns discountedTotal per line; discountedPrice only appears on POST /carts/add
+    expect(findings).toContainEqual({ kind: 'missing-optional', path: 'products[].discountedPrice', samples: [] });
+  });
+
+  test('aggregates array items under one field path', () => {
+    const body = {
+      products: [{ sku: 'A-1' }, { sku: 'B-2' }],
+      total: 2,
+      skip: 0,
+      limit: 2,
+    };
+    const findings = detectDrift(productListSchema, body).filter((finding) => finding.kind === 'unknown-field');
+
+    expect(findings).toEqual([{ kind: 'unknown-field', path: 'products[].sku', samples: ['A-1', 'B-2'] }]);
+  });
+
+  test('labels requests by their documented endpoint', () => {
+    expect(endpointLabel('get', 'http://localhost:3000/products/7?select=title')).toBe('GET /products/{id}');
+    expect(endpointLabel('GET', '/products/search?q=phone')).toBe('GET /products/search');
+    expect(endpointLabel('GET', '/unknown/path')).toBe('GET /unknown/path');
+  });
+
+  test('aggregates findings across responses into a report', () => {
+    const report = aggregateDrift([
+      { endpoint: 'GET /users/{id}', findings: [{ kind: 'unknown-field', path: 'role', samples: ['admin'] }] },
+      { endpoint: 'GET /users/{id}', findings: [{ kind: 'unknown-field', path: 'role', samples: ['user'] }] },
+      { endpoint: 'GET /users/{id}', findings: [] },
+    ]);
+
+    expect(report.responsesChecked).toBe(3);
+    expect(report.entries).toEqual([
+      {
+        endpoint: 'GET /users/{id}',
+        kind: 'unknown-field',
+        path: 'role',
+        occurrences: 2,
+        responses: 3,
+        samples: ['admin', 'user'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test, expect } from 'vitest';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { endpoints } from '@saucedemo/contracts';
+import { harMode, harPath, httpLog, HarBuilder, HttpLog } from '@saucedemo/http-log';
+import { api } from '../client';
+import { request } from '../supertest-client';
+
+const baseURL = process.env.API_BASE_URL || 'https://dummyjson.com';
+
+describe('HAR Export Tests', () => {
+  test('builds HAR 1.2 entries from Axios traffic, one page per test', async () => {
+    await api.get(endpoints.products.base, { params: { limit: 2, select: 'title' } });
+    await api.post(endpoints.auth.login, { username: 'emilys', password: 'emilyspass' });
+
+    const { log } = new HarBuilder().page('products > login', httpLog.entries).add([]).build();
+
+    expect(log.version).toBe('1.2');
+    expect(log.pages).toMatchObject([{ id: 'page_1', title: 'products > login' }]);
+    const [list, login] = log.entries;
+    expect(list).toMatchObject({
+      pageref: 'page_1',
+      request: { method: 'GET', queryString: [{ name: 'limit', value: '2' }, { name: 'select', value: 'title' }] },
+      response: { status: 200, statusText: 'OK', content: { mimeType: expect.stringContaining('application/json') } },
+    });
+    expect(JSON.parse(list.response.content.text!).products).toHaveLength(2);
+    expect(list.timings.wait).toBe(list.time);
+    expect(JSON.parse(login.request.postData!.text)).toEqual({ username: 'emilys', password: '[REDACTED]' });
+    expect(login.response.content.text).not.toContain('eyJ');
+  });
+
+  test('captures supertest traffic with the headers sent and per-phase timings', async () => {
+    await request(baseURL).get(endpoints.products.single(1)).set('X-Trace', 'har').expect(200);
+
+    const [entry] = new HarBuilder().page('supertest', httpLog.entries).build().log.entries;
+    expect(entry.request.headers).toContainEqual({ name: 'x-trace', value: 'har' });
+    expect(entry.response.content.size).toBeGreaterThan(0);
+    expect(entry.timings.wait).toBeGreaterThanOrEqual(0);
+    expect(entry.timings.receive).toBeGreaterThanOrEqual(0);
+  });
+
+  test('records requests without a response as status 0 with the error', () => {
+    const log = new HttpLog();
+    log.begin({ method: 'post', url: 'http://127.0.0.1:1/carts/add', body: '{}' }).error(new Error('connect ECONNREFUSED'));
+
+    const [entry] = new HarBuilder().add(log.entries).build().log.entries;
+    expect(entry).toMatchObject({
+      response: { status: 0, statusText: '', bodySize: -1 },
+      _error: 'connect ECONNREFUSED',
+    });
+    expect(entry.pageref).toBeUndefined();
+  });
+
+  test('writes per-file and per-test paths under HAR_DIR', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'har-'));
+
+    expect(harPath(['cart.test.ts'], dir)).toBe(join(dir, 'cart.test.ts.har'));
+    expect(harPath(['cart.test.ts', 'Cart API Tests', 'GET /carts/:id single'], dir)).toBe(
+      join(dir, 'cart.test.ts', 'Cart-API-Tests', 'GET-carts-id-single.har')
+    );
+
+    const path = new HarBuilder().page('empty', []).write(harPath(['a.test.ts', 'suite', 'test'], dir));
+    expect(JSON.parse(readFileSync(path, 'utf8')).log.pages).toHaveLength(1);
+  });
+
+  test('HAR_MODE selects failed (default), file or off', () => {
+    const previous = process.env.HAR_MODE;
+    try {
+      delete process.env.HAR_MODE;
+      expect(harMode()).toBe('failed');
+      process.env.HAR_MODE = 'file';
+      expect(harMode()).toBe('file');
+      process.env.HAR_MODE = 'off';
+      expect(harMode()).toBe('off');
+    } finally {
+      process.env.HAR_MODE = previous;
+      if (previous === undefined) {
+        delete process.env.HAR_MODE;
+      }
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, test, expect } from 'vitest';
+import { endpoints } from '@saucedemo/contracts';
+import { httpLog, redactionOptions, reproduce, HttpLog, Redactor } from '@saucedemo/http-log';
+import { api, createAuthenticatedClient } from '../client';
+import { sessions } from '../session';
+
+describe('HTTP Log Tests', () => {
+  test('redacts configured headers, keeping the auth scheme', () => {
+    const redactor = new Redactor();
+
+    expect(redactor.headers({ Authorization: 'Bearer abc.def.ghi', Cookie: 'sid=1', Accept: 'application/json' })).toEqual({
+      authorization: 'Bearer [REDACTED]',
+      cookie: '[REDACTED]',
+      accept: 'application/json',
+    });
+  });
+
+  test('redacts secret fields at any depth, in arrays and in query strings', () => {
+    const redactor = new Redactor();
+
+    expect(
+      redactor.body({ username: 'emilys', PASSWORD: 'emilyspass', users: [{ id: 1, refreshToken: 'r' }], token: null })
+    ).toEqual({ username: 'emilys', PASSWORD: '[REDACTED]', users: [{ id: 1, refreshToken: '[REDACTED]' }], token: '[REDACTED]' });
+    expect(redactor.url('https://api.test/auth?accessToken=abc&limit=5')).toBe(
+      'https://api.test/auth?accessToken=%5BREDACTED%5D&limit=5'
+    );
+  });
+
+  test('extra names come from HTTP_LOG_REDACT_HEADERS and HTTP_LOG_REDACT_FIELDS', () => {
+    process.env.HTTP_LOG_REDACT_HEADERS = 'x-api-key';
+    process.env.HTTP_LOG_REDACT_FIELDS = 'email, phone';
+    try {
+      const redactor = new Redactor(redactionOptions({ placeholder: '***' }));
+
+      expect(redactor.headers({ 'X-Api-Key': 'k' })).toEqual({ 'x-api-key': '***' });
+      expect(redactor.body({ email: 'a@b.c', phone: '1', password: 'p' })).toEqual({ email: '***', phone: '***', password: '***' });
+    } finally {
+      delete process.env.HTTP_LOG_REDACT_HEADERS;
+      delete process.env.HTTP_LOG_REDACT_FIELDS;
+    }
+  });
+
+  test('records login traffic through the Axios client without credentials or tokens', async () => {
+    await api.post(endpoints.auth.login, { username: 'emilys', password: 'emilyspass' });
+
+    const [exchange] = httpLog.entries;
+    expect(exchange).toMatchObject({
+      method: 'POST',
+      url: expect.stringContaining(endpoints.auth.login),
+      status: 200,
+      request: { body: { username: 'emilys', password: '[REDACTED]' } },
+      response: { body: { username: 'emilys', accessToken: '[REDACTED]', refreshToken: '[REDACTED]' } },
+    });
+    expect(exchange.durationMs).toBeGreaterThanOrEqual(0);
+    expect(exchange.request.headers['content-type']).toBe('application/json');
+    expect(httpLog.format()).not.toContain('emilyspass');
+  });
+
+  test('logs the Authorization header added by the session, redacted', async () => {
+    const client = createAuthenticatedClient(sessions.session('emilys'));
+    await client.get(endpoints.auth.me);
+
+    const me = httpLog.entries.find((exchange) => exchange.url.endsWith(endpoints.auth.me));
+    expect(me?.request.headers.authorization).toBe('Bearer [REDACTED]');
+    expect(JSON.stringify(httpLog)).not.toMatch(/eyJ[\w-]+\.[\w-]+/);
+  });
+
+  test('records error responses and network failures', async () => {
+    await expect(api.get(`${endpoints.products.base}/99999`)).rejects.toThrow();
+    // POST is not retried, so the failure is logged once
+    await expect(api.post('http://127.0.0.1:1/unreachable', {}, { timeout: 2000 })).rejects.toThrow();
+
+    const [notFound, unreachable] = httpLog.entries;
+    expect(notFound.status).toBe(404);
+    expect(unreachable.status).toBeUndefined();
+    expect(unreachable.error).toContain('ECONNREFUSED');
+    expect(httpLog.format()).toContain('-> failed: ');
+  });
+
+  test('starts empty for every test', () => {
+    expect(httpLog.entries).toHaveLength(0);
+  });
+
+  test('reproduces the requests actually sent as cURL with secrets as variables', async () => {
+    const client = createAuthenticatedClient(sessions.session('emilys'));
+    await client.post(endpoints.carts.add, { userId: 1, products: [{ id: 1, quantity: 2 }] });
+
+    const add = httpLog.entries.find((exchange) => exchange.url.endsWith(endpoints.carts.add))!;
+    expect(reproduce(add, 'curl')).toBe(
+      [
+        `curl -X POST '${add.url}'`,
+        `-H 'accept: application/json'`,
+        `-H 'content-type: application/json'`,
+        `-H 'authorization: Bearer '"$API_ACCESS_TOKEN"`,
+        `--data-raw '{"userId":1,"products":[{"id":1,"quantity":2}]}'`,
+      ].join(' \\\n  ')
+    );
+  });
+
+  test('reproduces as HTTPie, quoting for the shell', () => {
+    const log = new HttpLog();
+    log.begin({
+      method: 'put',
+      url: 'https://api.test/users/1?token=abc',
+      headers: { 'Content-Type': 'application/json', 'Content-Length': '30' },
+      body: { lastName: "O'Hara", password: 'secret' },
+    }).response({ status: 200 });
+
+    expect(log.reproduction('httpie')).toBe(
+      [
+        '# Last 1 of 1 request(s) made by the test',
+        ': "${API_PASSWORD:?export API_PASSWORD first}"',
+        ': "${API_TOKEN:?export API_TOKEN first}"',
+        '',
+        '# 1. PUT https://api.test/users/1?token=%5BREDACTED%5D -> 200',
+        `http PUT 'https://api.test/users/1?token='"$API_TOKEN" \\`,
+        `  'content-type:application/json' \\`,
+        `  --raw '{"lastName":"O'\\''Hara","password":"'"$API_PASSWORD"'"}'`,
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('reproduction scripts cover only the last requests of the test', () => {
+    const log = new HttpLog();
+    for (const id of [1, 2, 3]) {
+      log.begin({ method: 'get', url: `https://api.test/products/${id}` }).response({ status: 200 });
+    }
+
+    const script = log.reproduction('curl', 2);
+    expect(script).toMatch(/^# Last 2 of 3 request\(s\)/);
+    expect(script).not.toContain('products/1');
+    expect(script).toContain(`curl 'https://api.test/products/3'`);
+  });
+
+  test('formats exchanges as readable text with bodies truncated', () => {
+    const log = new HttpLog();
+    log.begin({ method: 'get', url: 'https://api.test/products' }).response({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ description: 'x'.repeat(5000) }),
+    });
+
+    const text = log.format();
+    expect(text).toMatch(/^HTTP log \(1 request\):\n\nGET https:\/\/api\.test\/products -> 200 \(\d+ms\)/);
+    expect(text).toContain('  < content-type: application/json');
+    expect(text).toMatch(/\.\.\. \(5018 chars\)$/);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, test } from 'vitest';
+import { endpoints, searchQuery, toQueryParams, ListQuery } from '@saucedemo/contracts';
+import {
+  assertLimitHonoured,
+  assertPagesPartitionList,
+  assertSearchMatches,
+  propertyParameters,
+  ProductListSource,
+} from '@saucedemo/list-properties';
+import { random } from '@saucedemo/test-data';
+import { api } from '../client';
+
+const get = async (path: string, params: Record<string, string | number>) => {
+  const response = await api.get(path, { params });
+  return response.data;
+};
+
+const source: ProductListSource = {
+  list: (query: ListQuery) => get(endpoints.products.base, toQueryParams(query)),
+  search: (term: string, query: ListQuery) => get(endpoints.products.search, searchQuery(term, query)),
+};
+
+// Cases are generated from the test-data seed, so a failure replays with its TEST_DATA_SEED
+describe('Inventory/Products Property Tests - Axios', () => {
+  test('GET /products - pages never overlap and concatenate to the full list', async () => {
+    await assertPagesPartitionList(source, propertyParameters(random().seed));
+  });
+
+  test('GET /products - skip/limit return the exact slice at boundaries', async () => {
+    await assertLimitHonoured(source, propertyParameters(random().seed));
+  });
+
+  test('GET /products/search - every result contains the query term', async () => {
+    await assertSearchMatches(source, propertyParameters(random().seed));
+  });
+});
@@ -1,9 +1,14 @@
 import { describe, test, expect } from 'vitest';
+import { endpoints, categoryListSchema, productSchema, productListSchema } from '@saucedemo/contracts';
+import { collect } from '@saucedemo/pagination';
 import { api } from '../client';
-import { endpoints } from '../endpoints';
-import { productSchema, productListSchema } from '../schemas';
+import { paginate } from '../paginate';
+import { createServices } from '../services';
+import { request } from '../supertest-client';
 
 describe('Inventory/Products API Tests - Axios', () => {
+  const { products } = createServices();
+
   test('GET /products - retrieve all products', async () => {
     const response = await api.get(endpoints.products.base);
 
@@ -48,12 +53,10 @@ describe('Inventory/Products API Tests - Axios', () => {
   });
 
   test('GET /products/:id - fail with non-existent product ID', async () => {
-    try {
-      await api.get(endpoints.products.single(99999));
-      expect(true).toBe(false);
-    } catch (error: any) {
-      expect(error.response.status).toBe(404);
-    }
+    const result = await products.get(99999);
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(404);
   });
 
   test('GET /products/search - search for products', async () => {
@@ -101,10 +104,24 @@ describe('Inventory/Products API Tests - Axios', () => {
     expect(validatedData.products.length).toBeLessThanOrEqual(limit);
   });
 
+  test('GET /products - paginate across pages up to maxItems', async () => {
+    const products = await collect(
+      paginate(endpoints.products.base, productListSchema, {
+        pageSize: 20,
+        maxItems: 45,
+        concurrency: 2,
+        query: { sortBy: 'id', order: 'asc' },
+      })
+    );
+
+    expect(products.map((product) => product.id)).toEqual(Array.from({ length: 45 }, (_, index) => index + 1));
+  });
+
   test('GET /products/categories - retrieve all product categories', async () => {
     const response = await api.get(endpoints.products.categories);
 
     expect(response.status).toBe(200);
+    await expect(response).toMatchSchema(categoryListSchema);
 
     expect(Array.isArray(response.data)).toBeTruthy();
     expect(response.data.length).toBeGreaterThan(0);
@@ -131,6 +148,8 @@ describe('Inventory/Products API Tests - Axios', () => {
 
   test('Validate product schema fields', async () => {
     const response = await api.get(endpoints.products.single(1));
+    await expect(response).toMatchSchema(productSchema);
+
     const product = productSchema.parse(response.data);
 
     // Verify all required fields are present
@@ -152,10 +171,24 @@ describe('Inventory/Products API Tests - Axios', () => {
     expect(typeof product.price).toBe('number');
     expect(Array.isArray(product.images)).toBeTruthy();
   });
+
+  test('toMatchSchema - report each invalid field with its path', async () => {
+    const response = await api.get(endpoints.products.single(1));
+    const broken = { ...response.data, price: 'free', images: [42] };
+
+    await expect(response).toMatchSchema(productSchema);
+    await expect(broken).not.toMatchSchema(productSchema);
+
+    const failure = await expect(broken)
+      .toMatchSchema(productSchema)
+      .catch((error: Error) => error);
+
+    expect(String(failure)).toContain('price: Expected number, received string');
+    expect(String(failure)).toContain('images[0]: Expected string, received number');
+  });
 });
 
 describe('Inventory/Products API Tests - Supertest', () => {
-  const request = require('supertest');
   const baseURL = process.env.API_BASE_URL || 'https://dummyjson.com';
 
   test('GET /products - supertest retrieve all products', async () => {
@@ -183,6 +216,7 @@ describe('Inventory/Products API Tests - Supertest', () => {
       .get(`${endpoints.products.search}?q=phone`)
       .expect(200);
 
+    await expect(response).toMatchSchema(productListSchema);
     expect(response.body.products).toBeDefined();
     expect(response.body.products.length).toBeGreaterThan(0);
   });
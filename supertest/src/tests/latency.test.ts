@@ -0,0 +1,95 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { latencyBudgets, operations } from '@saucedemo/contracts';
+import {
+  aggregateLatency,
+  finishLatencySession,
+  percentile,
+  recordLatency,
+  LatencyBudgetError,
+  LatencySample,
+} from '@saucedemo/latency';
+
+const sample = (route: string, operation: string | undefined, durationMs: number): LatencySample => ({
+  route,
+  ...(operation ? { operation } : {}),
+  status: 200,
+  durationMs,
+});
+
+describe('Latency Budget Tests', () => {
+  const env = { dir: process.env.LATENCY_REPORT_DIR, enforce: process.env.LATENCY_ENFORCE };
+
+  afterEach(() => {
+    process.env.LATENCY_REPORT_DIR = env.dir;
+    if (env.enforce === undefined) {
+      delete process.env.LATENCY_ENFORCE;
+    } else {
+      process.env.LATENCY_ENFORCE = env.enforce;
+    }
+  });
+
+  test('every documented operation has a budget, and every budget names an operation', () => {
+    const ids = operations.map((operation) => operation.id).sort();
+
+    expect(Object.keys(latencyBudgets).sort()).toEqual(ids);
+    expect(latencyBudgets.searchProducts.p95).toBe(800);
+  });
+
+  test('percentiles use the nearest rank', () => {
+    const sorted = Array.from({ length: 20 }, (_, i) => (i + 1) * 10);
+
+    expect(percentile(sorted, 50)).toBe(100);
+    expect(percentile(sorted, 95)).toBe(190);
+    expect(percentile([42], 95)).toBe(42);
+    expect(percentile([], 95)).toBe(0);
+  });
+
+  test('aggregates p50/p95/max per route and flags budget breaches', () => {
+    const samples = [
+      ...[100, 120, 140, 900].map((ms) => sample('GET /products/search', 'searchProducts', ms)),
+      sample('GET /products/{id}', 'getProduct', 50),
+      sample('GET /health', undefined, 5000),
+    ];
+
+    const report = aggregateLatency(samples, { searchProducts: { p50: 200, p95: 800 }, getProduct: { max: 100 } });
+
+    expect(report.requests).toBe(6);
+    expect(report.entries).toEqual([
+      { route: 'GET /health', requests: 1, p50: 5000, p95: 5000, max: 5000, breaches: [] },
+      { route: 'GET /products/{id}', operation: 'getProduct', requests: 1, p50: 50, p95: 50, max: 50,
+        budget: { max: 100 }, breaches: [] },
+      { route: 'GET /products/search', operation: 'searchProducts', requests: 4, p50: 120, p95: 900, max: 900,
+        budget: { p50: 200, p95: 800 }, breaches: ['p95 900ms > 800ms'] },
+    ]);
+  });
+
+  test('records samples per worker, labelled by documented operation', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'latency-'));
+    process.env.LATENCY_REPORT_DIR = dir;
+
+    recordLatency({ method: 'get', url: 'http://localhost:3000/products/7?select=title', status: 200, durationMs: 12 });
+    recordLatency({ method: 'GET', url: 'http://localhost:3000/nowhere', status: 404, durationMs: 3 });
+    recordLatency({ method: 'POST', url: 'http://localhost:3000/carts/add', durationMs: 30 });
+
+    const report = finishLatencySession();
+    expect(report.entries.map((entry) => [entry.route, entry.operation])).toEqual([
+      ['GET /nowhere', undefined],
+      ['GET /products/{id}', 'getProduct'],
+    ]);
+    expect(readFileSync(join(dir, 'report.md'), 'utf8')).toContain('| `GET /products/{id}` | 1 | 12ms | 12ms | 12ms | p50 ≤ 300ms, p95 ≤ 600ms | ✅ |');
+  });
+
+  test('LATENCY_ENFORCE=1 fails the session when a budget is exceeded', () => {
+    process.env.LATENCY_REPORT_DIR = mkdtempSync(join(tmpdir(), 'latency-'));
+    recordLatency({ method: 'GET', url: '/products/search?q=phone', status: 200, durationMs: 5000 });
+
+    expect(finishLatencySession().entries[0].breaches).toEqual(['p95 5000ms > 800ms']);
+
+    process.env.LATENCY_ENFORCE = '1';
+    expect(() => finishLatencySession()).toThrow(LatencyBudgetError);
+    expect(() => finishLatencySession()).toThrow('GET /products/search: p95 5000ms > 800ms');
+  });
+});
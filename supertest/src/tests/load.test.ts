@@ -0,0 +1,141 @@
+import { describe, test, expect } from 'vitest';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { HttpLog } from '@saucedemo/http-log';
+import {
+  assertLocalTarget,
+  formatLoadReport,
+  loadOptions,
+  runLoad,
+  summarizeLoad,
+  LoadScenario,
+  RemoteLoadTargetError,
+} from '@saucedemo/load';
+
+const options = { virtualUsers: 3, rampUpMs: 60, durationMs: 200, thinkTimeMs: 5 };
+
+/**
+ * Scenario whose journeys log fake exchanges instead of calling the API
+ */
+function scenario(log: HttpLog, started: number[] = []): LoadScenario<{ id: number }> {
+  const call = async (method: string, url: string, status?: number) => {
+    const pending = log.begin({ method, url });
+    await sleep(2);
+    if (status === undefined) {
+      pending.error(new Error('socket hang up'));
+    } else {
+      pending.response({ status });
+    }
+  };
+
+  return {
+    journeys: [
+      { name: 'browse', run: () => call('GET', 'http://localhost/products/1', 200) },
+      {
+        name: 'checkout',
+        run: async ({ id }) => {
+          await call('POST', 'http://localhost/carts/add', id === 0 ? 400 : 201);
+          if (id === 0) {
+            throw new Error('cart rejected');
+          }
+        },
+      },
+      { name: 'flaky', run: () => call('GET', 'http://localhost/products/search', undefined) },
+    ],
+    setup: async (id) => {
+      started.push(id);
+      return { id };
+    },
+  };
+}
+
+describe('Load Runner Tests', () => {
+  test('runs each virtual user until the deadline, ramping users up in order', async () => {
+    const log = new HttpLog();
+    const started: number[] = [];
+
+    const result = await runLoad(scenario(log, started), options, log);
+
+    expect(started).toEqual([0, 1, 2]);
+    expect(result.elapsedMs).toBeGreaterThanOrEqual(options.durationMs);
+    expect(new Set(result.iterations.map((iteration) => iteration.virtualUser))).toEqual(new Set([0, 1, 2]));
+    expect(new Set(result.iterations.map((iteration) => iteration.journey))).toEqual(new Set(['browse', 'checkout', 'flaky']));
+    // Samples are kept by the runner; the log itself is cleared to bound memory
+    expect(result.requests.length + result.unanswered).toBe(result.iterations.length);
+    expect(log.entries).toHaveLength(0);
+  });
+
+  test('summarizes throughput, error rates and percentiles per journey and route', async () => {
+    const log = new HttpLog();
+    const report = summarizeLoad(await runLoad(scenario(log), options, log));
+
+    const checkout = report.journeys.find((stats) => stats.journey === 'checkout')!;
+    expect(checkout.errors).toBeGreaterThan(0);
+    expect(report.failedIterations).toBe(checkout.errors);
+    expect(report.errorRate).toBeCloseTo(report.failedIterations / report.iterations);
+    expect(report.failedRequests).toBeGreaterThan(report.failedIterations);
+    expect(report.iterationsPerSecond).toBeGreaterThan(0);
+    expect(report.routes.map((route) => route.route)).toEqual(['GET /products/{id}', 'POST /carts/add']);
+    expect(report.errors[0]).toEqual({ message: 'cart rejected', count: checkout.errors });
+
+    const markdown = formatLoadReport(report);
+    expect(markdown).toContain('3 virtual users, 0.06s ramp-up, 0.2s run, 5ms think time');
+    expect(markdown).toContain('| checkout |');
+    expect(markdown).toContain('cart rejected');
+  });
+
+  test('virtual users whose setup fails run no iterations', async () => {
+    const log = new HttpLog();
+    const base = scenario(log);
+    const failing: LoadScenario<{ id: number }> = {
+      ...base,
+      setup: async (id) => {
+        if (id === 1) {
+          throw new Error('login failed');
+        }
+        return base.setup(id);
+      },
+    };
+
+    const result = await runLoad(failing, options, log);
+
+    expect(result.setupFailures).toEqual([{ virtualUser: 1, error: 'login failed' }]);
+    expect(result.iterations.some((iteration) => iteration.virtualUser === 1)).toBe(false);
+    expect(summarizeLoad(result).errors).toContainEqual({ message: 'setup: login failed', count: 1 });
+  });
+
+  test('reads options from LOAD_* variables', () => {
+    const names = ['LOAD_VUS', 'LOAD_RAMP_UP', 'LOAD_DURATION', 'LOAD_THINK_MS'];
+    const previous = names.map((name) => process.env[name]);
+    try {
+      Object.assign(process.env, { LOAD_VUS: '20', LOAD_RAMP_UP: '10', LOAD_DURATION: '120', LOAD_THINK_MS: '' });
+      expect(loadOptions()).toEqual({ virtualUsers: 20, rampUpMs: 10_000, durationMs: 120_000, thinkTimeMs: 0 });
+      expect(loadOptions({ virtualUsers: 1 }).virtualUsers).toBe(1);
+    } finally {
+      names.forEach((name, i) => {
+        if (previous[i] === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = previous[i];
+        }
+      });
+    }
+  });
+
+  test('refuses non-local targets unless LOAD_ALLOW_REMOTE=1', () => {
+    const previous = process.env.LOAD_ALLOW_REMOTE;
+    try {
+      delete process.env.LOAD_ALLOW_REMOTE;
+      expect(() => assertLocalTarget('http://127.0.0.1:3000')).not.toThrow();
+      expect(() => assertLocalTarget('http://localhost:3000')).not.toThrow();
+      expect(() => assertLocalTarget('https://dummyjson.com')).toThrow(RemoteLoadTargetError);
+
+      process.env.LOAD_ALLOW_REMOTE = '1';
+      expect(() => assertLocalTarget('https://dummyjson.com')).not.toThrow();
+    } finally {
+      process.env.LOAD_ALLOW_REMOTE = previous;
+      if (previous === undefined) {
+        delete process.env.LOAD_ALLOW_REMOTE;
+      }
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'vitest';
+import { Validator } from '@seriousme/openapi-schema-validator';
+import { buildOpenApiDocument, endpoints, operations } from '@saucedemo/contracts';
+
+/**
+ * Documented path for an entry of `endpoints`; parameterized helpers are
+ * rendered with `{param}` placeholders, query-string helpers are skipped
+ */
+function documentedPaths(): string[] {
+  return Object.values(endpoints).flatMap((group) =>
+    Object.values(group)
+      .map((endpoint) => (typeof endpoint === 'function' ? endpoint('{param}' as never, 0 as never) : endpoint))
+      .filter((path) => !path.includes('?'))
+      .map((path) => path.replace(/\{param\}/g, '{*}'))
+  );
+}
+
+type JsonContent = Record<string, { schema: { $ref?: string } }>;
+
+/**
+ * The parts of a generated operation object these tests read
+ */
+type DocumentedOperation = {
+  requestBody?: { content: JsonContent };
+  responses: Record<string, { content: JsonContent }>;
+};
+
+describe('OpenAPI Document Tests', () => {
+  const document = buildOpenApiDocument();
+
+  test('generated document is a valid OpenAPI 3.1 specification', async () => {
+    const result = await new Validator().validate(document);
+
+    expect(result.errors).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(document.openapi).toBe('3.1.0');
+  });
+
+  test('every endpoint in the catalog is documented', () => {
+    const paths = Object.keys(document.paths).map((path) => path.replace(/\{\w+\}/g, '{*}'));
+
+    documentedPaths().forEach((path) => {
+      expect(paths).toContain(path);
+    });
+  });
+
+  test('every operation is documented with its method and responses', () => {
+    operations.forEach((operation) => {
+      const documented = document.paths[operation.path][operation.method.toLowerCase()];
+
+      expect(documented.operationId).toBe(operation.id);
+      expect(Object.keys(documented.responses as object)).toEqual(Object.keys(operation.responses));
+    });
+  });
+
+  test('request and response bodies reference the shared schemas', () => {
+    const addCart = document.paths['/carts/add'].post as DocumentedOperation;
+    const listCarts = document.paths['/carts'].get as DocumentedOperation;
+
+    expect(addCart.requestBody?.content['application/json'].schema.$ref).toBe('#/components/schemas/AddToCartRequest');
+    expect(listCarts.responses['200'].content['application/json'].schema.$ref).toBe('#/components/schemas/CartList');
+    expect(addCart.responses['400'].content['application/json'].schema.$ref).toBe('#/components/schemas/ErrorResponse');
+  });
+
+  test('every $ref resolves to a component schema', () => {
+    const refs = [...JSON.stringify(document).matchAll(/"\$ref":"#\/components\/schemas\/(\w+)"/g)].map(([, name]) => name);
+
+    expect(refs.length).toBeGreaterThan(0);
+    refs.forEach((name) => {
+      expect(document.components.schemas).toHaveProperty(name);
+    });
+  });
+
+  test('authenticated operations declare bearer security', () => {
+    const me = document.paths[endpoints.auth.me].get;
+
+    expect(me.security).toEqual([{ bearerAuth: [] }]);
+    expect(document.components.securitySchemes).toHaveProperty('bearerAuth');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'vitest';
+import { collect, paginateList, ListPage, PaginationError } from '@saucedemo/pagination';
+import type { ListQuery } from '@saucedemo/contracts';
+
+interface NumberPage extends ListPage {
+  numbers: number[];
+}
+
+/**
+ * In-memory list endpoint that answers pages after a random delay
+ */
+function fakeEndpoint(total: number) {
+  const requests: ListQuery[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const fetchPage = async (query: ListQuery): Promise<NumberPage> => {
+    requests.push(query);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise((resolve) => setTimeout(resolve, Math.random() * 5));
+    inFlight--;
+
+    const skip = query.skip ?? 0;
+    const numbers = Array.from({ length: total }, (_, index) => index + 1).slice(skip, skip + (query.limit ?? 30));
+    return { numbers, total, skip, limit: numbers.length };
+  };
+
+  return { fetchPage, requests, maxInFlight: () => maxInFlight };
+}
+
+describe('Pagination Iterator Tests', () => {
+  test('yields every item in order with concurrent page requests', async () => {
+    const endpoint = fakeEndpoint(53);
+    const numbers = await collect(paginateList(endpoint.fetchPage, { pageSize: 5, concurrency: 4 }));
+
+    expect(numbers).toEqual(Array.from({ length: 53 }, (_, index) => index + 1));
+    expect(endpoint.requests).toHaveLength(11);
+    expect(endpoint.maxInFlight()).toBe(4);
+  });
+
+  test('stops at maxItems without requesting beyond it', async () => {
+    const endpoint = fakeEndpoint(100);
+    const numbers = await collect(paginateList(endpoint.fetchPage, { pageSize: 10, maxItems: 25 }));
+
+    expect(numbers).toHaveLength(25);
+    expect(endpoint.requests.map((query) => [query.skip, query.limit])).toEqual([
+      [0, 10],
+      [10, 10],
+      [20, 5],
+    ]);
+  });
+
+  test('passes sort options to every page and never requests limit=0', async () => {
+    const endpoint = fakeEndpoint(12);
+    await collect(paginateList(endpoint.fetchPage, { pageSize: 5, query: { sortBy: 'price', order: 'desc' } }));
+
+    expect(endpoint.requests.every((query) => query.sortBy === 'price' && query.order === 'desc')).toBe(true);
+    expect(endpoint.requests.every((query) => query.limit! > 0)).toBe(true);
+  });
+
+  test('breaking out early stops requesting pages', async () => {
+    const endpoint = fakeEndpoint(100);
+    for await (const number of paginateList(endpoint.fetchPage, { pageSize: 10 })) {
+      if (number === 15) {
+        break;
+      }
+    }
+
+    expect(endpoint.requests).toHaveLength(2);
+  });
+
+  test('rejects with a failed page fetched ahead without leaving it unhandled', async () => {
+    const endpoint = fakeEndpoint(50);
+    const failure = new Error('page failed');
+    const fetchPage = (query: ListQuery) => ((query.skip ?? 0) >= 20 ? Promise.reject(failure) : endpoint.fetchPage(query));
+    const unhandled: unknown[] = [];
+    const onUnhandled = (reason: unknown) => unhandled.push(reason);
+    process.on('unhandledRejection', onUnhandled);
+
+    try {
+      const consumed: number[] = [];
+      const walk = async () => {
+        for await (const number of paginateList(fetchPage, { pageSize: 10, concurrency: 3 })) {
+          // A slow consumer: pages fetched ahead fail while earlier items are still being handled
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          consumed.push(number);
+        }
+      };
+
+      await expect(walk()).rejects.toBe(failure);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(consumed).toHaveLength(20);
+      expect(unhandled).toEqual([]);
+    } finally {
+      process.off('unhandledRejection', onUnhandled);
+    }
+  });
+
+  test('rejects invalid options', async () => {
+    const endpoint = fakeEndpoint(10);
+
+    await expect(collect(paginateList(endpoint.fetchPage, { pageSize: 0 }))).rejects.toThrow(PaginationError);
+    await expect(collect(paginateList(endpoint.fetchPage, { concurrency: 1.5 }))).rejects.toThrow(/concurrency/);
+    expect(await collect(paginateList(endpoint.fetchPage, { maxItems: 0 }))).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { coverageHit, CoverageHit } from '@saucedemo/api-coverage';
+import {
+  compareSuites,
+  formatParityReport,
+  parityShortfalls,
+  parityThreshold,
+  scenarioKey,
+} from '@saucedemo/parity';
+
+const hit = (suite: string, method: string, url: string, status: number, test?: string[]): CoverageHit =>
+  coverageHit({ method, url, status }, suite, test?.join(' > '))!;
+
+describe('Framework Parity Tests', () => {
+  const threshold = process.env.PARITY_THRESHOLD;
+
+  afterEach(() => {
+    if (threshold === undefined) {
+      delete process.env.PARITY_THRESHOLD;
+    } else {
+      process.env.PARITY_THRESHOLD = threshold;
+    }
+  });
+
+  test('keys scenarios by spec area and test title, ignoring case and spacing', () => {
+    expect(scenarioKey(['auth.spec.ts', 'Authentication API Tests', 'POST /auth/login -  Successful login'])).toBe(
+      'auth > post /auth/login - successful login'
+    );
+    expect(scenarioKey(['auth.test.ts', 'Authentication API Tests - Axios', 'POST /auth/login - successful login'])).toBe(
+      'auth > post /auth/login - successful login'
+    );
+  });
+
+  test('matches scenarios by spec area and title and lists those in one suite only', () => {
+    const login = ['auth.spec.ts', 'Authentication API Tests', 'POST /auth/login - successful login'];
+    const loginAxios = ['auth.test.ts', 'Authentication API Tests - Axios', 'POST /auth/login - successful login'];
+    const me = ['auth.test.ts', 'Auth Session Tests - Axios', 'GET /auth/me - fail without token'];
+    const unit = ['auth.test.ts', 'Persona Tests', 'resolves personas from the environment'];
+
+    const report = compareSuites(
+      {
+        'playwright-api': [{ titlePath: login, status: 'passed' }],
+        supertest: [
+          { titlePath: loginAxios, status: 'passed' },
+          { titlePath: me, status: 'passed' },
+          { titlePath: unit, status: 'passed' },
+        ],
+      },
+      [
+        hit('playwright-api', 'POST', '/auth/login', 200, login),
+        hit('supertest', 'POST', '/auth/login', 200, loginAxios),
+        hit('supertest', 'GET', '/auth/me', 401, me),
+      ]
+    );
+
+    expect(report.excluded).toBe(1);
+    expect(report.scenarios.shared.map((scenario) => scenario.key)).toEqual(['auth > post /auth/login - successful login']);
+    expect(report.scenarios.only).toEqual({
+      'playwright-api': [],
+      supertest: [{ key: 'auth > get /auth/me - fail without token', tests: { supertest: me }, routes: ['GET /auth/me'] }],
+    });
+    expect(report.scenarios.parity).toBe(50);
+    expect(report.routes).toEqual({
+      shared: ['POST /auth/login 200'],
+      only: { 'playwright-api': [], supertest: ['GET /auth/me 401'] },
+      parity: 50,
+    });
+  });
+
+  test('reports every test when the coverage hits do not name their tests', () => {
+    const report = compareSuites(
+      {
+        'playwright-api': [{ titlePath: ['cart.spec.ts', 'Cart API Tests', 'GET /carts - retrieve all carts'], status: 'passed' }],
+        supertest: [{ titlePath: ['cart.test.ts', 'Cart API Tests - Axios', 'GET /carts - retrieve all carts'], status: 'passed' }],
+      },
+      [hit('playwright-api', 'GET', '/carts', 200), hit('supertest', 'GET', '/health', 200)]
+    );
+
+    expect(report.excluded).toBe(0);
+    expect(report.scenarios.parity).toBe(100);
+    expect(report.routes.only['playwright-api']).toEqual(['GET /carts 200']);
+    expect(formatParityReport(report)).toContain('## Routes only exercised by playwright-api\n\n- `GET /carts 200`');
+  });
+
+  test('fails below PARITY_THRESHOLD and rejects thresholds outside 0-100', () => {
+    const report = compareSuites({
+      'playwright-api': [{ titlePath: ['users.spec.ts', 'Users', 'GET /users'], status: 'passed' }],
+      supertest: [],
+    });
+
+    process.env.PARITY_THRESHOLD = '';
+    expect(parityThreshold()).toBeUndefined();
+    process.env.PARITY_THRESHOLD = '80';
+    expect(parityShortfalls(report, parityThreshold()!)).toEqual(['Scenario parity 0% is below 80%']);
+    expect(formatParityReport(report)).toContain('| users.spec.ts › Users › GET /users | - |');
+    process.env.PARITY_THRESHOLD = '120';
+    expect(() => parityThreshold()).toThrow('PARITY_THRESHOLD must be a percentage between 0 and 100');
+  });
+});
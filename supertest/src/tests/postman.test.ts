@@ -0,0 +1,181 @@
+import { describe, test, expect } from 'vitest';
+import { operations } from '@saucedemo/contracts';
+import {
+  buildPostmanCollection,
+  buildPostmanEnvironment,
+  exampleBody,
+  importPostmanCollection,
+  parsePostmanCollection,
+  renderSpec,
+  PostmanCollection,
+  PostmanFormatError,
+  PostmanJourney,
+  POSTMAN_COLLECTION_SCHEMA,
+} from '@saucedemo/postman';
+import { loadScenarios } from '@saucedemo/scenarios';
+
+/**
+ * Minimal v2.1 collection around the given items
+ */
+function collectionOf(item: PostmanCollection['item'], extra: Partial<PostmanCollection> = {}): PostmanCollection {
+  return { info: { name: 'Imported', schema: POSTMAN_COLLECTION_SCHEMA }, item, ...extra };
+}
+
+describe('Postman Export Tests', () => {
+  const collection = buildPostmanCollection({ scenarios: loadScenarios() });
+  const requests = collection.item.filter((folder) => folder.name !== 'Scenarios').flatMap((folder) => folder.item ?? []);
+
+  test('exports one request per catalog operation, in tag folders', () => {
+    expect(collection.info.schema).toBe(POSTMAN_COLLECTION_SCHEMA);
+    expect(collection.item.map((folder) => folder.name)).toEqual(['Auth', 'Products', 'Carts', 'Users', 'Scenarios']);
+    expect(requests).toHaveLength(operations.length);
+
+    const getProduct = requests.find((item) => item.name === operations.find((op) => op.id === 'getProduct')!.summary)!;
+    expect(getProduct.request).toMatchObject({
+      method: 'GET',
+      url: { raw: '{{API_BASE_URL}}/products/:id', path: ['products', ':id'], variable: [{ key: 'id', value: '1' }] },
+    });
+    expect(getProduct.event![0].script.exec.join('\n')).toContain('pm.response.to.have.jsonSchema(');
+  });
+
+  test('authenticated operations send the environment token that login stores', () => {
+    const request = (raw: string) => requests.find((item) => JSON.stringify(item.request).includes(`"raw":"${raw}"`))!;
+    const me = request('{{API_BASE_URL}}/auth/me');
+    const login = request('{{API_BASE_URL}}/auth/login');
+
+    expect(typeof me.request === 'object' && me.request.auth).toEqual({
+      type: 'bearer',
+      bearer: [{ key: 'token', value: '{{accessToken}}', type: 'string' }],
+    });
+    expect(login.event![0].script.exec).toContain("pm.environment.set('accessToken', json.accessToken);");
+    expect(buildPostmanEnvironment('http://localhost:3000').values).toEqual([
+      { key: 'API_BASE_URL', value: 'http://localhost:3000', type: 'default', enabled: true },
+      { key: 'accessToken', value: '', type: 'secret', enabled: true },
+      { key: 'refreshToken', value: '', type: 'secret', enabled: true },
+    ]);
+  });
+
+  test('example bodies satisfy their operation body schemas', () => {
+    for (const operation of operations.filter((op) => op.body && op.id !== 'refreshSession')) {
+      expect(operation.body!.safeParse(exampleBody(operation.id)).success, operation.id).toBe(true);
+    }
+  });
+
+  test('exports traced checkout journeys as ordered folders that log in first and chain the token', () => {
+    const api = 'http://127.0.0.1:4010';
+    const journeys: PostmanJourney[] = [
+      {
+        name: 'Login > Browse > Add to Cart',
+        requests: [
+          { method: 'POST', url: `${api}/auth/login`, body: { username: 'michaelw', password: 'michaelwpass' }, status: 200 },
+          { method: 'GET', url: `${api}/products`, status: 200 },
+          { method: 'GET', url: `${api}/products/1`, status: 200 },
+          { method: 'POST', url: `${api}/carts/add`, body: { userId: 2, products: [{ id: 1, quantity: 2 }] }, status: 201 },
+        ],
+      },
+      {
+        name: 'Search > Select > Add to Cart',
+        requests: [
+          { method: 'GET', url: `${api}/products/search?q=phone`, status: 200 },
+          { method: 'POST', url: `${api}/carts/add`, body: { userId: 1, products: [{ id: 26, quantity: 1 }] }, status: 201 },
+        ],
+      },
+    ];
+    const folders = buildPostmanCollection({ journeys }).item.find((folder) => folder.name === 'Journeys')!.item!;
+    const steps = (name: string) =>
+      folders
+        .find((folder) => folder.name === name)!
+        .item!.map(({ request }) => (typeof request === 'object' ? `${request.method} ${(request.url as { raw: string }).raw}` : request));
+
+    expect(folders.map((folder) => folder.name)).toEqual(['Login > Browse > Add to Cart', 'Search > Select > Add to Cart']);
+    expect(steps('Login > Browse > Add to Cart')).toEqual([
+      'POST {{API_BASE_URL}}/auth/login',
+      'GET {{API_BASE_URL}}/products',
+      'GET {{API_BASE_URL}}/products/1',
+      'POST {{API_BASE_URL}}/carts/add',
+    ]);
+    // Without a login of its own, the journey starts with the catalog login
+    expect(steps('Search > Select > Add to Cart')).toEqual([
+      'POST {{API_BASE_URL}}/auth/login',
+      'GET {{API_BASE_URL}}/products/search?q=phone',
+      'POST {{API_BASE_URL}}/carts/add',
+    ]);
+
+    const [login, ...rest] = folders[0].item!;
+    expect(login.event![0].script.exec).toContain("pm.environment.set('accessToken', json.accessToken);");
+    expect(typeof login.request === 'object' && login.request.auth).toBeUndefined();
+    for (const item of rest) {
+      expect(typeof item.request === 'object' && item.request.auth?.bearer).toEqual([
+        { key: 'token', value: '{{accessToken}}', type: 'string' },
+      ]);
+    }
+    expect(rest[2].event![0].script.exec.join('\n')).toContain("pm.test('status is 201'");
+  });
+});
+
+describe('Postman Import Tests', () => {
+  test('round-trips the export into specs over endpoints and contract schemas', () => {
+    const imported = importPostmanCollection(buildPostmanCollection());
+    const getProduct = imported.requests.find((request) => request.path === '/products/1' && request.method === 'GET')!;
+    const deleteCart = imported.requests.find((request) => request.method === 'DELETE' && request.path === '/carts/1')!;
+
+    expect(getProduct).toMatchObject({ endpoint: { name: 'products.single', args: [1] }, status: 200, schema: 'productSchema' });
+    expect(deleteCart).toMatchObject({ endpoint: { name: 'carts.delete', args: [1] }, schema: 'deletedCartSchema' });
+
+    const spec = renderSpec(imported, 'playwright');
+    expect(spec).toContain("test('Products / Get a product', async ({ anonApi }) => {");
+    expect(spec).toContain('await anonApi.fetch(endpoints.products.single(1), {');
+    expect(spec).toContain('await expect(response).toMatchSchema(productSchema);');
+    expect(spec).toContain("const api = await authedApi({ persona: 'emilys' });");
+  });
+
+  test('reads raw URLs, script statuses and variables, and flags what it cannot map', () => {
+    const collection = collectionOf(
+      [
+        {
+          name: 'Users',
+          auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}' }] },
+          item: [
+            {
+              name: 'Rename',
+              request: {
+                method: 'PUT',
+                url: '{{host}}/users/{{userId}}?select=firstName',
+                body: { mode: 'raw', raw: '{ "firstName": "{{name}}" }' },
+              },
+              event: [{ listen: 'test', script: { type: 'text/javascript', exec: ['pm.expect(pm.response.code).to.eql(200);'] } }],
+            },
+            { name: 'Report', request: { method: 'GET', url: 'https://dummyjson.com/users/{{reportId}}/report' } },
+          ],
+        },
+      ],
+      { variable: [{ key: 'userId', value: '5' }, { key: 'name', value: 'Ada' }] }
+    );
+
+    const [rename, report] = importPostmanCollection(collection).requests;
+
+    expect(rename).toMatchObject({
+      title: 'Users / Rename',
+      path: '/users/5',
+      endpoint: { name: 'users.update', args: [5] },
+      query: { select: 'firstName' },
+      body: { firstName: 'Ada' },
+      authenticated: true,
+      status: 200,
+      schema: 'userSchema',
+      runnable: true,
+    });
+    expect(report).toMatchObject({ authenticated: true, runnable: false });
+    expect(report.endpoint).toBeUndefined();
+    expect(report.notes).toEqual(['Unresolved variable {{reportId}}', 'No endpoints entry for /users/{{reportId}}/report']);
+    expect(renderSpec({ name: 'Imported', requests: [report] }, 'vitest')).toContain("test.skip('Users / Report', async () => {");
+  });
+
+  test('rejects collections that are not v2.1', () => {
+    const v2 = JSON.stringify({ info: { name: 'Old', schema: 'https://schema.getpostman.com/json/collection/v2.0.0/collection.json' }, item: [] });
+
+    expect(() => parsePostmanCollection(v2)).toThrow(PostmanFormatError);
+    expect(() => parsePostmanCollection(v2)).toThrow('Re-export it from Postman as Collection v2.1.');
+    expect(parsePostmanCollection(JSON.stringify(collectionOf([]))).info.name).toBe('Imported');
+  });
+});
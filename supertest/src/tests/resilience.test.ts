@@ -0,0 +1,225 @@
+import { describe, test, expect, afterAll, beforeAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import axios from 'axios';
+import {
+  backoffDelay,
+  resiliencePolicy,
+  AttemptInspector,
+  CircuitBreaker,
+  CircuitOpenError,
+  ResilientExecutor,
+  RetryEvent,
+} from '@saucedemo/resilience';
+import { resilientAdapter } from '../resilience';
+
+interface FakeResponse {
+  status: number;
+  retryAfter?: string;
+}
+
+const inspectFake: AttemptInspector<FakeResponse> = {
+  response: ({ status, retryAfter }) => ({ status, retryAfter }),
+  error: () => ({}),
+};
+
+function harness(overrides = {}) {
+  const events: RetryEvent[] = [];
+  const sleeps: number[] = [];
+  let clock = 0;
+  const executor = new ResilientExecutor(resiliencePolicy({ retries: 2, baseDelayMs: 100, maxDelayMs: 1000, ...overrides }), {
+    logger: (event) => events.push(event),
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      clock += ms;
+    },
+    now: () => clock,
+    random: () => 1,
+  });
+  const advance = (ms: number) => {
+    clock += ms;
+  };
+  return { executor, events, sleeps, advance };
+}
+
+function responses(...statuses: Array<number | FakeResponse | Error>) {
+  let calls = 0;
+  const send = async (): Promise<FakeResponse> => {
+    const next = statuses[Math.min(calls++, statuses.length - 1)];
+    if (next instanceof Error) {
+      throw next;
+    }
+    return typeof next === 'number' ? { status: next } : next;
+  };
+  return { send, calls: () => calls };
+}
+
+const GET = { method: 'get', url: 'http://api.test/products' };
+const POST = { method: 'POST', url: 'http://api.test/carts/add' };
+
+describe('Resilience Policy Tests', () => {
+  test('retries idempotent requests on retryable statuses with exponential backoff', async () => {
+    const { executor, events, sleeps } = harness();
+    const upstream = responses(503, 502, 200);
+
+    const response = await executor.execute(GET, upstream.send, inspectFake);
+
+    expect(response.status).toBe(200);
+    expect(upstream.calls()).toBe(3);
+    expect(sleeps).toEqual([100, 200]);
+    expect(events.map((event) => [event.retry, event.reason])).toEqual([
+      [1, '503'],
+      [2, '502'],
+    ]);
+  });
+
+  test('does not retry non-idempotent methods or non-retryable statuses', async () => {
+    const { executor, events } = harness();
+    const post = responses(503, 200);
+    const notFound = responses(404, 200);
+
+    expect((await executor.execute(POST, post.send, inspectFake)).status).toBe(503);
+    expect((await executor.execute(GET, notFound.send, inspectFake)).status).toBe(404);
+    expect(post.calls() + notFound.calls()).toBe(2);
+    expect(events).toHaveLength(0);
+  });
+
+  test('honours Retry-After up to the maximum delay', async () => {
+    const { executor, sleeps } = harness();
+    const upstream = responses({ status: 429, retryAfter: '0' }, { status: 429, retryAfter: '120' }, 200);
+
+    await executor.execute(GET, upstream.send, inspectFake);
+
+    expect(sleeps).toEqual([0, 1000]);
+  });
+
+  test('retries network errors by code and rethrows the last one', async () => {
+    const { executor, events } = harness();
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    const upstream = responses(reset);
+
+    await expect(executor.execute(GET, upstream.send, inspectFake)).rejects.toBe(reset);
+    expect(upstream.calls()).toBe(3);
+    expect(events.map((event) => event.reason)).toEqual(['ECONNRESET', 'ECONNRESET']);
+
+    const unknown = responses(new Error('boom'), 200);
+    await expect(executor.execute(GET, unknown.send, inspectFake)).rejects.toThrow('boom');
+    expect(unknown.calls()).toBe(1);
+  });
+
+  test('backoff uses full jitter below an exponential, capped ceiling', () => {
+    const policy = resiliencePolicy({ baseDelayMs: 100, maxDelayMs: 1000 });
+
+    expect(backoffDelay(0, policy, () => 0)).toBe(0);
+    expect(backoffDelay(2, policy, () => 1)).toBe(400);
+    expect(backoffDelay(10, policy, () => 1)).toBe(1000);
+    expect(backoffDelay(3, policy, () => 0.5)).toBe(400);
+  });
+
+  test('opens the circuit per host after consecutive failures and recovers via a trial request', async () => {
+    const { executor, advance } = harness({ retries: 0, breakerThreshold: 3, breakerResetMs: 10_000 });
+    const failing = responses(500);
+
+    for (let i = 0; i < 3; i++) {
+      await executor.execute(GET, failing.send, inspectFake);
+    }
+    await expect(executor.execute(GET, failing.send, inspectFake)).rejects.toThrow(CircuitOpenError);
+    expect(failing.calls()).toBe(3);
+
+    // Other hosts are unaffected
+    expect((await executor.execute({ method: 'GET', url: 'http://other.test/' }, responses(200).send, inspectFake)).status).toBe(200);
+
+    advance(10_000);
+    expect(executor.breaker(GET.url).state).toBe('half-open');
+    expect((await executor.execute(GET, responses(200).send, inspectFake)).status).toBe(200);
+    expect(executor.breaker(GET.url).state).toBe('closed');
+  });
+
+  test('a failed trial request reopens the circuit', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker('api.test', 1, 1000, () => now);
+
+    breaker.failure();
+    expect(breaker.state).toBe('open');
+    now = 1000;
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    breaker.failure();
+    expect(breaker.state).toBe('open');
+  });
+
+  test('stops retrying when a failed trial reopens the circuit and returns its response', async () => {
+    const { executor, events, advance } = harness({ retries: 2, breakerThreshold: 1, breakerResetMs: 10_000 });
+
+    await executor.execute(GET, responses(500).send, inspectFake);
+    advance(10_000);
+    const trial = responses(503, 200);
+
+    expect((await executor.execute(GET, trial.send, inspectFake)).status).toBe(503);
+    expect(trial.calls()).toBe(1);
+    expect(events).toHaveLength(0);
+    expect(executor.breaker(GET.url).state).toBe('open');
+  });
+
+  test('retryable statuses such as 429 neither reset nor add to the failure count', async () => {
+    const { executor } = harness({ retries: 0, breakerThreshold: 2, breakerResetMs: 10_000 });
+
+    await executor.execute(GET, responses(500).send, inspectFake);
+    await executor.execute(GET, responses(429).send, inspectFake);
+    expect(executor.breaker(GET.url).state).toBe('closed');
+
+    await executor.execute(GET, responses(500).send, inspectFake);
+    expect(executor.breaker(GET.url).state).toBe('open');
+  });
+
+  test('a 429 on a half-open trial frees the trial for the next request', async () => {
+    const { executor, advance } = harness({ retries: 0, breakerThreshold: 1, breakerResetMs: 10_000 });
+
+    await executor.execute(GET, responses(500).send, inspectFake);
+    advance(10_000);
+
+    expect((await executor.execute(GET, responses(429).send, inspectFake)).status).toBe(429);
+    expect(executor.breaker(GET.url).state).toBe('half-open');
+    expect((await executor.execute(GET, responses(200).send, inspectFake)).status).toBe(200);
+    expect(executor.breaker(GET.url).state).toBe('closed');
+  });
+
+  describe('Axios adapter', () => {
+    let server: Server;
+    let baseURL: string;
+    let hits = 0;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        hits++;
+        if (hits === 1) {
+          res.writeHead(429, { 'Retry-After': '0', 'Content-Type': 'application/json' }).end('{"message":"slow down"}');
+        } else {
+          res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('retries a 429 below the interceptors and resolves with the final response', async () => {
+      const events: RetryEvent[] = [];
+      const executor = new ResilientExecutor(resiliencePolicy(), { logger: (event) => events.push(event) });
+      const client = axios.create({
+        baseURL,
+        adapter: resilientAdapter(axios.getAdapter(axios.defaults.adapter), executor),
+      });
+
+      const response = await client.get('/flaky');
+
+      expect(response.status).toBe(200);
+      expect(response.data).toEqual({ ok: true });
+      expect(hits).toBe(2);
+      expect(events).toMatchObject([{ method: 'GET', url: `${baseURL}/flaky`, retry: 1, reason: '429', delayMs: 0 }]);
+    });
+  });
+});
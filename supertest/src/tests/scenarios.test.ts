@@ -0,0 +1,123 @@
+import { describe, test, expect } from 'vitest';
+import {
+  buildRequest,
+  interpolate,
+  loadScenarios,
+  parseScenario,
+  queryPath,
+  runScenario,
+  ScenarioFormatError,
+  ScenarioResponse,
+  ScenarioStepError,
+  ScenarioTransport,
+} from '@saucedemo/scenarios';
+import { axiosScenarioTransport } from '../scenarios';
+
+/**
+ * One test per file in the shared scenarios/ directory (SCENARIOS_DIR)
+ */
+describe('Scenario Files', () => {
+  for (const { file, scenario } of loadScenarios()) {
+    test(`${scenario.name} (${file})`, async () => {
+      await runScenario(scenario, axiosScenarioTransport);
+    });
+  }
+});
+
+/**
+ * Transport answering each request with the next canned response
+ */
+function cannedTransport(...responses: ScenarioResponse[]): ScenarioTransport & { paths: string[] } {
+  const paths: string[] = [];
+  return {
+    paths,
+    async send(request) {
+      paths.push(`${request.method} ${request.path}`);
+      return responses.shift()!;
+    },
+  };
+}
+
+describe('Scenario Runner Tests', () => {
+  test('queryPath supports properties, indexes and negative indexes', () => {
+    const body = { products: [{ id: 1 }, { id: 2, 'odd key': true }] };
+
+    expect(queryPath(body, '$.products[0].id')).toBe(1);
+    expect(queryPath(body, '$.products[-1].id')).toBe(2);
+    expect(queryPath(body, "$.products[1]['odd key']")).toBe(true);
+    expect(queryPath(body, '$.products.length')).toBe(2);
+    expect(queryPath(body, '$.carts[0].id')).toBeUndefined();
+    expect(() => queryPath(body, '$.products[*].id')).toThrow('Invalid JSONPath');
+  });
+
+  test('interpolate keeps the type of whole references and stringifies embedded ones', () => {
+    const variables = { userId: 5, token: 'abc' };
+
+    expect(interpolate({ userId: '${userId}', products: [{ id: '${userId}' }] }, variables)).toEqual({
+      userId: 5,
+      products: [{ id: 5 }],
+    });
+    expect(interpolate('Bearer ${token} for ${userId}', variables)).toBe('Bearer abc for 5');
+    expect(() => interpolate('${cartId}', variables)).toThrow('Unknown variable ${cartId} (defined: userId, token)');
+  });
+
+  test('rejects unknown endpoints, schemas, variables names and JSONPaths with every issue listed', () => {
+    const yaml = [
+      'name: Broken',
+      'steps:',
+      '  - name: Nowhere',
+      '    endpoint: carts.checkout',
+      '    expect: { schema: basketSchema }',
+      '    extract: { 1st: "$.id", ok: "id" }',
+    ].join('\n');
+
+    const error = (() => {
+      try {
+        parseScenario(yaml, 'broken.yaml');
+      } catch (caught) {
+        return caught;
+      }
+    })() as ScenarioFormatError;
+
+    expect(error).toBeInstanceOf(ScenarioFormatError);
+    expect(error.issues).toEqual([
+      'steps.0.endpoint: Unknown endpoint "carts.checkout"',
+      'steps.0.expect.schema: Unknown schema "basketSchema"',
+      'steps.0.extract.1st: Variable names are letters, digits and _',
+      'steps.0.extract.ok: Invalid JSONPath "id"',
+    ]);
+    expect(() => parseScenario('{ "name": ', 'broken.json')).toThrow(ScenarioFormatError);
+  });
+
+  test('infers the method from the operation catalog unless the path is ambiguous', () => {
+    const scenario = parseScenario(
+      'name: Methods\nsteps:\n  - { name: Add, endpoint: carts.add }\n  - { name: Update, endpoint: carts.update, params: [1] }',
+      'methods.yaml'
+    );
+
+    expect(buildRequest(scenario.steps[0], {})).toEqual({ method: 'POST', path: '/carts/add' });
+    expect(() => buildRequest(scenario.steps[1], {})).toThrow(
+      'Step "Update": /carts/1 matches GET, PUT, DELETE operations; set "method"'
+    );
+  });
+
+  test('threads extracted variables into later steps and reports the failing step', async () => {
+    const scenario = parseScenario(
+      JSON.stringify({
+        name: 'Threading',
+        steps: [
+          { name: 'Login', endpoint: 'auth.login', body: {}, expect: { status: 200 }, extract: { userId: '$.id' } },
+          { name: 'Carts', endpoint: 'carts.user', params: ['${userId}'], expect: { match: { '$.total': 1 } } },
+        ],
+      }),
+      'threading.json'
+    );
+
+    const transport = cannedTransport({ status: 200, body: { id: 7 } }, { status: 200, body: { total: 0 } });
+    const failure = await runScenario(scenario, transport).catch((error: unknown) => error);
+
+    expect(transport.paths).toEqual(['POST /auth/login', 'GET /carts/user/7']);
+    expect(failure).toBeInstanceOf(ScenarioStepError);
+    expect((failure as ScenarioStepError).message).toBe('Step "Carts": GET /carts/user/7: $.total is 0, expected 1');
+  });
+});
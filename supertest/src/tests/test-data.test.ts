@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'vitest';
+import { ZodError } from 'zod';
+import { addToCartRequestSchema, addUserRequestSchema, loginRequestSchema } from '@saucedemo/contracts';
+import { aCart, aCartLine, aLogin, aUser, seedFor, seedMessage, useSeed } from '@saucedemo/test-data';
+
+function build() {
+  return { cart: aCart(), user: aUser(), login: aLogin() };
+}
+
+describe('Test Data Builder Tests', () => {
+  test('the same seed produces the same payloads', () => {
+    useSeed(42);
+    const first = build();
+    useSeed(42);
+
+    expect(build()).toEqual(first);
+  });
+
+  test('seeds depend on the run seed and the test title path', () => {
+    const seed = seedFor(['cart.spec.ts', 'Cart API Tests', 'add'], 7);
+
+    expect(seedFor(['cart.spec.ts', 'Cart API Tests', 'add'], 7)).toBe(seed);
+    expect(seedFor(['cart.spec.ts', 'Cart API Tests', 'update'], 7)).not.toBe(seed);
+    expect(seedFor(['cart.spec.ts', 'Cart API Tests', 'add'], 8)).not.toBe(seed);
+  });
+
+  test('builders produce valid request payloads', () => {
+    for (let seed = 0; seed < 50; seed++) {
+      useSeed(seed);
+      const cart = aCart();
+
+      expect(addToCartRequestSchema.parse(cart)).toEqual(cart);
+      expect(new Set(cart.products.map((line) => line.id)).size).toBe(cart.products.length);
+      expect(addUserRequestSchema.safeParse(aUser()).success).toBe(true);
+      expect(loginRequestSchema.safeParse(aLogin()).success).toBe(true);
+    }
+  });
+
+  test('overrides win and are validated before sending', () => {
+    expect(aCart({ userId: 5, lines: 3 })).toMatchObject({ userId: 5, products: expect.any(Array) });
+    expect(aCart({ lines: 3 }).products).toHaveLength(3);
+    expect(aCartLine({ id: 10, quantity: 4 })).toEqual({ id: 10, quantity: 4 });
+    expect(aLogin({ username: 'michaelw', password: 'michaelwpass' }).username).toBe('michaelw');
+
+    expect(() => aCart({ userId: 'one' as unknown as number })).toThrow(ZodError);
+    expect(() => aUser({ email: 'not-an-email' })).toThrow(ZodError);
+  });
+
+  test('failure message names the run seed', () => {
+    expect(seedMessage()).toContain(`TEST_DATA_SEED=${process.env.TEST_DATA_SEED}`);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, test, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  formatJUnit,
+  formatResultsMarkdown,
+  readPlaywrightResults,
+  readVitestResults,
+  summarizeResults,
+  TestResult,
+} from '@saucedemo/test-results';
+
+const writeJson = (value: unknown): string => {
+  const file = join(mkdtempSync(join(tmpdir(), 'test-results-')), 'test-results.json');
+  writeFileSync(file, JSON.stringify(value));
+  return file;
+};
+
+const attempt = (status: string, duration: number, retry: number, message?: string) => ({
+  status,
+  duration,
+  retry,
+  errors: message ? [{ message }] : [],
+});
+
+const playwright = writeJson({
+  suites: [
+    {
+      title: 'auth.spec.ts',
+      suites: [
+        {
+          title: 'Authentication API Tests',
+          specs: [
+            {
+              title: 'POST /auth/login - successful login',
+              tests: [{ expectedStatus: 'passed', status: 'expected', results: [attempt('passed', 120, 0)] }],
+            },
+            {
+              title: 'GET /auth/me - retrieve current user',
+              tests: [
+                {
+                  expectedStatus: 'passed',
+                  status: 'flaky',
+                  results: [attempt('failed', 300, 0, '\u001b[31mExpected: 200\u001b[39m'), attempt('passed', 100, 1)],
+                },
+              ],
+            },
+            {
+              title: 'POST /auth/refresh - issue new tokens',
+              tests: [
+                {
+                  expectedStatus: 'passed',
+                  status: 'unexpected',
+                  results: [
+                    attempt('failed', 50, 0, 'first'),
+                    attempt('timedOut', 30000, 1, 'Test timeout of 30000ms exceeded.'),
+                  ],
+                },
+              ],
+            },
+            {
+              title: 'GET /auth/me - fixme',
+              tests: [{ expectedStatus: 'skipped', status: 'skipped', results: [attempt('skipped', 0, 0)] }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  errors: [{ message: 'Error: mock server did not start' }],
+});
+
+const vitest = writeJson({
+  testResults: [
+    {
+      name: '/repo/supertest/src/tests/cart.test.ts',
+      status: 'failed',
+      message: '',
+      assertionResults: [
+        {
+          ancestorTitles: ['', 'Cart API Tests - Axios'],
+          title: 'GET /carts - retrieve <all> carts',
+          status: 'failed',
+          duration: 80,
+          failureMessages: ['AssertionError: expected 500 to be 200 & "ok"'],
+        },
+        {
+          ancestorTitles: ['Cart API Tests - Axios'],
+          title: 'DELETE /carts/:id',
+          status: 'pending',
+          duration: null,
+          failureMessages: [],
+        },
+      ],
+    },
+    {
+      name: '/repo/supertest/src/tests/users.test.ts',
+      status: 'failed',
+      message: "Cannot find module '../services/users'",
+      assertionResults: [],
+    },
+  ],
+});
+
+describe('Test Results Tests', () => {
+  test('normalizes Playwright results, with retries, flaky tests and run errors', () => {
+    const results = readPlaywrightResults(playwright);
+    const outcomes = results.map(({ titlePath, status, duration, retries }) => ({
+      title: titlePath.at(-1),
+      status,
+      duration,
+      retries,
+    }));
+
+    expect(outcomes).toEqual([
+      { title: 'POST /auth/login - successful login', status: 'passed', duration: 120, retries: 0 },
+      { title: 'GET /auth/me - retrieve current user', status: 'flaky', duration: 400, retries: 1 },
+      { title: 'POST /auth/refresh - issue new tokens', status: 'failed', duration: 30050, retries: 1 },
+      { title: 'GET /auth/me - fixme', status: 'skipped', duration: 0, retries: 0 },
+      { title: 'global setup', status: 'failed', duration: 0, retries: 0 },
+    ]);
+    expect(results[0]).toEqual({
+      suite: 'playwright-api',
+      file: 'auth.spec.ts',
+      titlePath: ['auth.spec.ts', 'Authentication API Tests', 'POST /auth/login - successful login'],
+      status: 'passed',
+      duration: 120,
+      retries: 0,
+    });
+    expect(results[1].error).toBe('Expected: 200');
+    expect(results[2].error).toBe('Test timeout of 30000ms exceeded.');
+    expect(results[4].error).toBe('Error: mock server did not start');
+  });
+
+  test('normalizes Vitest results, counting a file that failed to load as a failed test', () => {
+    expect(readVitestResults(vitest)).toEqual([
+      {
+        suite: 'supertest',
+        file: 'cart.test.ts',
+        titlePath: ['cart.test.ts', 'Cart API Tests - Axios', 'GET /carts - retrieve <all> carts'],
+        status: 'failed',
+        duration: 80,
+        retries: 0,
+        error: 'AssertionError: expected 500 to be 200 & "ok"',
+      },
+      {
+        suite: 'supertest',
+        file: 'cart.test.ts',
+        titlePath: ['cart.test.ts', 'Cart API Tests - Axios', 'DELETE /carts/:id'],
+        status: 'skipped',
+        duration: 0,
+        retries: 0,
+      },
+      {
+        suite: 'supertest',
+        file: 'users.test.ts',
+        titlePath: ['users.test.ts'],
+        status: 'failed',
+        duration: 0,
+        retries: 0,
+        error: "Cannot find module '../services/users'",
+      },
+    ]);
+  });
+
+  test('writes one JUnit testsuite per spec file with escaped failures and skips', () => {
+    const results = [...readPlaywrightResults(playwright), ...readVitestResults(vitest)];
+    const xml = formatJUnit(results);
+
+    expect(xml).toContain('<testsuites name="API Automation" tests="8" failures="4" skipped="2" time="30.650">');
+    expect(xml).toContain('<testsuite name="playwright-api/auth.spec.ts" tests="4" failures="1" skipped="1" time="30.570">');
+    expect(xml).toContain(
+      'name="Authentication API Tests › GET /auth/me - retrieve current user" time="0.400">\n' +
+        '      <properties><property name="retries" value="1"/></properties>'
+    );
+    expect(xml).toContain(
+      '<testcase classname="supertest/cart.test.ts" name="Cart API Tests - Axios › GET /carts - retrieve &lt;all&gt; carts"'
+    );
+    expect(xml).toContain('<failure message="AssertionError: expected 500 to be 200 &amp; &quot;ok&quot;">');
+    expect(xml).toContain('name="Cart API Tests - Axios › DELETE /carts/:id" time="0.000">\n      <skipped/>');
+    expect(xml).toContain('<testcase classname="supertest/users.test.ts" name="users.test.ts" time="0.000">');
+  });
+
+  test('summarizes each suite in Markdown and lists failures and flaky tests', () => {
+    const results = [...readPlaywrightResults(playwright), ...readVitestResults(vitest)];
+    const markdown = formatResultsMarkdown(results);
+
+    expect(summarizeResults(results).total).toEqual({
+      tests: 8,
+      passed: 1,
+      failed: 4,
+      flaky: 1,
+      skipped: 2,
+      duration: 30650,
+    });
+    expect(markdown).toContain('❌ **4 of 8 tests failed** (1 flaky, 2 skipped) in 30.6s');
+    expect(markdown).toContain('| playwright-api | 5 | 1 | 2 | 1 | 1 | 30.6s |');
+    expect(markdown).toContain('| **Total** | 8 | 1 | 4 | 1 | 2 | 30.6s |');
+    expect(markdown).toContain(
+      'Authentication API Tests › POST /auth/refresh - issue new tokens (2 attempts)\n\n' +
+        '```\nTest timeout of 30000ms exceeded.\n```'
+    );
+    expect(markdown).toContain(
+      '## Flaky\n\n- playwright-api › auth.spec.ts › Authentication API Tests › ' +
+        'GET /auth/me - retrieve current user (passed on retry 1)'
+    );
+
+    const passing: TestResult[] = [
+      { suite: 'supertest', file: 'a.test.ts', titlePath: ['a.test.ts', 'ok'], status: 'passed', duration: 61_500, retries: 0 },
+    ];
+    expect(formatResultsMarkdown(passing)).toContain('✅ **All 1 tests passed** (0 flaky, 0 skipped) in 1m 2s');
+  });
+});
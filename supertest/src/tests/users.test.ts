@@ -0,0 +1,137 @@
+import { describe, test, expect } from 'vitest';
+import { endpoints } from '@saucedemo/contracts';
+import { aUser } from '@saucedemo/test-data';
+import { api } from '../client';
+import { createServices, unwrap } from '../services';
+
+describe('Users API Tests - Axios', () => {
+  const { users: service } = createServices();
+
+  test('GET /users - retrieve first page of users', async () => {
+    const userList = unwrap(await service.list());
+
+    expect(userList.users.length).toBeGreaterThan(0);
+    expect(userList.total).toBeGreaterThanOrEqual(userList.users.length);
+    expect(userList.skip).toBe(0);
+  });
+
+  test('GET /users - paginate with limit and skip', async () => {
+    const firstPage = unwrap(await service.list({ limit: 5 }));
+    const secondPage = unwrap(await service.list({ limit: 5, skip: 5 }));
+
+    expect(firstPage.users).toHaveLength(5);
+    expect(secondPage.skip).toBe(5);
+    expect(secondPage.users[0].id).toBe(firstPage.users[4].id + 1);
+  });
+
+  test('GET /users - sort by age descending', async () => {
+    const { users } = unwrap(await service.list({ sortBy: 'age', order: 'desc', limit: 10 }));
+    const ages = users.map((user) => user.age);
+
+    expect(ages).toEqual([...ages].sort((a, b) => b - a));
+  });
+
+  test('GET /users/:id - retrieve single user by ID', async () => {
+    const user = unwrap(await service.get(1));
+
+    expect(user.id).toBe(1);
+    expect(user.username).toBe('emilys');
+    expect(user.hair?.color).toBeDefined();
+  });
+
+  test('GET /users/:id - fail with non-existent user ID', async () => {
+    const result = await service.get(99999);
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(404);
+    if (!result.ok) {
+      expect(result.error.message).toContain('99999');
+    }
+  });
+
+  test('GET /users/search - find users by name', async () => {
+    const { users } = unwrap(await service.search('Emily'));
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(users[0].firstName).toBe('Emily');
+  });
+
+  test('GET /users/search - no results for unknown term', async () => {
+    const userList = unwrap(await service.search('zzzz-no-such-user'));
+
+    expect(userList.users).toHaveLength(0);
+    expect(userList.total).toBe(0);
+  });
+
+  test('GET /users/filter - filter by nested key hair.color', async () => {
+    const { users } = unwrap(await service.filter('hair.color', 'Brown'));
+
+    expect(users.length).toBeGreaterThan(0);
+    users.forEach((user) => {
+      expect(user.hair?.color).toBe('Brown');
+    });
+  });
+
+  test('GET /users/filter - filter by top-level key', async () => {
+    const { users } = unwrap(await service.filter('gender', 'female', { limit: 3 }));
+
+    expect(users.length).toBeLessThanOrEqual(3);
+    users.forEach((user) => {
+      expect(user.gender).toBe('female');
+    });
+  });
+
+  test('GET /users/filter - fail without a value', async () => {
+    const response = await api.get(endpoints.users.filter, {
+      params: { key: 'gender' },
+      validateStatus: () => true,
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  test('POST /users/add - add a new user', async () => {
+    const newUser = aUser();
+    const user = unwrap(await service.add(newUser));
+
+    expect(user.id).toBeGreaterThan(0);
+    expect(user.firstName).toBe(newUser.firstName);
+    expect(user.age).toBe(newUser.age);
+  });
+
+  test('POST /users/add - fail without last name', async () => {
+    const result = await service.add({ firstName: 'Ada' });
+
+    expect(result.ok).toBe(false);
+    expect(result.status).toBe(400);
+  });
+
+  test('PUT /users/:id - update an existing user', async () => {
+    const user = unwrap(await service.update(2, { lastName: 'Owais', hair: { color: 'Black', type: 'Wavy' } }));
+
+    expect(user.id).toBe(2);
+    expect(user.lastName).toBe('Owais');
+    expect(user.hair?.color).toBe('Black');
+    expect(user.username).toBe('michaelw');
+  });
+
+  test('PUT /users/:id - fail with non-existent user ID', async () => {
+    const result = await service.update(99999, { lastName: 'Nobody' });
+
+    expect(result.status).toBe(404);
+  });
+
+  test('DELETE /users/:id - delete a user', async () => {
+    const user = unwrap(await service.delete(3));
+
+    expect(user.id).toBe(3);
+    expect(user.isDeleted).toBe(true);
+    expect(user.deletedOn).toBeDefined();
+  });
+
+  test('DELETE /users/:id - fail with non-existent user ID', async () => {
+    const result = await service.delete(99999);
+
+    expect(result.status).toBe(404);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'vitest';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { decodeTokenExpiry } from '@saucedemo/auth-session';
+import { endpoints } from '@saucedemo/contracts';
+import { interactionKey, splitUrl, Cassette, CassetteMismatchError, RecordedResponse, Vcr } from '@saucedemo/vcr';
+
+function jwt(claims: Record<string, unknown>): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+const issuedAt = Math.floor(Date.now() / 1000) - 3600;
+const accessToken = jwt({ id: 1, iat: issuedAt, exp: issuedAt + 1800 });
+const refreshToken = jwt({ id: 1, iat: issuedAt, exp: issuedAt + 86400 });
+
+const loginResponse: RecordedResponse = {
+  status: 200,
+  statusText: 'OK',
+  headers: { 'content-type': 'application/json' },
+  body: {
+    id: 1,
+    username: 'emilys',
+    email: 'emily.johnson@x.dummyjson.com',
+    firstName: 'Emily',
+    lastName: 'Johnson',
+    gender: 'female',
+    image: 'https://dummyjson.com/icon/emilys/128',
+    accessToken,
+    refreshToken,
+  },
+};
+
+const login = { method: 'post', url: endpoints.auth.login, body: '{"username":"emilys","password":"emilyspass"}' };
+
+describe('VCR Cassette Tests', () => {
+  test('keys ignore query parameter and body key order', () => {
+    const first = splitUrl('http://localhost:3000/products?skip=10', { limit: 5 });
+    const second = splitUrl('/products?limit=5&skip=10');
+
+    expect(first).toEqual(second);
+    expect(interactionKey({ method: 'post', ...first, body: { b: 2, a: 1 } })).toBe(
+      interactionKey({ method: 'POST', ...second, body: { a: 1, b: 2 } })
+    );
+  });
+
+  test('record redacts Authorization headers and login tokens', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'vcr-')), 'login.json');
+    const recorder = new Vcr('record');
+
+    recorder.insert('login', file);
+    const live = await recorder.handle({ ...login, headers: { Authorization: `Bearer ${accessToken}` } }, async () => loginResponse);
+    recorder.eject();
+
+    expect(live).toBe(loginResponse);
+
+    const [interaction] = Cassette.load('login', file).interactions;
+    const stored = interaction.response.body as { accessToken: string; refreshToken: string };
+    expect(interaction.request.headers).toEqual({ Authorization: 'Bearer <redacted>' });
+    expect(JSON.stringify(interaction)).not.toContain(accessToken);
+    expect(JSON.stringify(interaction)).not.toContain(refreshToken);
+    expect(stored.accessToken).toMatch(/^[\w-]+\.[\w-]+\.redacted$/);
+  });
+
+  test('replay re-mints tokens with their recorded lifetime and never sends', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'vcr-')), 'refresh.json');
+    const recorder = new Vcr('record');
+    recorder.insert('refresh', file);
+    await recorder.handle(login, async () => loginResponse);
+    await recorder.handle(
+      { method: 'POST', url: endpoints.auth.refresh, body: { refreshToken } },
+      async () => ({ ...loginResponse, body: { accessToken: jwt({ iat: issuedAt, exp: issuedAt + 60 }), refreshToken } })
+    );
+    recorder.eject();
+
+    const player = new Vcr('replay');
+    const offline = async (): Promise<RecordedResponse> => {
+      throw new Error('replay must not send requests');
+    };
+    player.insert('refresh', file);
+    const replayed = (await player.handle(login, offline)).body as { accessToken: string; refreshToken: string };
+    // The refresh request carries the re-minted token and still matches the recording
+    const refreshed = await player.handle(
+      { method: 'POST', url: endpoints.auth.refresh, body: { refreshToken: replayed.refreshToken } },
+      offline
+    );
+    player.eject();
+
+    const expiresAt = decodeTokenExpiry(replayed.accessToken)!;
+    expect(expiresAt - Date.now()).toBeGreaterThan(1790_000);
+    expect(expiresAt - Date.now()).toBeLessThanOrEqual(1800_000);
+    expect(refreshed.status).toBe(200);
+  });
+
+  test('replay fails loudly on unmatched and repeated requests', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'vcr-')), 'products.json');
+    const recorder = new Vcr('record');
+    recorder.insert('products', file);
+    await recorder.handle({ method: 'GET', url: endpoints.products.single(1) }, async () => ({ ...loginResponse, body: { id: 1 } }));
+    recorder.eject();
+
+    const player = new Vcr('replay');
+    const offline = async () => loginResponse;
+    player.insert('products', file);
+
+    await expect(player.handle({ method: 'GET', url: endpoints.products.single(2) }, offline)).rejects.toThrow(
+      /No recorded interaction for "GET \/products\/2"[\s\S]*GET \/products\/1/
+    );
+    await player.handle({ method: 'GET', url: endpoints.products.single(1) }, offline);
+    await expect(player.handle({ method: 'GET', url: endpoints.products.single(1) }, offline)).rejects.toThrow(
+      CassetteMismatchError
+    );
+    expect(() => player.insert('missing', join(tmpdir(), 'no-such-cassette.json'))).toThrow(/VCR_MODE=record/);
+  });
+});
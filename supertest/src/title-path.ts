@@ -0,0 +1,14 @@
+import { basename } from 'node:path';
+import type { Task } from 'vitest';
+
+/**
+ * Spec file name followed by the describe and test titles of a task,
+ * like Playwright's `testInfo.titlePath`
+ */
+export function titlePath(task: Task): string[] {
+  const titles: string[] = [];
+  for (let current: Task | undefined = task; current && current !== task.file; current = current.suite) {
+    titles.unshift(current.name);
+  }
+  return [basename(task.file?.filepath ?? ''), ...titles.filter(Boolean)];
+}
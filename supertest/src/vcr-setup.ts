@@ -0,0 +1,32 @@
+import { afterAll, afterEach, beforeAll, beforeEach } from 'vitest';
+import { basename } from 'node:path';
+import { cassettePath, vcr } from '@saucedemo/vcr';
+import { sessions } from './session';
+import { titlePath } from './title-path';
+
+/**
+ * Registered as a Vitest setup file. With VCR_MODE=record|replay, every test
+ * gets its own cassette, and each file one more for its beforeAll/afterAll
+ * hooks. Sessions are reset so every cassette holds its own login.
+ */
+
+if (vcr.enabled) {
+  beforeAll((suite) => {
+    sessions.reset();
+    const file = basename(suite.file?.filepath ?? suite.name);
+    vcr.insert(`${file} (hooks)`, cassettePath([file]));
+  });
+
+  afterAll(() => {
+    vcr.eject();
+  });
+
+  beforeEach(({ task }) => {
+    sessions.reset();
+    vcr.insert(titlePath(task).join(' > '), cassettePath(titlePath(task)));
+  });
+
+  afterEach(() => {
+    vcr.eject();
+  });
+}
@@ -4,6 +4,8 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'node',
+    globalSetup: ['./src/global-setup.ts'],
+    setupFiles: ['./src/matchers.ts', './src/test-data-setup.ts', './src/http-log-setup.ts', './src/vcr-setup.ts'],
     reporters: ['default', 'json'],
     outputFile: {
       json: './test-results.json',